@@ -0,0 +1,158 @@
+import React from "react";
+import { cn } from "@/lib/utils";
+import { Check, X } from "lucide-react";
+
+// Report returned by the audit_accessibility tool
+interface AccessibilityAudit {
+  summary: { checks: number; passed: number; failed: number };
+  contrast: {
+    label: string;
+    foreground: string;
+    background: string;
+    largeText: boolean;
+    ratio: number;
+    aa: boolean;
+    aaa: boolean;
+  }[];
+  colorVision: {
+    deficiency: string;
+    colors: { name: string; color: string; simulated: string }[];
+    confusablePairs: { a: string; b: string; deltaE: number }[];
+    pass: boolean;
+  }[];
+  touchTargets: { label: string; width: number; height: number; aa: boolean; aaa: boolean }[];
+}
+
+function isAccessibilityAudit(result: unknown): result is AccessibilityAudit {
+  const audit = result as Partial<AccessibilityAudit> | null;
+  return (
+    Array.isArray(audit?.contrast) && Array.isArray(audit?.colorVision) && Array.isArray(audit?.touchTargets)
+  );
+}
+
+function Verdict({ pass }: { pass: boolean }) {
+  return (
+    <span className={cn("inline-flex items-center gap-1", pass ? "text-green-700" : "text-destructive")}>
+      {pass ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+      {pass ? "Pass" : "Fail"}
+    </span>
+  );
+}
+
+function Swatch({ color, title }: { color: string; title?: string }) {
+  return (
+    <span
+      title={title ?? color}
+      className="inline-block h-3.5 w-3.5 shrink-0 rounded-sm border"
+      style={{ backgroundColor: color }}
+    />
+  );
+}
+
+function ReportTable({ title, headers, children }: { title: string; headers: string[]; children: React.ReactNode }) {
+  return (
+    <div>
+      <div className="mb-1 font-medium">{title}</div>
+      <table className="w-full border-collapse rounded-md border bg-background">
+        <thead>
+          <tr className="border-b text-left text-muted-foreground">
+            {headers.map((header) => (
+              <th key={header} className="px-2 py-1 font-medium">
+                {header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>{children}</tbody>
+      </table>
+    </div>
+  );
+}
+
+// Tables of the contrast, color vision and touch target checks of an
+// accessibility audit
+export function AccessibilityReport({ result }: { result: unknown }) {
+  if (!isAccessibilityAudit(result)) return null;
+  const { summary, contrast, colorVision, touchTargets } = result;
+
+  return (
+    <div className="space-y-3">
+      <div className="text-muted-foreground">
+        {summary.passed} of {summary.checks} checks pass WCAG AA
+        {summary.failed > 0 && <span className="text-destructive"> · {summary.failed} failing</span>}
+      </div>
+
+      {contrast.length > 0 && (
+        <ReportTable title="Contrast" headers={["Pair", "Ratio", "AA", "AAA"]}>
+          {contrast.map((check, index) => (
+            <tr key={index} className="border-b last:border-0">
+              <td className="px-2 py-1">
+                <span className="flex items-center gap-1.5">
+                  <span
+                    className="rounded-sm border px-1 font-medium"
+                    style={{ color: check.foreground, backgroundColor: check.background }}
+                  >
+                    Aa
+                  </span>
+                  {check.label}
+                  {check.largeText && <span className="text-muted-foreground">(large text)</span>}
+                </span>
+              </td>
+              <td className="px-2 py-1 font-mono">{check.ratio}:1</td>
+              <td className="px-2 py-1">
+                <Verdict pass={check.aa} />
+              </td>
+              <td className="px-2 py-1">
+                <Verdict pass={check.aaa} />
+              </td>
+            </tr>
+          ))}
+        </ReportTable>
+      )}
+
+      {colorVision.length > 0 && (
+        <ReportTable title="Color vision" headers={["Deficiency", "Simulated palette", "Confusable colors", ""]}>
+          {colorVision.map((check) => (
+            <tr key={check.deficiency} className="border-b last:border-0">
+              <td className="px-2 py-1 capitalize">{check.deficiency}</td>
+              <td className="px-2 py-1">
+                <span className="flex gap-0.5">
+                  {check.colors.map((color) => (
+                    <Swatch key={color.name} color={color.simulated} title={`${color.name}: ${color.simulated}`} />
+                  ))}
+                </span>
+              </td>
+              <td className="px-2 py-1">
+                {check.confusablePairs.length > 0
+                  ? check.confusablePairs.map((pair) => `${pair.a} / ${pair.b} (ΔE ${pair.deltaE})`).join(", ")
+                  : "None"}
+              </td>
+              <td className="px-2 py-1">
+                <Verdict pass={check.pass} />
+              </td>
+            </tr>
+          ))}
+        </ReportTable>
+      )}
+
+      {touchTargets.length > 0 && (
+        <ReportTable title="Touch targets" headers={["Target", "Size", "AA (24px)", "AAA (44px)"]}>
+          {touchTargets.map((check, index) => (
+            <tr key={index} className="border-b last:border-0">
+              <td className="px-2 py-1">{check.label}</td>
+              <td className="px-2 py-1 font-mono">
+                {check.width}×{check.height}
+              </td>
+              <td className="px-2 py-1">
+                <Verdict pass={check.aa} />
+              </td>
+              <td className="px-2 py-1">
+                <Verdict pass={check.aaa} />
+              </td>
+            </tr>
+          ))}
+        </ReportTable>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,41 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import {
   AssistantRuntimeProvider,
+  ExportedMessageRepository,
   useExternalStoreRuntime,
   Thread,
 } from "@assistant-ui/react";
 import type {
+  ThreadMessage,
   ThreadMessageLike,
   AppendMessage,
+  AttachmentAdapter,
+  CompleteAttachment,
 } from "@assistant-ui/react";
+import { ToolCallCard, TOOL_CALL_DETAILS_KEY, type ToolCallDetails } from "./ToolCallCard";
+import { DecisionsPanel } from "./DecisionsPanel";
+import { ExportMenu } from "./ExportMenu";
+import { ProjectSwitcher } from "./ProjectSwitcher";
+import { ShareButton } from "./ShareButton";
+import { SignIn } from "./SignIn";
+import { ToolApprovalPanel } from "./ToolApprovalPanel";
 import { Button } from "./ui/button";
 import { ScrollArea } from "./ui/scroll-area";
 import { Separator } from "./ui/separator";
+import { Input } from "./ui/input";
+import {
+  api,
+  UnauthorizedError,
+  type ApiAttachment,
+  type ApiMcpServerStatus,
+  type ApiMessage,
+  type ApiPendingToolCall,
+  type ApiPersona,
+  type ApiProject,
+  type ApiSearchResult,
+  type ApiThread,
+  type ChatEvent,
+} from "@/lib/api";
 import { cn } from "@/lib/utils";
 import {
   MessageSquare,
@@ -19,101 +44,464 @@ import {
   Trash2,
   ChevronLeft,
   Sparkles,
+  UserCircle,
+  Loader2,
+  LogOut,
+  PlugZap,
+  Pencil,
+  Search,
+  ScrollText,
 } from "lucide-react";
 
-// Types for our API responses
-interface ApiThread {
-  id: string;
-  title: string | null;
-  created_at: number;
-  updated_at: number;
-  metadata: string | null;
+// A visible message and the message it follows in the branch tree
+interface MessageNode {
+  message: ThreadMessageLike;
+  parentId: string | null;
 }
 
-interface ApiMessage {
-  id: string;
-  thread_id: string;
-  role: "user" | "assistant" | "system" | "tool";
-  content: string;
-  tool_calls: string | null;
-  tool_call_id: string | null;
-  created_at: number;
-  metadata: string | null;
-}
+type AssistantContentPart =
+  | { type: "text"; text: string }
+  | {
+      type: "tool-call";
+      toolCallId: string;
+      toolName: string;
+      argsText: string;
+      result?: unknown;
+      isError?: boolean;
+    };
 
 interface ChatState {
   threads: ApiThread[];
+  personas: ApiPersona[];
+  selectedPersonaId: string | null;
+  projects: ApiProject[];
+  // Project whose threads are listed and new threads are filed in; null lists every thread
+  selectedProjectId: string | null;
   currentThreadId: string | null;
   messages: ThreadMessageLike[];
   isLoading: boolean;
 }
 
-// API client for the Worker
-const api = {
-  baseUrl: "/api",
-
-  async getThreads(): Promise<ApiThread[]> {
-    const response = await fetch(`${this.baseUrl}/threads`);
-    const data = await response.json();
-    return data.threads || [];
-  },
-
-  async createThread(title?: string): Promise<string> {
-    const response = await fetch(`${this.baseUrl}/threads`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ title }),
-    });
-    const data = await response.json();
-    return data.threadId;
-  },
-
-  async getThread(
-    threadId: string
-  ): Promise<{ thread: ApiThread; messages: ApiMessage[] }> {
-    const response = await fetch(`${this.baseUrl}/threads/${threadId}`);
-    return response.json();
-  },
-
-  async deleteThread(threadId: string): Promise<void> {
-    await fetch(`${this.baseUrl}/threads/${threadId}`, {
-      method: "DELETE",
-    });
-  },
-
-  async chat(
-    message: string,
-    threadId?: string
-  ): Promise<{ response: string; threadId: string }> {
-    const response = await fetch(`${this.baseUrl}/chat`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ message, threadId }),
-    });
-    return response.json();
-  },
-};
+// Titles are generated in the background after a reply; the thread list is
+// fetched again after this delay to pick up a new title
+const TITLE_REFRESH_DELAY_MS = 4000;
+
+// The generated summary in a thread's metadata, if any
+function getThreadSummary(thread: ApiThread): string | undefined {
+  try {
+    return thread.metadata ? JSON.parse(thread.metadata).summary : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DEBOUNCE_MS = 250;
+
+// Render a search snippet with its matches highlighted
+function HighlightedSnippet({ text, highlights }: { text: string; highlights: Array<[number, number]> }) {
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+  for (const [start, end] of highlights) {
+    parts.push(text.slice(offset, start));
+    parts.push(
+      <mark key={start} className="rounded-sm bg-primary/30 text-foreground">
+        {text.slice(start, end)}
+      </mark>
+    );
+    offset = end;
+  }
+  parts.push(text.slice(offset));
+  return <>{parts}</>;
+}
+
+// Types of files the Worker accepts as attachments
+const ATTACHMENT_ACCEPT = "image/png,image/jpeg,image/gif,image/webp,application/pdf";
+
+// Convert a stored attachment to the runtime's shape; images carry their
+// URL so the message bubble can show a thumbnail
+function toCompleteAttachment(attachment: ApiAttachment): CompleteAttachment {
+  const isImage = attachment.mimeType.startsWith("image/");
+  return {
+    id: attachment.id,
+    type: isImage ? "image" : "document",
+    name: attachment.name,
+    contentType: attachment.mimeType,
+    status: { type: "complete" },
+    content: isImage ? [{ type: "image", image: attachment.url ?? `/api/assets/${attachment.id}` }] : [],
+  };
+}
+
+// Attachment adapter for the composer. Files are uploaded when the message
+// is sent, to the thread `getThreadId` resolves, and are referenced by ID
+function createAttachmentAdapter(getThreadId: () => Promise<string>): AttachmentAdapter {
+  return {
+    accept: ATTACHMENT_ACCEPT,
+    async add({ file }) {
+      return {
+        id: crypto.randomUUID(),
+        type: file.type.startsWith("image/") ? "image" : "document",
+        name: file.name,
+        contentType: file.type,
+        file,
+        status: { type: "requires-action", reason: "composer-send" },
+      };
+    },
+    async send(attachment) {
+      const uploaded = await api.uploadAttachment(await getThreadId(), attachment.file);
+      return { ...toCompleteAttachment(uploaded), file: attachment.file };
+    },
+    // Nothing is uploaded before sending, so there is nothing to clean up
+    async remove() {},
+  };
+}
+
+// Parse a message's metadata column
+function parseMessageMetadata(message: ApiMessage): {
+  durationMs?: number;
+  isError?: boolean;
+  attachments?: ApiAttachment[];
+} {
+  try {
+    return message.metadata ? JSON.parse(message.metadata) : {};
+  } catch {
+    return {};
+  }
+}
+
+// Fold the messages of one reply into assistant content: text for each
+// assistant message, and a tool-call part for each call it made, paired with
+// the result of the tool message answering it
+function buildReplyContent(chain: ApiMessage[]): {
+  content: AssistantContentPart[];
+  toolCalls: Record<string, ToolCallDetails>;
+} {
+  const results = new Map(
+    chain.filter((msg) => msg.role === "tool" && msg.tool_call_id).map((msg) => [msg.tool_call_id!, msg])
+  );
+  const content: AssistantContentPart[] = [];
+  const toolCalls: Record<string, ToolCallDetails> = {};
+
+  for (const msg of chain) {
+    if (msg.role !== "assistant") continue;
+    if (msg.content) {
+      content.push({ type: "text", text: msg.content });
+    }
+    const calls: Array<{ id: string; function: { name: string; arguments: string } }> = msg.tool_calls
+      ? JSON.parse(msg.tool_calls)
+      : [];
+    for (const call of calls) {
+      const resultMsg = results.get(call.id);
+      const metadata = resultMsg ? parseMessageMetadata(resultMsg) : {};
+      content.push({
+        type: "tool-call",
+        toolCallId: call.id,
+        toolName: call.function.name,
+        argsText: call.function.arguments,
+        result: resultMsg ? parseToolResult(resultMsg.content) : undefined,
+        isError: resultMsg ? metadata.isError ?? false : undefined,
+      });
+      toolCalls[call.id] = { durationMs: metadata.durationMs };
+    }
+  }
+
+  return { content, toolCalls };
+}
+
+// Build the visible branch tree of a thread. Each user message is a node;
+// the assistant, tool and summary messages that answer it are folded into
+// one reply node identified by the last message of that reply. `nodeOf`
+// maps every stored message to the node showing it.
+function buildMessageTree(
+  apiMessages: ApiMessage[],
+  activeLeafId: string | null
+): { nodes: MessageNode[]; headId: string | null; nodeOf: Map<string, string | null> } {
+  const byId = new Map(apiMessages.map((msg) => [msg.id, msg]));
+  const children = new Map<string | null, ApiMessage[]>();
+  for (const msg of apiMessages) {
+    children.set(msg.parent_id, [...(children.get(msg.parent_id) ?? []), msg]);
+  }
+
+  // Maps every message to the visible node that contains it
+  const nodeOf = new Map<string, string | null>();
+  const nodes: MessageNode[] = [];
+
+  for (const msg of apiMessages) {
+    const parentNode = msg.parent_id ? nodeOf.get(msg.parent_id) ?? null : null;
+
+    if (msg.role === "user") {
+      nodeOf.set(msg.id, msg.id);
+      nodes.push({
+        parentId: parentNode,
+        message: {
+          id: msg.id,
+          role: "user",
+          content: msg.content ? [{ type: "text", text: msg.content }] : [],
+          attachments: (parseMessageMetadata(msg).attachments ?? []).map(toCompleteAttachment),
+          createdAt: new Date(msg.created_at * 1000),
+        },
+      });
+      continue;
+    }
+
+    // Non-user messages are folded into the reply that starts after a user message
+    if (msg.parent_id && byId.get(msg.parent_id)?.role !== "user") continue;
+
+    const chain = [msg];
+    let next = children.get(msg.id)?.find((child) => child.role !== "user");
+    while (next) {
+      chain.push(next);
+      next = children.get(next.id)?.find((child) => child.role !== "user");
+    }
+
+    const leaf = chain[chain.length - 1];
+    const hasReply = chain.some((part) => part.role === "assistant");
+
+    for (const part of chain) {
+      nodeOf.set(part.id, hasReply ? leaf.id : parentNode);
+    }
+    if (hasReply) {
+      const { content, toolCalls } = buildReplyContent(chain);
+      nodes.push({
+        parentId: parentNode,
+        message: {
+          id: leaf.id,
+          role: "assistant",
+          content,
+          createdAt: new Date(leaf.created_at * 1000),
+          metadata: { custom: { [TOOL_CALL_DETAILS_KEY]: toolCalls } },
+        },
+      });
+    }
+  }
+
+  const leafId = activeLeafId ?? apiMessages[apiMessages.length - 1]?.id;
+  return { nodes, headId: leafId ? nodeOf.get(leafId) ?? null : null, nodeOf };
+}
+
+// The newest leaf below a message, following its most recent children
+function getLatestLeafId(apiMessages: ApiMessage[], messageId: string): string {
+  let leafId = messageId;
+  while (true) {
+    const children = apiMessages.filter((msg) => msg.parent_id === leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+}
+
+// Follow parent links from headId to get the messages of one branch
+function getBranchMessages(
+  nodes: MessageNode[],
+  headId: string | null
+): ThreadMessageLike[] {
+  const byId = new Map(nodes.map((node) => [node.message.id, node]));
+  const branch: ThreadMessageLike[] = [];
+  let current = headId ? byId.get(headId) : undefined;
+  while (current) {
+    branch.unshift(current.message);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return branch;
+}
+
+// Convert to the runtime's message shape, which its branch repository stores
+function toThreadMessage(message: ThreadMessageLike): ThreadMessage {
+  return ExportedMessageRepository.fromArray([message]).messages[0].message;
+}
+
+// Parse a tool result string, falling back to the raw text
+function parseToolResult(result: string): unknown {
+  try {
+    return JSON.parse(result);
+  } catch {
+    return result;
+  }
+}
+
+// Fold a streamed chat event into the assistant message content
+function applyChatEvent(
+  content: AssistantContentPart[],
+  event: ChatEvent
+): AssistantContentPart[] {
+  switch (event.type) {
+    case "text-delta": {
+      const last = content[content.length - 1];
+      if (last?.type === "text") {
+        return [...content.slice(0, -1), { ...last, text: last.text + event.delta }];
+      }
+      return [...content, { type: "text", text: event.delta }];
+    }
+    case "tool-call-start":
+      return [
+        ...content,
+        {
+          type: "tool-call",
+          toolCallId: event.toolCallId,
+          toolName: event.toolName,
+          argsText: event.arguments,
+        },
+      ];
+    case "tool-result":
+      return content.map((part) =>
+        part.type === "tool-call" && part.toolCallId === event.toolCallId
+          ? { ...part, result: parseToolResult(event.result), isError: event.isError }
+          : part
+      );
+    default:
+      return content;
+  }
+}
+
+// Registry names are lowercase slugs; show them capitalized
+function displayServerName(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+// Banner listing MCP servers that need the user's authorization before
+// their tools can be used in this conversation
+interface McpAuthBannerProps {
+  servers: ApiMcpServerStatus[];
+  onAuthorized: () => void;
+}
+
+function McpAuthBanner({ servers, onAuthorized }: McpAuthBannerProps) {
+  const pending = servers.filter((server) => server.state === "authenticating");
+
+  // The callback page notifies its opener once tokens are stored
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin === window.location.origin && event.data?.type === "mcp-authorized") {
+        onAuthorized();
+      }
+    };
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [onAuthorized]);
+
+  const connect = (authUrl: string) => {
+    const popup = window.open(authUrl, "mcp-authorization", "width=600,height=720");
+    if (!popup) {
+      window.location.href = authUrl;
+      return;
+    }
+    // Also refresh when the popup is closed, in case the message never arrives
+    const timer = window.setInterval(() => {
+      if (popup.closed) {
+        window.clearInterval(timer);
+        onAuthorized();
+      }
+    }, 1000);
+  };
+
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="border-b bg-muted/50 px-4 py-2">
+      {pending.map((server) => (
+        <div key={server.serverId} className="flex items-center gap-3 py-1 text-sm">
+          <PlugZap className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <span className="flex-1">
+            {displayServerName(server.name)} needs your authorization before its tools can be
+            used in this conversation.
+          </span>
+          {server.authUrl && (
+            <Button size="sm" onClick={() => connect(server.authUrl!)}>
+              Connect {displayServerName(server.name)}
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
 
 // Sidebar component for thread history
 interface SidebarProps {
   threads: ApiThread[];
+  personas: ApiPersona[];
+  selectedPersonaId: string | null;
+  onSelectPersona: (personaId: string | null) => void;
+  projects: ApiProject[];
+  selectedProjectId: string | null;
+  onSelectProject: (projectId: string | null) => void;
+  onCreateProject: (name: string) => void;
   currentThreadId: string | null;
   onSelectThread: (threadId: string) => void;
   onCreateThread: () => void;
   onDeleteThread: (threadId: string) => void;
+  onRenameThread: (threadId: string, title: string) => void;
+  onSelectSearchResult: (result: ApiSearchResult) => void;
   isOpen: boolean;
   onToggle: () => void;
 }
 
 function Sidebar({
   threads,
+  personas,
+  selectedPersonaId,
+  onSelectPersona,
+  projects,
+  selectedProjectId,
+  onSelectProject,
+  onCreateProject,
   currentThreadId,
   onSelectThread,
   onCreateThread,
   onDeleteThread,
+  onRenameThread,
+  onSelectSearchResult,
   isOpen,
   onToggle,
 }: SidebarProps) {
+  const [query, setQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<ApiSearchResult[] | null>(null);
+
+  // Search as the user types; an empty box shows the thread list again
+  useEffect(() => {
+    if (!query.trim()) {
+      setSearchResults(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      api
+        .search(query)
+        .then((results) => {
+          if (!cancelled) setSearchResults(results);
+        })
+        .catch((error) => console.error("Failed to search:", error));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const [editing, setEditing] = useState<{ threadId: string; title: string } | null>(null);
+  // Set when Escape cancels a rename, so the blur that follows does not save it
+  const cancelRenameRef = useRef(false);
+
+  // Save an inline rename on blur; an empty or unchanged title keeps the old one
+  const commitRename = () => {
+    if (!editing) return;
+    if (cancelRenameRef.current) {
+      cancelRenameRef.current = false;
+      setEditing(null);
+      return;
+    }
+    const title = editing.title.trim();
+    const thread = threads.find((t) => t.id === editing.threadId);
+    if (title && title !== thread?.title) {
+      onRenameThread(editing.threadId, title);
+    }
+    setEditing(null);
+  };
+
+  // New threads in a project default to the project's persona
+  const projectPersonaId = projects.find((p) => p.id === selectedProjectId)?.persona_id;
+  const defaultPersonaName =
+    personas.find((persona) => persona.id === projectPersonaId)?.name ?? "UX Architect";
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp * 1000);
     const now = new Date();
@@ -160,22 +548,87 @@ function Sidebar({
           </Button>
         </div>
 
-        {/* New Chat Button */}
-        <div className="p-4">
+        <ProjectSwitcher
+          projects={projects}
+          selectedProjectId={selectedProjectId}
+          onSelectProject={onSelectProject}
+          onCreateProject={onCreateProject}
+        />
+
+        {/* New Chat Button and persona picker for new threads */}
+        <div className="p-4 space-y-2">
           <Button onClick={onCreateThread} className="w-full gap-2">
             <Plus className="h-4 w-4" />
             New Chat
           </Button>
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <UserCircle className="h-4 w-4 shrink-0" />
+            <select
+              value={selectedPersonaId ?? ""}
+              onChange={(e) => onSelectPersona(e.target.value || null)}
+              className="h-8 flex-1 rounded-md border bg-background px-2 text-sm text-foreground"
+              aria-label="Persona for new chats"
+            >
+              <option value="">{defaultPersonaName} (default)</option>
+              {personas.map((persona) => (
+                <option key={persona.id} value={persona.id}>
+                  {persona.name}
+                </option>
+              ))}
+            </select>
+          </label>
         </div>
 
         <Separator />
 
-        {/* Thread List */}
+        {/* Search across thread titles and messages */}
+        <div className="relative px-4 pt-3">
+          <Search className="absolute left-6 top-1/2 mt-1.5 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search conversations"
+            aria-label="Search conversations"
+            className="h-8 pl-8"
+          />
+        </div>
+
+        {/* Thread List, or search results while searching */}
         <ScrollArea className="flex-1">
           <div className="p-2 space-y-1">
-            {threads.length === 0 ? (
+            {searchResults ? (
+              searchResults.length === 0 ? (
+                <p className="text-center text-muted-foreground text-sm py-8">
+                  No matches
+                </p>
+              ) : (
+                searchResults.map((result) => (
+                  <button
+                    key={`${result.threadId}:${result.messageId ?? "title"}`}
+                    type="button"
+                    className="w-full rounded-lg px-3 py-2 text-left text-sm transition-colors hover:bg-muted"
+                    onClick={() => onSelectSearchResult(result)}
+                  >
+                    <p className="truncate font-medium">
+                      {result.messageId ? (
+                        result.threadTitle || "New conversation"
+                      ) : (
+                        <HighlightedSnippet text={result.snippet} highlights={result.highlights} />
+                      )}
+                    </p>
+                    {result.messageId && (
+                      <p className="line-clamp-2 text-xs text-muted-foreground">
+                        <span className="capitalize">{result.role}: </span>
+                        <HighlightedSnippet text={result.snippet} highlights={result.highlights} />
+                      </p>
+                    )}
+                  </button>
+                ))
+              )
+            ) : threads.length === 0 ? (
               <p className="text-center text-muted-foreground text-sm py-8">
-                No conversations yet
+                {selectedProjectId ? "No conversations in this project yet" : "No conversations yet"}
               </p>
             ) : (
               threads.map((thread) => (
@@ -188,16 +641,52 @@ function Sidebar({
                       : "hover:bg-muted"
                   )}
                   onClick={() => onSelectThread(thread.id)}
+                  title={getThreadSummary(thread)}
                 >
                   <MessageSquare className="h-4 w-4 shrink-0 text-muted-foreground" />
                   <div className="flex-1 truncate">
-                    <p className="truncate font-medium">
-                      {thread.title || "New conversation"}
-                    </p>
+                    {editing?.threadId === thread.id ? (
+                      <Input
+                        autoFocus
+                        value={editing.title}
+                        maxLength={80}
+                        aria-label="Conversation title"
+                        className="h-7 px-2 text-sm"
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => setEditing({ threadId: thread.id, title: e.target.value })}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === "Escape") cancelRenameRef.current = true;
+                          if (e.key === "Enter" || e.key === "Escape") e.currentTarget.blur();
+                        }}
+                      />
+                    ) : (
+                      <p
+                        className="truncate font-medium"
+                        onDoubleClick={(e) => {
+                          e.stopPropagation();
+                          setEditing({ threadId: thread.id, title: thread.title ?? "" });
+                        }}
+                      >
+                        {thread.title || "New conversation"}
+                      </p>
+                    )}
                     <p className="text-xs text-muted-foreground">
                       {formatDate(thread.updated_at)}
                     </p>
                   </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 opacity-0 group-hover:opacity-100 shrink-0"
+                    aria-label="Rename conversation"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setEditing({ threadId: thread.id, title: thread.title ?? "" });
+                    }}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
                   <Button
                     variant="ghost"
                     size="icon"
@@ -231,52 +720,171 @@ function Sidebar({
 export default function ChatInterface() {
   const [state, setState] = useState<ChatState>({
     threads: [],
+    personas: [],
+    selectedPersonaId: null,
+    projects: [],
+    selectedProjectId: null,
     currentThreadId: null,
     messages: [],
     isLoading: false,
   });
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [decisionsOpen, setDecisionsOpen] = useState(false);
+  const [branchTree, setBranchTree] = useState<{
+    nodes: MessageNode[];
+    headId: string | null;
+  }>({ nodes: [], headId: null });
+  const [authStatus, setAuthStatus] = useState<
+    "checking" | "signed-in" | "signed-out"
+  >("checking");
+  const [mcpStatus, setMcpStatus] = useState<ApiMcpServerStatus[]>([]);
+  const [pendingApprovals, setPendingApprovals] = useState<ApiPendingToolCall[]>([]);
+  // Thread created ahead of the first message of a new conversation, so
+  // attachments have a thread to be uploaded to
+  const draftThreadRef = useRef<Promise<string> | null>(null);
+  // Message a search result points at, shown once its thread loads
+  const focusMessageRef = useRef<string | null>(null);
+  const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null);
 
-  // Load threads on mount
+  // Check for an existing session on mount
   useEffect(() => {
+    api
+      .getMe()
+      .then(() => setAuthStatus("signed-in"))
+      .catch(() => setAuthStatus("signed-out"));
+  }, []);
+
+  // Load the selected project's threads once signed in
+  useEffect(() => {
+    if (authStatus !== "signed-in") return;
+
     const loadThreads = async () => {
       try {
-        const threads = await api.getThreads();
+        const threads = await api.getThreads(state.selectedProjectId);
         setState((prev) => ({ ...prev, threads }));
       } catch (error) {
+        if (error instanceof UnauthorizedError) setAuthStatus("signed-out");
         console.error("Failed to load threads:", error);
       }
     };
     loadThreads();
+  }, [authStatus, state.selectedProjectId]);
+
+  // Load personas and projects once signed in
+  useEffect(() => {
+    if (authStatus !== "signed-in") return;
+
+    const loadProjects = async () => {
+      try {
+        const projects = await api.getProjects();
+        setState((prev) => ({ ...prev, projects }));
+      } catch (error) {
+        console.error("Failed to load projects:", error);
+      }
+    };
+    const loadPersonas = async () => {
+      try {
+        const personas = await api.getPersonas();
+        setState((prev) => ({ ...prev, personas }));
+      } catch (error) {
+        console.error("Failed to load personas:", error);
+      }
+    };
+    loadPersonas();
+    loadProjects();
+  }, [authStatus]);
+
+  // Clear the session and all loaded conversations
+  const handleSignOut = useCallback(async () => {
+    try {
+      await api.signOut();
+    } catch (error) {
+      console.error("Failed to sign out:", error);
+    }
+    setState((prev) => ({
+      ...prev,
+      threads: [],
+      currentThreadId: null,
+      messages: [],
+    }));
+    setAuthStatus("signed-out");
   }, []);
 
-  // Load messages when thread changes
+  // Fetch a thread's messages and rebuild its branch tree, showing the active
+  // branch, or the branch of a message picked from search results
+  const loadThreadMessages = useCallback(async (threadId: string) => {
+    const { thread, messages: apiMessages } = await api.getThread(threadId);
+    const { activeLeafId } = thread.metadata ? JSON.parse(thread.metadata) : {};
+    const focusId = focusMessageRef.current;
+    focusMessageRef.current = null;
+    const focus = apiMessages.some((msg) => msg.id === focusId) ? focusId : null;
+
+    const tree = buildMessageTree(
+      apiMessages,
+      focus ? getLatestLeafId(apiMessages, focus) : activeLeafId ?? null
+    );
+    setBranchTree(tree);
+    setState((prev) => ({
+      ...prev,
+      messages: getBranchMessages(tree.nodes, tree.headId),
+    }));
+    setFocusedNodeId(focus ? tree.nodeOf.get(focus) ?? null : null);
+  }, []);
+
+  // Scroll to the message picked from search results once it is rendered
+  useEffect(() => {
+    if (!focusedNodeId) return;
+    const index = state.messages.findIndex((m) => m.id === focusedNodeId);
+    setFocusedNodeId(null);
+    if (index === -1) return;
+
+    requestAnimationFrame(() => {
+      const rendered = document.querySelectorAll(".aui-user-message-root, .aui-assistant-message-root");
+      rendered[index]?.scrollIntoView({ behavior: "smooth", block: "center" });
+    });
+  }, [focusedNodeId, state.messages]);
+
+  // Fetch which of a thread's MCP servers are connected or awaiting authorization
+  const refreshMcpStatus = useCallback(async (threadId: string) => {
+    try {
+      setMcpStatus(await api.getMcpStatus(threadId));
+    } catch (error) {
+      console.error("Failed to load MCP status:", error);
+    }
+  }, []);
+
+  // Fetch the tool calls a thread's paused turn waits on
+  const refreshApprovals = useCallback(async (threadId: string) => {
+    try {
+      setPendingApprovals(await api.getApprovals(threadId));
+    } catch (error) {
+      console.error("Failed to load approvals:", error);
+    }
+  }, []);
+
+  // Load messages, MCP status and pending approvals when thread changes
   useEffect(() => {
+    draftThreadRef.current = null;
     if (!state.currentThreadId) {
+      setBranchTree({ nodes: [], headId: null });
       setState((prev) => ({ ...prev, messages: [] }));
+      setMcpStatus([]);
+      setPendingApprovals([]);
       return;
     }
 
-    const loadMessages = async () => {
-      try {
-        const { messages: apiMessages } = await api.getThread(
-          state.currentThreadId!
-        );
-        const messages: ThreadMessageLike[] = apiMessages
-          .filter((msg) => msg.role === "user" || msg.role === "assistant")
-          .map((msg) => ({
-            id: msg.id,
-            role: msg.role as "user" | "assistant",
-            content: [{ type: "text" as const, text: msg.content }],
-            createdAt: new Date(msg.created_at * 1000),
-          }));
-        setState((prev) => ({ ...prev, messages }));
-      } catch (error) {
-        console.error("Failed to load messages:", error);
-      }
-    };
-    loadMessages();
-  }, [state.currentThreadId]);
+    loadThreadMessages(state.currentThreadId).catch((error) => {
+      console.error("Failed to load messages:", error);
+    });
+    refreshMcpStatus(state.currentThreadId);
+    refreshApprovals(state.currentThreadId);
+  }, [state.currentThreadId, loadThreadMessages, refreshMcpStatus, refreshApprovals]);
+
+  const handleMcpAuthorized = useCallback(() => {
+    if (state.currentThreadId) {
+      refreshMcpStatus(state.currentThreadId);
+    }
+  }, [state.currentThreadId, refreshMcpStatus]);
 
   // Handle selecting a thread
   const handleSelectThread = useCallback((threadId: string) => {
@@ -284,10 +892,30 @@ export default function ChatInterface() {
     setSidebarOpen(false);
   }, []);
 
+  // Handle picking a search result: open its thread at the matching message
+  const handleSelectSearchResult = useCallback(
+    (result: ApiSearchResult) => {
+      focusMessageRef.current = result.messageId;
+      if (result.threadId === state.currentThreadId) {
+        loadThreadMessages(result.threadId).catch((error) => {
+          console.error("Failed to load messages:", error);
+        });
+      } else {
+        setState((prev) => ({ ...prev, currentThreadId: result.threadId }));
+      }
+      setSidebarOpen(false);
+    },
+    [state.currentThreadId, loadThreadMessages]
+  );
+
   // Handle creating a new thread
   const handleCreateThread = useCallback(async () => {
     try {
-      const threadId = await api.createThread();
+      const threadId = await api.createThread(
+        undefined,
+        state.selectedPersonaId || undefined,
+        state.selectedProjectId || undefined
+      );
       setState((prev) => ({
         ...prev,
         currentThreadId: threadId,
@@ -299,6 +927,7 @@ export default function ChatInterface() {
             created_at: Math.floor(Date.now() / 1000),
             updated_at: Math.floor(Date.now() / 1000),
             metadata: null,
+            project_id: prev.selectedProjectId,
           },
           ...prev.threads,
         ],
@@ -307,7 +936,37 @@ export default function ChatInterface() {
     } catch (error) {
       console.error("Failed to create thread:", error);
     }
-  }, []);
+  }, [state.selectedPersonaId, state.selectedProjectId]);
+
+  // Handle importing a JSON export into the selected project and opening it
+  const handleImportThread = useCallback(async (file: File) => {
+    try {
+      const threadId = await api.importThread(file, state.selectedProjectId || undefined);
+      const threads = await api.getThreads(state.selectedProjectId);
+      setState((prev) => ({ ...prev, threads, currentThreadId: threadId }));
+    } catch (error) {
+      console.error("Failed to import thread:", error);
+    }
+  }, [state.selectedProjectId]);
+
+  // Handle renaming a thread, showing the new title right away
+  const handleRenameThread = useCallback(async (threadId: string, title: string) => {
+    setState((prev) => ({
+      ...prev,
+      threads: prev.threads.map((t) => (t.id === threadId ? { ...t, title } : t)),
+    }));
+    try {
+      const thread = await api.renameThread(threadId, title);
+      setState((prev) => ({
+        ...prev,
+        threads: prev.threads.map((t) => (t.id === threadId ? thread : t)),
+      }));
+    } catch (error) {
+      console.error("Failed to rename thread:", error);
+      const threads = await api.getThreads(state.selectedProjectId).catch(() => null);
+      if (threads) setState((prev) => ({ ...prev, threads }));
+    }
+  }, [state.selectedProjectId]);
 
   // Handle deleting a thread
   const handleDeleteThread = useCallback(async (threadId: string) => {
@@ -325,7 +984,128 @@ export default function ChatInterface() {
     }
   }, []);
 
-  // Handle sending a message
+  // The current thread, or a new one pinned to the selected persona and filed
+  // in the selected project. A new conversation creates its thread once, for
+  // both its uploads and first turn
+  const ensureThread = useCallback((): Promise<string> => {
+    if (state.currentThreadId) {
+      return Promise.resolve(state.currentThreadId);
+    }
+    draftThreadRef.current ??= api.createThread(
+      undefined,
+      state.selectedPersonaId || undefined,
+      state.selectedProjectId || undefined
+    );
+    return draftThreadRef.current;
+  }, [state.currentThreadId, state.selectedPersonaId, state.selectedProjectId]);
+
+  const attachmentAdapter = useMemo(() => createAttachmentAdapter(ensureThread), [ensureThread]);
+
+  // Run a turn after `base`, streaming the reply into a placeholder
+  // message, or into `reply` when a paused reply resumes, then reload the
+  // thread so every branch carries its stored IDs.
+  // `start` sends the request that produces the turn's events.
+  const streamTurn = useCallback(
+    async (
+      base: ThreadMessageLike[],
+      start: (threadId: string, onEvent: (event: ChatEvent) => void) => Promise<void>,
+      reply?: ThreadMessageLike
+    ) => {
+      const assistantMessageId = reply?.id ?? crypto.randomUUID();
+      let assistantContent = (reply?.content ?? []) as AssistantContentPart[];
+      let toolCalls = (reply?.metadata?.custom?.[TOOL_CALL_DETAILS_KEY] ?? {}) as Record<
+        string,
+        ToolCallDetails
+      >;
+
+      setState((prev) => ({
+        ...prev,
+        messages: [
+          ...base,
+          {
+            id: assistantMessageId,
+            role: "assistant",
+            content: assistantContent,
+            createdAt: reply?.createdAt ?? new Date(),
+          },
+        ],
+        isLoading: true,
+      }));
+
+      let threadId = state.currentThreadId;
+      try {
+        threadId = await ensureThread();
+
+        await start(threadId, (event) => {
+          if (event.type === "error") {
+            throw new Error(event.error);
+          }
+
+          if (event.type === "message-complete") {
+            setState((prev) => ({
+              ...prev,
+              currentThreadId: event.threadId,
+              isLoading: false,
+            }));
+            return;
+          }
+
+          assistantContent = applyChatEvent(assistantContent, event);
+          if (event.type === "tool-result") {
+            toolCalls = { ...toolCalls, [event.toolCallId]: { durationMs: event.durationMs } };
+          }
+          const content = assistantContent;
+          const metadata = { custom: { [TOOL_CALL_DETAILS_KEY]: toolCalls } };
+          setState((prev) => ({
+            ...prev,
+            messages: prev.messages.map((m) =>
+              m.id === assistantMessageId ? { ...m, content, metadata } : m
+            ),
+          }));
+        });
+
+        await loadThreadMessages(threadId);
+        refreshMcpStatus(threadId);
+        refreshApprovals(threadId);
+
+        // Refresh threads list to get updated timestamp
+        const threads = await api.getThreads(state.selectedProjectId);
+        setState((prev) => ({ ...prev, threads, isLoading: false }));
+
+        // Pick up the title the agent generates after the reply
+        if (!threads.find((t) => t.id === threadId)?.title) {
+          setTimeout(() => {
+            api
+              .getThreads(state.selectedProjectId)
+              .then((threads) => setState((prev) => ({ ...prev, threads })))
+              .catch((error) => console.error("Failed to refresh threads:", error));
+          }, TITLE_REFRESH_DELAY_MS);
+        }
+      } catch (error) {
+        console.error("Failed to send message:", error);
+        // On error, drop the optimistic messages and show what was actually stored
+        setState((prev) => ({
+          ...prev,
+          isLoading: false,
+          messages: threadId ? prev.messages : [],
+        }));
+        if (threadId) {
+          await loadThreadMessages(threadId).catch(() => {});
+        }
+      }
+    },
+    [
+      state.currentThreadId,
+      state.selectedProjectId,
+      ensureThread,
+      loadThreadMessages,
+      refreshMcpStatus,
+      refreshApprovals,
+    ]
+  );
+
+  // Handle sending a new message or an edit, which branches after its parent.
+  // Attachments were uploaded by the adapter and are sent by ID
   const handleAppend = useCallback(
     async (message: AppendMessage) => {
       const textContent = message.content
@@ -333,74 +1113,181 @@ export default function ChatInterface() {
         .map((part) => part.text)
         .join("\n");
 
-      if (!textContent.trim()) return;
+      const attachments = message.attachments.map((attachment) => attachment.id);
+
+      if (!textContent.trim() && attachments.length === 0) return;
 
+      const parentIndex = state.messages.findIndex((m) => m.id === message.parentId);
       const userMessage: ThreadMessageLike = {
         id: crypto.randomUUID(),
         role: "user",
-        content: [{ type: "text", text: textContent }],
+        content: textContent ? [{ type: "text", text: textContent }] : [],
+        attachments: message.attachments,
         createdAt: new Date(),
       };
 
-      // Optimistically add user message and set loading state
-      setState((prev) => ({
-        ...prev,
-        messages: [...prev.messages, userMessage],
-        isLoading: true,
-      }));
+      const base = [...state.messages.slice(0, parentIndex + 1), userMessage];
+      await streamTurn(base, (threadId, onEvent) =>
+        api.chatStream(
+          { threadId, message: textContent, parentId: message.parentId, attachments },
+          onEvent
+        )
+      );
+    },
+    [state.messages, streamTurn]
+  );
 
-      try {
-        const result = await api.chat(textContent, state.currentThreadId || undefined);
+  // Handle regenerating the reply to a user message as a new branch
+  const handleReload = useCallback(
+    async (parentId: string | null) => {
+      if (!parentId) return;
 
-        const assistantMessage: ThreadMessageLike = {
-          id: crypto.randomUUID(),
-          role: "assistant",
-          content: [{ type: "text", text: result.response }],
-          createdAt: new Date(),
-        };
+      const parentIndex = state.messages.findIndex((m) => m.id === parentId);
+      await streamTurn(state.messages.slice(0, parentIndex + 1), (threadId, onEvent) =>
+        api.chatStream({ threadId, regenerateFrom: parentId }, onEvent)
+      );
+    },
+    [state.messages, streamTurn]
+  );
 
-        // Update state with assistant response
-        setState((prev) => ({
-          ...prev,
-          messages: [...prev.messages, assistantMessage],
-          currentThreadId: result.threadId,
-          isLoading: false,
-        }));
+  // Handle approving or rejecting a pending tool call; the paused reply
+  // keeps streaming as the turn resumes
+  const handleResolveApproval = useCallback(
+    async (toolCallId: string, approved: boolean) => {
+      const last = state.messages[state.messages.length - 1];
+      const reply = last?.role === "assistant" ? last : undefined;
+      setPendingApprovals((prev) => prev.filter((call) => call.toolCallId !== toolCallId));
 
-        // Refresh threads list to get updated timestamp
-        const threads = await api.getThreads();
-        setState((prev) => ({ ...prev, threads }));
-      } catch (error) {
-        console.error("Failed to send message:", error);
-        // On error, remove the optimistic message and reset loading state
+      await streamTurn(
+        reply ? state.messages.slice(0, -1) : state.messages,
+        (threadId, onEvent) => api.resolveApproval(threadId, toolCallId, approved, onEvent),
+        reply
+      );
+    },
+    [state.messages, streamTurn]
+  );
+
+  // Handle the branch picker switching to another branch
+  const handleSwitchBranch = useCallback(
+    (messages: ThreadMessage[]) => {
+      setState((prev) => ({ ...prev, messages: [...messages] }));
+
+      const leafId = messages[messages.length - 1]?.id;
+      if (state.currentThreadId && leafId) {
+        api.setActiveBranch(state.currentThreadId, leafId).catch((error) => {
+          console.error("Failed to save active branch:", error);
+        });
+      }
+    },
+    [state.currentThreadId]
+  );
+
+  // Handle choosing the persona for new threads
+  const handleSelectPersona = useCallback((personaId: string | null) => {
+    setState((prev) => ({ ...prev, selectedPersonaId: personaId }));
+  }, []);
+
+  // Handle switching project: list its threads and start a fresh conversation in it
+  const handleSelectProject = useCallback((projectId: string | null) => {
+    setState((prev) => ({
+      ...prev,
+      selectedProjectId: projectId,
+      selectedPersonaId: null,
+      currentThreadId: null,
+      threads: [],
+    }));
+  }, []);
+
+  // Handle creating a project and switching to it
+  const handleCreateProject = useCallback(
+    async (name: string) => {
+      try {
+        const project = await api.createProject(name);
         setState((prev) => ({
           ...prev,
-          isLoading: false,
-          messages: prev.messages.filter((m) => m.id !== userMessage.id),
+          projects: [...prev.projects, project].sort((a, b) => a.name.localeCompare(b.name)),
         }));
+        handleSelectProject(project.id);
+      } catch (error) {
+        console.error("Failed to create project:", error);
       }
     },
-    [state.currentThreadId]
+    [handleSelectProject]
+  );
+
+  // Runtime messages; the reply being streamed is marked as running, and a
+  // reply paused on tool calls as requiring action
+  const runtimeMessages = useMemo(
+    () =>
+      state.messages.map((message, index) => {
+        const isReply = index === state.messages.length - 1 && message.role === "assistant";
+        if (isReply && state.isLoading) {
+          return toThreadMessage({ ...message, status: { type: "running" } });
+        }
+        if (isReply && pendingApprovals.length > 0) {
+          return toThreadMessage({
+            ...message,
+            status: { type: "requires-action", reason: "tool-calls" },
+          });
+        }
+        return toThreadMessage(message);
+      }),
+    [state.messages, state.isLoading, pendingApprovals]
   );
 
   // Create external store runtime
   const runtime = useExternalStoreRuntime({
-    messages: state.messages,
+    messages: runtimeMessages,
     isRunning: state.isLoading,
+    setMessages: handleSwitchBranch,
     onNew: handleAppend,
-    convertMessage: (message: ThreadMessageLike) => message,
+    onEdit: handleAppend,
+    onReload: handleReload,
+    adapters: { attachments: attachmentAdapter },
   });
 
+  // Give the runtime every branch so the branch picker can switch between them
+  useEffect(() => {
+    runtime.thread.import({
+      headId: branchTree.headId,
+      messages: branchTree.nodes.map((node) => ({
+        parentId: node.parentId,
+        message: toThreadMessage(node.message),
+      })),
+    });
+  }, [runtime, branchTree]);
+
+  if (authStatus === "checking") {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (authStatus === "signed-out") {
+    return <SignIn onSignedIn={() => setAuthStatus("signed-in")} />;
+  }
+
   return (
     <AssistantRuntimeProvider runtime={runtime}>
       <div className="flex h-full">
         {/* Sidebar */}
         <Sidebar
           threads={state.threads}
+          personas={state.personas}
+          selectedPersonaId={state.selectedPersonaId}
+          onSelectPersona={handleSelectPersona}
+          projects={state.projects}
+          selectedProjectId={state.selectedProjectId}
+          onSelectProject={handleSelectProject}
+          onCreateProject={handleCreateProject}
           currentThreadId={state.currentThreadId}
           onSelectThread={handleSelectThread}
           onCreateThread={handleCreateThread}
           onDeleteThread={handleDeleteThread}
+          onRenameThread={handleRenameThread}
+          onSelectSearchResult={handleSelectSearchResult}
           isOpen={sidebarOpen}
           onToggle={() => setSidebarOpen(!sidebarOpen)}
         />
@@ -428,13 +1315,55 @@ export default function ChatInterface() {
                 AI-powered UX Architect ready to help with your design needs
               </p>
             </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setDecisionsOpen(!decisionsOpen)}
+              aria-label="Design decisions"
+              aria-pressed={decisionsOpen}
+            >
+              <ScrollText className="h-5 w-5" />
+            </Button>
+            <ShareButton threadId={state.currentThreadId} />
+            <ExportMenu threadId={state.currentThreadId} onImport={handleImportThread} />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleSignOut}
+              aria-label="Sign out"
+            >
+              <LogOut className="h-5 w-5" />
+            </Button>
           </header>
 
+          <McpAuthBanner servers={mcpStatus} onAuthorized={handleMcpAuthorized} />
+          <ToolApprovalPanel
+            approvals={pendingApprovals}
+            disabled={state.isLoading}
+            onResolve={handleResolveApproval}
+          />
+
           {/* Chat area */}
           <div className="flex-1 overflow-hidden">
-            <Thread />
+            <Thread
+              branchPicker={{ allowBranchPicker: true }}
+              userMessage={{ allowEdit: true }}
+              assistantMessage={{
+                allowReload: true,
+                components: { ToolFallback: ToolCallCard },
+              }}
+            />
           </div>
         </div>
+
+        {decisionsOpen && (
+          <DecisionsPanel
+            threadId={state.currentThreadId}
+            projectId={state.selectedProjectId}
+            refreshKey={state.isLoading}
+            onClose={() => setDecisionsOpen(false)}
+          />
+        )}
       </div>
     </AssistantRuntimeProvider>
   );
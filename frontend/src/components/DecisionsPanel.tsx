@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from "react";
+import { api, decisionQuery, type ApiDecision, type DecisionFilter } from "@/lib/api";
+import { Button } from "./ui/button";
+import { ScrollArea } from "./ui/scroll-area";
+import { Download, ScrollText, Trash2, X } from "lucide-react";
+
+// Side panel listing the decisions recorded in the open conversation, or in
+// the selected project when no conversation is open. Reloads when
+// `refreshKey` changes, e.g. after each turn.
+interface DecisionsPanelProps {
+  threadId: string | null;
+  projectId: string | null;
+  refreshKey: unknown;
+  onClose: () => void;
+}
+
+export function DecisionsPanel({ threadId, projectId, refreshKey, onClose }: DecisionsPanelProps) {
+  const [decisions, setDecisions] = useState<ApiDecision[]>([]);
+  const [tag, setTag] = useState<string | null>(null);
+
+  const filter: DecisionFilter = threadId
+    ? { threadId, tag: tag ?? undefined }
+    : { projectId: projectId ?? undefined, tag: tag ?? undefined };
+  const query = decisionQuery(filter);
+
+  useEffect(() => {
+    api
+      .getDecisions(filter)
+      .then(setDecisions)
+      .catch((error) => console.error("Failed to load decisions:", error));
+    // `query` captures every field of the filter
+  }, [query, refreshKey]);
+
+  const handleDelete = async (decisionId: string) => {
+    setDecisions((prev) => prev.filter((decision) => decision.id !== decisionId));
+    try {
+      await api.deleteDecision(decisionId);
+    } catch (error) {
+      console.error("Failed to delete decision:", error);
+    }
+  };
+
+  return (
+    <aside className="flex h-full w-80 shrink-0 flex-col border-l bg-background" aria-label="Design decisions">
+      <div className="flex h-16 items-center gap-2 border-b px-4">
+        <ScrollText className="h-4 w-4 text-muted-foreground" />
+        <div className="flex-1">
+          <h3 className="text-sm font-semibold">Design decisions</h3>
+          <p className="text-xs text-muted-foreground">
+            {threadId ? "This conversation" : projectId ? "This project" : "All conversations"}
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+          <a href={api.decisionsExportUrl(filter)} download aria-label="Export decision log">
+            <Download className="h-4 w-4" />
+          </a>
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose} aria-label="Close decisions">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {tag && (
+        <div className="flex items-center gap-2 border-b px-4 py-2 text-xs">
+          <span className="text-muted-foreground">Tagged</span>
+          <span className="rounded bg-muted px-1.5 py-0.5">{tag}</span>
+          <button type="button" className="ml-auto underline" onClick={() => setTag(null)}>
+            Clear
+          </button>
+        </div>
+      )}
+
+      <ScrollArea className="flex-1">
+        <div className="space-y-3 p-4">
+          {decisions.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No decisions recorded yet. The UX Architect records the decisions you agree on as you go.
+            </p>
+          )}
+          {decisions.map((decision) => (
+            <div key={decision.id} className="group rounded-md border p-3 text-sm">
+              <div className="flex items-start gap-2">
+                <h4 className="flex-1 font-medium">{decision.title}</h4>
+                <button
+                  type="button"
+                  className="opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  onClick={() => handleDelete(decision.id)}
+                  aria-label={`Delete decision ${decision.title}`}
+                >
+                  <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+                </button>
+              </div>
+              <p className="mt-1">{decision.decision}</p>
+              <details className="mt-2 text-xs text-muted-foreground">
+                <summary className="cursor-pointer">Context and rationale</summary>
+                <p className="mt-1">{decision.context}</p>
+                {decision.options.length > 0 && (
+                  <ul className="mt-1 list-disc pl-4">
+                    {decision.options.map((option, index) => (
+                      <li key={index}>{option}</li>
+                    ))}
+                  </ul>
+                )}
+                <p className="mt-1">{decision.rationale}</p>
+              </details>
+              {decision.tags.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {decision.tags.map((decisionTag) => (
+                    <button
+                      key={decisionTag}
+                      type="button"
+                      className="rounded bg-muted px-1.5 py-0.5 text-xs hover:bg-accent"
+                      onClick={() => setTag(decisionTag)}
+                    >
+                      {decisionTag}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </aside>
+  );
+}
@@ -0,0 +1,83 @@
+import React, { useRef, useState } from "react";
+import { api, type ExportFormat } from "@/lib/api";
+import { Button } from "./ui/button";
+import { Separator } from "./ui/separator";
+import { Download, Upload } from "lucide-react";
+
+const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: "markdown", label: "Markdown" },
+  { format: "json", label: "JSON" },
+  { format: "html", label: "HTML" },
+];
+
+// Header menu to download the current thread or import a JSON export
+interface ExportMenuProps {
+  threadId: string | null;
+  onImport: (file: File) => void;
+}
+
+export function ExportMenu({ threadId, onImport }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div
+      className="relative"
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget)) setOpen(false);
+      }}
+    >
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => setOpen(!open)}
+        aria-label="Export conversation"
+        aria-expanded={open}
+      >
+        <Download className="h-5 w-5" />
+      </Button>
+      {open && (
+        <div className="absolute right-0 z-10 mt-1 w-48 rounded-md border bg-background p-1 shadow-md">
+          {EXPORT_FORMATS.map(({ format, label }) =>
+            threadId ? (
+              <a
+                key={format}
+                href={api.exportUrl(threadId, format)}
+                download
+                className="block rounded px-3 py-2 text-sm hover:bg-accent"
+                onClick={() => setOpen(false)}
+              >
+                Export as {label}
+              </a>
+            ) : (
+              <span key={format} className="block px-3 py-2 text-sm text-muted-foreground">
+                Export as {label}
+              </span>
+            )
+          )}
+          <Separator className="my-1" />
+          <button
+            type="button"
+            className="flex w-full items-center gap-2 rounded px-3 py-2 text-left text-sm hover:bg-accent"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4" />
+            Import JSON…
+          </button>
+        </div>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          setOpen(false);
+          if (file) onImport(file);
+        }}
+      />
+    </div>
+  );
+}
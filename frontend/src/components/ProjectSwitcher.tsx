@@ -0,0 +1,77 @@
+import React, { useState } from "react";
+import type { ApiProject } from "@/lib/api";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { FolderOpen, FolderPlus } from "lucide-react";
+
+// Project switcher above the thread list; new projects are named inline
+interface ProjectSwitcherProps {
+  projects: ApiProject[];
+  selectedProjectId: string | null;
+  onSelectProject: (projectId: string | null) => void;
+  onCreateProject: (name: string) => void;
+}
+
+export function ProjectSwitcher({
+  projects,
+  selectedProjectId,
+  onSelectProject,
+  onCreateProject,
+}: ProjectSwitcherProps) {
+  const [newName, setNewName] = useState<string | null>(null);
+
+  // Create the project on Enter; Escape or an empty name gives up
+  const commitNewProject = (save: boolean) => {
+    const name = newName?.trim();
+    if (save && name) {
+      onCreateProject(name);
+    }
+    setNewName(null);
+  };
+
+  return (
+    <div className="flex items-center gap-2 border-b px-4 py-2">
+      <FolderOpen className="h-4 w-4 shrink-0 text-muted-foreground" />
+      {newName !== null ? (
+        <Input
+          autoFocus
+          value={newName}
+          maxLength={80}
+          placeholder="Project name"
+          aria-label="New project name"
+          className="h-8 flex-1 px-2 text-sm"
+          onChange={(e) => setNewName(e.target.value)}
+          onBlur={() => commitNewProject(false)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitNewProject(true);
+            if (e.key === "Escape") commitNewProject(false);
+          }}
+        />
+      ) : (
+        <select
+          value={selectedProjectId ?? ""}
+          onChange={(e) => onSelectProject(e.target.value || null)}
+          className="h-8 flex-1 min-w-0 rounded-md border bg-background px-2 text-sm text-foreground"
+          aria-label="Project"
+        >
+          <option value="">All conversations</option>
+          {projects.map((project) => (
+            <option key={project.id} value={project.id}>
+              {project.name}
+            </option>
+          ))}
+        </select>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 shrink-0"
+        aria-label="New project"
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={() => setNewName((name) => (name === null ? "" : name))}
+      >
+        <FolderPlus className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
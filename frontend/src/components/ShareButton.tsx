@@ -0,0 +1,38 @@
+import React, { useState } from "react";
+import { api } from "@/lib/api";
+import { Button } from "./ui/button";
+import { Check, Link2 } from "lucide-react";
+
+// How long the share button shows that the link was copied
+const SHARE_COPIED_MS = 2000;
+
+// Header button that creates a read-only link to the current thread and
+// copies it to the clipboard
+export function ShareButton({ threadId }: { threadId: string | null }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleShare = async () => {
+    if (!threadId) return;
+    try {
+      const token = await api.createShare(threadId);
+      await navigator.clipboard.writeText(`${window.location.origin}/share?token=${token}`);
+      setCopied(true);
+      setTimeout(() => setCopied(false), SHARE_COPIED_MS);
+    } catch (error) {
+      console.error("Failed to share thread:", error);
+    }
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      disabled={!threadId}
+      onClick={handleShare}
+      aria-label={copied ? "Share link copied" : "Copy share link"}
+      title={copied ? "Share link copied" : "Copy a read-only share link"}
+    >
+      {copied ? <Check className="h-5 w-5" /> : <Link2 className="h-5 w-5" />}
+    </Button>
+  );
+}
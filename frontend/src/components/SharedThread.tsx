@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from "react";
+import { ToolCallView } from "./ToolCallCard";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { AlertCircle, Loader2, Paperclip, Sparkles } from "lucide-react";
+
+// Messages of a shared thread's active branch, as the share route returns them
+interface SharedMessage {
+  id: string;
+  role: "user" | "assistant" | "system" | "tool";
+  content: string;
+  toolCalls?: Array<{ id: string; function: { name: string; arguments: string } }>;
+  toolCallId?: string;
+  createdAt: number;
+  metadata?: {
+    durationMs?: number;
+    isError?: boolean;
+    attachments?: Array<{ id: string; name: string; mimeType: string; url?: string }>;
+  };
+}
+
+// A decision record of the shared thread, oldest first
+interface SharedDecision {
+  title: string;
+  context: string;
+  options: string[];
+  decision: string;
+  rationale: string;
+  tags: string[];
+  created_at: number;
+}
+
+interface SharedThreadData {
+  thread: { title: string | null; createdAt: number };
+  messages: SharedMessage[];
+  decisions: SharedDecision[];
+  notes: string[];
+  expiresAt: number | null;
+}
+
+// The share token from the page's `?token=` query
+function getShareToken(): string | null {
+  return new URLSearchParams(window.location.search).get("token");
+}
+
+function parseToolResult(result: string): unknown {
+  try {
+    return JSON.parse(result);
+  } catch {
+    return result;
+  }
+}
+
+// One message of the shared conversation; tool messages are shown with the
+// assistant call they answer
+function SharedMessageView({
+  message,
+  results,
+  token,
+}: {
+  message: SharedMessage;
+  results: Map<string, SharedMessage>;
+  token: string;
+}) {
+  if (message.role === "user") {
+    return (
+      <div className="flex justify-end">
+        <div className="max-w-[80%] space-y-2 rounded-lg bg-primary px-4 py-2 text-primary-foreground">
+          {message.metadata?.attachments?.map((attachment) =>
+            attachment.mimeType.startsWith("image/") ? (
+              <img
+                key={attachment.id}
+                src={attachment.url ?? `/api/share/${token}/assets/${attachment.id}`}
+                alt={attachment.name}
+                className="max-h-64 rounded-md"
+              />
+            ) : (
+              <div key={attachment.id} className="flex items-center gap-1 text-sm">
+                <Paperclip className="h-3.5 w-3.5" />
+                {attachment.name}
+              </div>
+            )
+          )}
+          <p className="whitespace-pre-wrap">{message.content}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-[80%]">
+      {message.toolCalls?.map((call) => {
+        const result = results.get(call.id);
+        return (
+          <ToolCallView
+            key={call.id}
+            toolName={call.function.name}
+            argsText={call.function.arguments}
+            result={result ? parseToolResult(result.content) : undefined}
+            isError={result?.metadata?.isError}
+            status={{ type: "complete" }}
+            durationMs={result?.metadata?.durationMs}
+          />
+        );
+      })}
+      {message.content && <p className="whitespace-pre-wrap">{message.content}</p>}
+    </div>
+  );
+}
+
+// Read-only view of a thread opened from a share link, without the composer
+// or sidebar
+export default function SharedThread() {
+  const [token, setToken] = useState<string | null>(null);
+  const [data, setData] = useState<SharedThreadData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The token is only known in the browser, so load once mounted
+  useEffect(() => {
+    const shareToken = getShareToken();
+    if (!shareToken) {
+      setError("This share link is missing its token.");
+      return;
+    }
+    setToken(shareToken);
+
+    fetch(`/api/share/${encodeURIComponent(shareToken)}`)
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error || `Failed to load the conversation (status ${response.status})`);
+        }
+        setData(body);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load the conversation"));
+  }, []);
+
+  if (error) {
+    return (
+      <div className="flex h-full items-center justify-center p-4">
+        <Card className="w-full max-w-sm">
+          <CardHeader>
+            <CardTitle>Conversation unavailable</CardTitle>
+            <CardDescription className="flex items-center gap-2 text-destructive">
+              <AlertCircle className="h-4 w-4 shrink-0" />
+              {error}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!data || !token) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const results = new Map(
+    data.messages
+      .filter((message) => message.role === "tool" && message.toolCallId)
+      .map((message) => [message.toolCallId!, message])
+  );
+  const visible = data.messages.filter((message) => message.role === "user" || message.role === "assistant");
+
+  return (
+    <div className="flex h-full flex-col">
+      <header className="flex h-16 items-center gap-3 border-b px-4">
+        <Sparkles className="h-5 w-5 text-primary" />
+        <div className="flex-1">
+          <h1 className="font-semibold">{data.thread.title || "Shared conversation"}</h1>
+          <p className="text-sm text-muted-foreground">
+            Read-only conversation with the UX Architect
+            {data.expiresAt && ` · link expires ${new Date(data.expiresAt * 1000).toLocaleString()}`}
+          </p>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="mx-auto max-w-3xl space-y-6 px-4 py-6">
+          {data.decisions.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Design decisions</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3 text-sm">
+                  {data.decisions.map((decision, index) => (
+                    <div key={index} className="rounded-md border p-3">
+                      <h4 className="font-medium">{decision.title}</h4>
+                      <p className="mt-1">{decision.decision}</p>
+                      <details className="mt-2 text-xs text-muted-foreground">
+                        <summary className="cursor-pointer">Context and rationale</summary>
+                        <p className="mt-1">{decision.context}</p>
+                        {decision.options.length > 0 && (
+                          <ul className="mt-1 list-disc pl-4">
+                            {decision.options.map((option, optionIndex) => (
+                              <li key={optionIndex}>{option}</li>
+                            ))}
+                          </ul>
+                        )}
+                        <p className="mt-1">{decision.rationale}</p>
+                      </details>
+                      {decision.tags.length > 0 && (
+                        <div className="mt-2 flex flex-wrap gap-1">
+                          {decision.tags.map((tag) => (
+                            <span key={tag} className="rounded bg-muted px-1.5 py-0.5 text-xs">
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {data.notes.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Remembered design notes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="list-disc space-y-1 pl-5 text-sm">
+                  {data.notes.map((note, index) => (
+                    <li key={index}>{note}</li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          {visible.map((message) => (
+            <div key={message.id} className="text-sm">
+              <SharedMessageView message={message} results={results} token={token} />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
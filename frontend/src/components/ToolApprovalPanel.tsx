@@ -0,0 +1,66 @@
+import React from "react";
+import type { ApiPendingToolCall } from "@/lib/api";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { ShieldAlert } from "lucide-react";
+
+// Show a tool call's JSON arguments indented, falling back to the raw text
+function formatToolArguments(args: string): string {
+  try {
+    return JSON.stringify(JSON.parse(args), null, 2);
+  } catch {
+    return args;
+  }
+}
+
+// Cards for tool calls the agent paused on, each showing the proposed
+// arguments with buttons to approve or reject the call
+interface ToolApprovalPanelProps {
+  approvals: ApiPendingToolCall[];
+  disabled: boolean;
+  onResolve: (toolCallId: string, approved: boolean) => void;
+}
+
+export function ToolApprovalPanel({ approvals, disabled, onResolve }: ToolApprovalPanelProps) {
+  if (approvals.length === 0) return null;
+
+  return (
+    <div className="space-y-2 border-b bg-muted/50 px-4 py-3">
+      {approvals.map((approval) => (
+        <Card key={approval.toolCallId}>
+          <CardHeader className="p-4 pb-2">
+            <CardTitle className="flex items-center gap-2 text-sm">
+              <ShieldAlert className="h-4 w-4 text-muted-foreground" />
+              Approve <span className="font-mono">{approval.toolName}</span>?
+            </CardTitle>
+            <CardDescription>
+              The assistant wants to run this tool with the arguments below.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3 p-4 pt-0">
+            <pre className="max-h-48 overflow-auto rounded-md bg-muted p-3 text-xs">
+              {formatToolArguments(approval.arguments)}
+            </pre>
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={disabled}
+                onClick={() => onResolve(approval.toolCallId, false)}
+              >
+                Reject
+              </Button>
+              <Button
+                size="sm"
+                disabled={disabled}
+                onClick={() => onResolve(approval.toolCallId, true)}
+              >
+                Approve
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
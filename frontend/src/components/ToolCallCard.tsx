@@ -0,0 +1,229 @@
+import React, { useState } from "react";
+import { useMessage } from "@assistant-ui/react";
+import type { ToolCallContentPartComponent } from "@assistant-ui/react";
+import { cn } from "@/lib/utils";
+import { AccessibilityReport } from "./AccessibilityReport";
+import {
+  AlertCircle,
+  CheckCircle2,
+  ChevronDown,
+  ChevronRight,
+  Clock,
+  ExternalLink,
+  Loader2,
+  ShieldAlert,
+} from "lucide-react";
+
+// Content blocks of an MCP callTool result. The Worker moves binary data
+// into stored assets, leaving a `url` to load it from instead.
+type McpContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; mimeType: string; data?: string; url?: string }
+  | {
+      type: "resource";
+      resource: { uri: string; mimeType?: string; text?: string; blob?: string; url?: string };
+    };
+
+// Per-call details kept in the assistant message's custom metadata
+export interface ToolCallDetails {
+  durationMs?: number;
+}
+
+// Key of the Record<toolCallId, ToolCallDetails> in metadata.custom
+export const TOOL_CALL_DETAILS_KEY = "toolCalls";
+
+// Renders a tool's result for a specific MCP server, keyed by server name
+const RESULT_PREVIEWS: Record<string, (props: { blocks: McpContentBlock[] }) => React.ReactNode> = {
+  stitch: StitchPreview,
+};
+
+// Renders the result of a local tool, one without a server, keyed by tool name
+const LOCAL_RESULT_PREVIEWS: Record<string, (props: { result: unknown }) => React.ReactNode> = {
+  audit_accessibility: AccessibilityReport,
+};
+
+// Split a namespaced tool name, e.g. `stitch__get_screen`, into server and tool
+function splitToolName(name: string): { server: string | null; tool: string } {
+  const index = name.indexOf("__");
+  return index > 0
+    ? { server: name.slice(0, index), tool: name.slice(index + 2) }
+    : { server: null, tool: name };
+}
+
+// The content blocks of an MCP result, or null for any other result shape
+function getContentBlocks(result: unknown): McpContentBlock[] | null {
+  const content = (result as { content?: unknown } | null)?.content;
+  return Array.isArray(content) ? (content as McpContentBlock[]) : null;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function formatJson(value: unknown): string {
+  if (typeof value === "string") {
+    try {
+      return JSON.stringify(JSON.parse(value), null, 2);
+    } catch {
+      return value;
+    }
+  }
+  return JSON.stringify(value, null, 2);
+}
+
+// Where to load a block's binary content from: its stored asset, or inline data
+function contentSource(mimeType: string, url?: string, data?: string): string | null {
+  return url ?? (data ? `data:${mimeType};base64,${data}` : null);
+}
+
+// Previews of the screens and images a Stitch tool returned. HTML screens
+// are rendered in a sandboxed frame; images inline.
+function StitchPreview({ blocks }: { blocks: McpContentBlock[] }) {
+  const previews = blocks.flatMap((block, index) => {
+    if (block.type === "image") {
+      const src = contentSource(block.mimeType, block.url, block.data);
+      return src
+        ? [<img key={index} src={src} alt="Generated screen" className="max-h-96 rounded-md border" />]
+        : [];
+    }
+    if (block.type !== "resource") return [];
+
+    const { uri, mimeType = "", text, blob, url } = block.resource;
+    const src = contentSource(mimeType, url, blob);
+    if (mimeType.startsWith("image/") && src) {
+      return [<img key={index} src={src} alt={uri} className="max-h-96 rounded-md border" />];
+    }
+    if (mimeType === "text/html" && text) {
+      return [
+        <iframe
+          key={index}
+          title={uri}
+          srcDoc={text}
+          sandbox=""
+          className="h-96 w-full rounded-md border bg-white"
+        />,
+      ];
+    }
+    if (/^https?:/.test(uri)) {
+      return [
+        <a
+          key={index}
+          href={uri}
+          target="_blank"
+          rel="noreferrer"
+          className="inline-flex items-center gap-1 text-xs underline"
+        >
+          <ExternalLink className="h-3 w-3" />
+          {uri}
+        </a>,
+      ];
+    }
+    return [];
+  });
+
+  return previews.length > 0 ? <div className="space-y-2">{previews}</div> : null;
+}
+
+interface ToolCallViewProps {
+  toolName: string;
+  argsText: string;
+  result?: unknown;
+  isError?: boolean;
+  status: { type: string };
+  durationMs?: number;
+}
+
+// Collapsible card showing a tool call's status, duration, arguments and
+// result, with a preview of results from known MCP servers and local tools
+export function ToolCallView({ toolName, argsText, result, isError, status, durationMs }: ToolCallViewProps) {
+  const [open, setOpen] = useState(false);
+
+  const { server, tool } = splitToolName(toolName);
+  const blocks = getContentBlocks(result);
+  const Preview = server ? RESULT_PREVIEWS[server] : undefined;
+  const LocalPreview = server ? undefined : LOCAL_RESULT_PREVIEWS[tool];
+
+  const state =
+    result !== undefined
+      ? isError
+        ? "failed"
+        : "done"
+      : status.type === "running"
+        ? "running"
+        : status.type === "requires-action"
+          ? "awaiting approval"
+          : "no result";
+
+  return (
+    <div className="my-2 rounded-md border bg-muted/50 text-xs">
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 px-3 py-2 text-left text-muted-foreground"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+      >
+        {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+        {state === "running" ? (
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        ) : state === "failed" ? (
+          <AlertCircle className="h-3.5 w-3.5 text-destructive" />
+        ) : state === "awaiting approval" ? (
+          <ShieldAlert className="h-3.5 w-3.5" />
+        ) : (
+          <CheckCircle2 className="h-3.5 w-3.5" />
+        )}
+        <span className="font-mono text-foreground">{tool}</span>
+        {server && <span>{server}</span>}
+        <span className={cn("ml-auto", state === "failed" && "text-destructive")}>{state}</span>
+        {durationMs !== undefined && (
+          <span className="flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            {formatDuration(durationMs)}
+          </span>
+        )}
+      </button>
+
+      {Preview && blocks && result !== undefined && !isError && (
+        <div className="px-3 pb-2">
+          <Preview blocks={blocks} />
+        </div>
+      )}
+
+      {LocalPreview && result !== undefined && !isError && (
+        <div className="overflow-x-auto px-3 pb-2">
+          <LocalPreview result={result} />
+        </div>
+      )}
+
+      {open && (
+        <div className="space-y-2 border-t px-3 py-2">
+          <div>
+            <div className="mb-1 font-medium">Arguments</div>
+            <pre className="max-h-48 overflow-auto rounded bg-muted p-2">{formatJson(argsText || "{}")}</pre>
+          </div>
+          {result !== undefined && (
+            <div>
+              <div className="mb-1 font-medium">Result</div>
+              <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-all rounded bg-muted p-2">
+                {formatJson(result)}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Tool call card inside an assistant message, with the call's duration from
+// the message metadata
+export const ToolCallCard: ToolCallContentPartComponent = ({ toolCallId, ...props }) => {
+  const details = useMessage(
+    (message) =>
+      (message.metadata.custom[TOOL_CALL_DETAILS_KEY] as Record<string, ToolCallDetails> | undefined)?.[
+        toolCallId
+      ]
+  );
+
+  return <ToolCallView {...props} durationMs={details?.durationMs} />;
+};
@@ -0,0 +1,407 @@
+// Types for our API responses
+export interface ApiThread {
+  id: string;
+  title: string | null;
+  created_at: number;
+  updated_at: number;
+  metadata: string | null;
+  project_id: string | null;
+}
+
+export interface ApiProject {
+  id: string;
+  name: string;
+  description: string | null;
+  persona_id: string | null;
+  stitch_project_id: string | null;
+}
+
+// A design decision the agent recorded with its record_decision tool
+export interface ApiDecision {
+  id: string;
+  thread_id: string;
+  project_id: string | null;
+  message_id: string;
+  title: string;
+  context: string;
+  options: string[];
+  decision: string;
+  rationale: string;
+  tags: string[];
+  created_at: number;
+}
+
+// Filters for the decision log; unset fields match everything
+export interface DecisionFilter {
+  threadId?: string;
+  projectId?: string;
+  tag?: string;
+}
+
+export interface ApiPersona {
+  id: string;
+  name: string;
+  description: string | null;
+  current_version: number;
+}
+
+export interface ApiMessage {
+  id: string;
+  thread_id: string;
+  role: "user" | "assistant" | "system" | "tool";
+  content: string;
+  tool_calls: string | null;
+  tool_call_id: string | null;
+  created_at: number;
+  metadata: string | null;
+  parent_id: string | null;
+}
+
+// Connection status of one of a thread's MCP servers
+export interface ApiMcpServerStatus {
+  serverId: string;
+  name: string;
+  state: "authenticating" | "connecting" | "discovering" | "ready" | "failed";
+  toolCount: number;
+  authUrl: string | null;
+  error: string | null;
+}
+
+// A thread title or message matching a search, with match offsets in its snippet
+export interface ApiSearchResult {
+  threadId: string;
+  threadTitle: string | null;
+  messageId: string | null;
+  role: "user" | "assistant" | null;
+  snippet: string;
+  highlights: Array<[number, number]>;
+  createdAt: number;
+}
+
+// A file attached to a user message; uploads also return the URL to load it from
+export interface ApiAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  url?: string;
+}
+
+// A tool call the paused turn waits on until the user approves or rejects it
+export interface ApiPendingToolCall {
+  toolCallId: string;
+  toolName: string;
+  arguments: string;
+  messageId: string;
+  createdAt: number;
+}
+
+// A chat turn: a new message, an edit branching after parentId, or a regeneration
+export interface ChatRequest {
+  threadId: string;
+  message?: string;
+  parentId?: string | null;
+  regenerateFrom?: string;
+  attachments?: string[];
+}
+
+// Events streamed by /api/chat/stream and the approval routes
+export type ChatEvent =
+  | { type: "text-delta"; delta: string }
+  | {
+      type: "tool-call-start";
+      toolCallId: string;
+      toolName: string;
+      arguments: string;
+    }
+  | {
+      type: "tool-result";
+      toolCallId: string;
+      toolName: string;
+      result: string;
+      isError: boolean;
+      durationMs?: number;
+    }
+  | {
+      type: "tool-approval-required";
+      toolCallId: string;
+      toolName: string;
+      arguments: string;
+    }
+  | {
+      type: "message-complete";
+      response: string;
+      threadId: string;
+      steps: number;
+      finishReason: "completed" | "max_steps" | "timeout" | "awaiting_approval";
+    }
+  | { type: "error"; error: string };
+
+// Formats a thread can be exported in
+export type ExportFormat = "markdown" | "json" | "html";
+
+// Thrown when the session is missing or expired
+export class UnauthorizedError extends Error {
+  constructor() {
+    super("Not signed in");
+    this.name = "UnauthorizedError";
+  }
+}
+
+// Query string of a decision log filter, without unset fields
+export function decisionQuery(filter: DecisionFilter): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filter)) {
+    if (value) params.set(key, value);
+  }
+  return params.toString();
+}
+
+// API client for the Worker; authenticates with the session cookie
+export const api = {
+  baseUrl: "/api",
+
+  async request(path: string, init?: RequestInit): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, init);
+    if (response.status === 401) {
+      throw new UnauthorizedError();
+    }
+    return response;
+  },
+
+  async getMe(): Promise<string> {
+    const response = await this.request("/auth/me");
+    const data = await response.json();
+    return data.userId;
+  },
+
+  async signIn(token: string): Promise<void> {
+    await this.request("/auth/session", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token }),
+    });
+  },
+
+  async signOut(): Promise<void> {
+    await this.request("/auth/session", { method: "DELETE" });
+  },
+
+  async getThreads(projectId?: string | null): Promise<ApiThread[]> {
+    const query = projectId ? `?projectId=${encodeURIComponent(projectId)}` : "";
+    const response = await this.request(`/threads${query}`);
+    const data = await response.json();
+    return data.threads || [];
+  },
+
+  async getProjects(): Promise<ApiProject[]> {
+    const response = await this.request("/projects");
+    const data = await response.json();
+    return data.projects || [];
+  },
+
+  async createProject(name: string): Promise<ApiProject> {
+    const response = await this.request("/projects", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to create project");
+    }
+    return data.project;
+  },
+
+  async getPersonas(): Promise<ApiPersona[]> {
+    const response = await this.request("/personas");
+    const data = await response.json();
+    return data.personas || [];
+  },
+
+  async createThread(title?: string, personaId?: string, projectId?: string): Promise<string> {
+    const response = await this.request("/threads", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title, personaId, projectId }),
+    });
+    const data = await response.json();
+    return data.threadId;
+  },
+
+  async getThread(
+    threadId: string
+  ): Promise<{ thread: ApiThread; messages: ApiMessage[] }> {
+    const response = await this.request(`/threads/${threadId}`);
+    return response.json();
+  },
+
+  async search(query: string): Promise<ApiSearchResult[]> {
+    const response = await this.request(`/search?q=${encodeURIComponent(query)}`);
+    const data = await response.json();
+    return data.results || [];
+  },
+
+  async renameThread(threadId: string, title: string): Promise<ApiThread> {
+    const response = await this.request(`/threads/${threadId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Rename failed with status ${response.status}`);
+    }
+    return data.thread;
+  },
+
+  async deleteThread(threadId: string): Promise<void> {
+    await this.request(`/threads/${threadId}`, {
+      method: "DELETE",
+    });
+  },
+
+  // Download URL of a thread rendered in one of the export formats
+  exportUrl(threadId: string, format: ExportFormat): string {
+    return `${this.baseUrl}/threads/${threadId}/export?format=${format}`;
+  },
+
+  async getDecisions(filter: DecisionFilter): Promise<ApiDecision[]> {
+    const response = await this.request(`/decisions?${decisionQuery(filter)}`);
+    const data = await response.json();
+    return data.decisions || [];
+  },
+
+  // Download URL of the filtered decision log as Markdown
+  decisionsExportUrl(filter: DecisionFilter): string {
+    return `${this.baseUrl}/decisions/export?${decisionQuery(filter)}`;
+  },
+
+  async deleteDecision(decisionId: string): Promise<void> {
+    await this.request(`/decisions/${decisionId}`, { method: "DELETE" });
+  },
+
+  // Create a read-only share link to a thread, returning its token
+  async createShare(threadId: string): Promise<string> {
+    const response = await this.request(`/threads/${threadId}/shares`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({}),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Sharing failed with status ${response.status}`);
+    }
+    return data.share.token;
+  },
+
+  // Recreate a thread from a JSON export, filed in the given project
+  async importThread(file: File, projectId?: string): Promise<string> {
+    const query = projectId ? `?projectId=${encodeURIComponent(projectId)}` : "";
+    const response = await this.request(`/threads/import${query}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: await file.text(),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Import failed with status ${response.status}`);
+    }
+    return data.threadId;
+  },
+
+  async setActiveBranch(threadId: string, activeLeafId: string): Promise<void> {
+    await this.request(`/threads/${threadId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ activeLeafId }),
+    });
+  },
+
+  async getMcpStatus(threadId: string): Promise<ApiMcpServerStatus[]> {
+    const response = await this.request(`/mcp/status?threadId=${encodeURIComponent(threadId)}`);
+    const data = await response.json();
+    return data.servers || [];
+  },
+
+  async getApprovals(threadId: string): Promise<ApiPendingToolCall[]> {
+    const response = await this.request(`/threads/${threadId}/approvals`);
+    const data = await response.json();
+    return data.approvals || [];
+  },
+
+  // Upload a file to attach to the next message in a thread
+  async uploadAttachment(threadId: string, file: File): Promise<ApiAttachment> {
+    const form = new FormData();
+    form.set("threadId", threadId);
+    form.set("file", file);
+    const response = await this.request("/attachments", { method: "POST", body: form });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Upload failed with status ${response.status}`);
+    }
+    return data.attachment;
+  },
+
+  async chatStream(
+    chat: ChatRequest,
+    onEvent: (event: ChatEvent) => void
+  ): Promise<void> {
+    await this.streamEvents("/chat/stream", chat, onEvent);
+  },
+
+  async resolveApproval(
+    threadId: string,
+    toolCallId: string,
+    approved: boolean,
+    onEvent: (event: ChatEvent) => void
+  ): Promise<void> {
+    await this.streamEvents(
+      `/threads/${threadId}/approvals/${encodeURIComponent(toolCallId)}`,
+      { approved },
+      onEvent
+    );
+  },
+
+  // POST a JSON body and read the chat events of the Server-Sent Events reply
+  async streamEvents(
+    path: string,
+    body: unknown,
+    onEvent: (event: ChatEvent) => void
+  ): Promise<void> {
+    const response = await this.request(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (response.status === 429) {
+      const data = await response.json();
+      throw new Error(`${data.error}. Try again in ${data.retryAfter}s.`);
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`Chat request failed with status ${response.status}`);
+    }
+
+    // Parse the Server-Sent Events stream frame by frame
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const data = frame
+          .split("\n")
+          .filter((line) => line.startsWith("data: "))
+          .map((line) => line.slice(6))
+          .join("\n");
+        if (data) onEvent(JSON.parse(data));
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+  },
+};
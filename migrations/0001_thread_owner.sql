@@ -0,0 +1,9 @@
+-- Add per-user thread ownership to databases created before owner_id existed.
+-- Fresh databases initialized from schema.sql already have this column.
+
+ALTER TABLE threads ADD COLUMN owner_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_threads_owner_id ON threads(owner_id, updated_at);
+
+-- Existing threads have no owner and are not visible to anyone until assigned, e.g.:
+-- UPDATE threads SET owner_id = '<user-id>' WHERE owner_id IS NULL;
@@ -0,0 +1,26 @@
+-- Add the request and token usage ledgers used for rate limits and quotas.
+
+-- Chat requests, used for per-user and per-thread rate limiting
+CREATE TABLE IF NOT EXISTS chat_requests (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT, -- Thread owner, NULL for unowned threads
+  thread_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_requests_user ON chat_requests(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_chat_requests_thread ON chat_requests(thread_id, created_at);
+
+-- Tokens spent by each model completion, used for daily token quotas
+CREATE TABLE IF NOT EXISTS token_usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT, -- Thread owner, NULL for unowned threads
+  thread_id TEXT NOT NULL,
+  model TEXT NOT NULL, -- Model reference as provider:model
+  prompt_tokens INTEGER NOT NULL,
+  completion_tokens INTEGER NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_usage_user ON token_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_token_usage_thread ON token_usage(thread_id, created_at);
@@ -0,0 +1,16 @@
+-- Link each message to its parent so threads can branch on edit and regenerate.
+-- Fresh databases initialized from schema.sql already have this column.
+
+ALTER TABLE messages ADD COLUMN parent_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_messages_parent_id ON messages(parent_id);
+
+-- Existing threads become a single branch in insertion order
+UPDATE messages SET parent_id = (
+  SELECT prev.id FROM messages prev
+  WHERE prev.thread_id = messages.thread_id
+    AND (prev.created_at < messages.created_at
+      OR (prev.created_at = messages.created_at AND prev.rowid < messages.rowid))
+  ORDER BY prev.created_at DESC, prev.rowid DESC
+  LIMIT 1
+);
@@ -0,0 +1,17 @@
+-- Add the MCP server registry, seeded with the previously hardcoded Stitch server.
+
+-- MCP servers agents connect to; auth headers reference environment secrets by name
+CREATE TABLE IF NOT EXISTS mcp_servers (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE, -- Prefix for the server's tool names, e.g. stitch__list_projects
+  url TEXT NOT NULL,
+  transport TEXT NOT NULL DEFAULT 'sse',
+  auth_headers TEXT, -- JSON object mapping header name to secret name
+  enabled INTEGER NOT NULL DEFAULT 1, -- Connected for threads that have not opted out
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+-- The Stitch server the agent was built around
+INSERT OR IGNORE INTO mcp_servers (id, name, url, transport, auth_headers)
+VALUES ('stitch', 'stitch', 'https://stitch.googleapis.com/mcp', 'sse', '{"X-Goog-Api-Key":"STITCH_API_KEY"}');
@@ -0,0 +1,21 @@
+-- Add per-user OAuth sessions for MCP servers that require authorization.
+
+-- OAuth clients and tokens for MCP servers, one per user and server
+CREATE TABLE IF NOT EXISTS mcp_oauth_sessions (
+  user_id TEXT NOT NULL,
+  server_id TEXT NOT NULL,
+  client_info TEXT, -- JSON client registration
+  tokens TEXT, -- JSON access and refresh tokens
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  PRIMARY KEY (user_id, server_id),
+  FOREIGN KEY (server_id) REFERENCES mcp_servers(id) ON DELETE CASCADE
+);
+
+-- MCP authorizations in progress, looked up by OAuth state on callback
+CREATE TABLE IF NOT EXISTS mcp_oauth_states (
+  state TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  server_id TEXT NOT NULL,
+  code_verifier TEXT NOT NULL, -- PKCE verifier for this attempt
+  created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
@@ -0,0 +1,4 @@
+-- Add per-tool approval policies to the MCP server registry.
+-- Tools without a policy keep running automatically.
+
+ALTER TABLE mcp_servers ADD COLUMN tool_policies TEXT; -- JSON object mapping tool name (or * for the rest) to auto, require-approval or deny
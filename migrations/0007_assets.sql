@@ -0,0 +1,14 @@
+-- Add the assets table for binary tool result content kept in R2.
+
+-- Binary content, such as images returned by MCP tools, stored in R2 under the asset ID
+CREATE TABLE IF NOT EXISTS assets (
+  id TEXT PRIMARY KEY,
+  thread_id TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size INTEGER NOT NULL, -- Bytes
+  source TEXT NOT NULL, -- Where the content came from, e.g. tool
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (thread_id) REFERENCES threads(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_assets_thread_id ON assets(thread_id);
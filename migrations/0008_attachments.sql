@@ -0,0 +1,3 @@
+-- Keep the file names of assets users upload as message attachments.
+
+ALTER TABLE assets ADD COLUMN name TEXT; -- Original file name of an upload
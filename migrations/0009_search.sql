@@ -0,0 +1,23 @@
+-- Add full-text search over messages and thread titles, and index what is already stored.
+
+-- Full-text index of user and assistant messages; rowid is the message's rowid
+CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+  content,
+  thread_id UNINDEXED,
+  message_id UNINDEXED,
+  tokenize = 'porter unicode61'
+);
+
+-- Full-text index of thread titles; rowid is the thread's rowid
+CREATE VIRTUAL TABLE IF NOT EXISTS threads_fts USING fts5(
+  title,
+  thread_id UNINDEXED,
+  tokenize = 'porter unicode61'
+);
+
+INSERT INTO messages_fts (rowid, content, thread_id, message_id)
+SELECT rowid, content, thread_id, id FROM messages
+WHERE role IN ('user', 'assistant') AND content != '';
+
+INSERT INTO threads_fts (rowid, title, thread_id)
+SELECT rowid, title, id FROM threads WHERE title IS NOT NULL;
@@ -0,0 +1,14 @@
+-- Add the memories table for design decisions recalled across threads.
+
+-- Durable design decisions extracted from conversations, recalled across a user's threads
+CREATE TABLE IF NOT EXISTS memories (
+  id TEXT PRIMARY KEY,
+  owner_id TEXT NOT NULL,
+  thread_id TEXT, -- Thread the memory was extracted from
+  content TEXT NOT NULL,
+  embedding TEXT NOT NULL, -- JSON vector, also searched directly when no Vectorize index is bound
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_memories_owner ON memories(owner_id, updated_at);
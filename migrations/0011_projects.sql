@@ -0,0 +1,26 @@
+-- Group threads and memories into projects.
+
+ALTER TABLE threads ADD COLUMN project_id TEXT; -- Project the thread belongs to, NULL for unfiled threads
+
+-- Index for listing a project's threads
+CREATE INDEX IF NOT EXISTS idx_threads_project_id ON threads(project_id, updated_at);
+
+-- Projects grouping a user's threads and memories, with defaults for their threads
+CREATE TABLE IF NOT EXISTS projects (
+  id TEXT PRIMARY KEY,
+  owner_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  persona_id TEXT, -- Persona new threads in the project are pinned to
+  mcp_servers TEXT, -- JSON object of MCP server overrides applied to the project's threads
+  stitch_project_id TEXT, -- Stitch project holding the project's designs
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS idx_projects_owner_id ON projects(owner_id, name);
+
+ALTER TABLE memories ADD COLUMN project_id TEXT; -- Project the memory is recalled in, NULL for unfiled threads
+
+DROP INDEX IF EXISTS idx_memories_owner;
+CREATE INDEX IF NOT EXISTS idx_memories_owner ON memories(owner_id, project_id, updated_at);
@@ -0,0 +1,15 @@
+-- Add the thread_shares table for read-only thread links.
+
+-- Read-only share links to threads, looked up by their unguessable token
+
+CREATE TABLE IF NOT EXISTS thread_shares (
+  token TEXT PRIMARY KEY,
+  thread_id TEXT NOT NULL,
+  owner_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  expires_at INTEGER, -- When the link stops working, NULL if it never expires
+  revoked_at INTEGER, -- When the owner revoked the link, NULL while it is live
+  FOREIGN KEY (thread_id) REFERENCES threads(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_thread_shares_thread_id ON thread_shares(thread_id);
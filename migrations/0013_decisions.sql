@@ -0,0 +1,21 @@
+-- Add the decisions table for the agent's design decision log.
+
+-- Design decisions the agent recorded with the record_decision tool, one ADR-style record each
+CREATE TABLE IF NOT EXISTS decisions (
+  id TEXT PRIMARY KEY,
+  owner_id TEXT NOT NULL,
+  thread_id TEXT NOT NULL,
+  project_id TEXT, -- Project of the thread the decision was recorded in
+  message_id TEXT NOT NULL, -- Assistant message whose tool call recorded the decision
+  title TEXT NOT NULL,
+  context TEXT NOT NULL,
+  options TEXT NOT NULL, -- JSON array of the alternatives considered
+  decision TEXT NOT NULL,
+  rationale TEXT NOT NULL,
+  tags TEXT NOT NULL, -- JSON array of lowercase tags
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  FOREIGN KEY (thread_id) REFERENCES threads(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_decisions_owner ON decisions(owner_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_decisions_thread_id ON decisions(thread_id);
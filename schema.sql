@@ -1,4 +1,10 @@
--- D1 Schema for threads and messages persistence
+-- Baseline D1 schema for threads and messages persistence.
+--
+-- This file is frozen at the schema the first migration builds on; every later
+-- change is a file in migrations/, which is the source of truth for the current
+-- schema. Initialize a database by executing this file and then applying the
+-- migrations on top (npm run db:init). Add schema changes as new migrations,
+-- never here.
 
 -- Threads table to store conversation threads
 CREATE TABLE IF NOT EXISTS threads (
@@ -30,3 +36,23 @@ CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at);
 
 -- Index for thread ordering
 CREATE INDEX IF NOT EXISTS idx_threads_updated_at ON threads(updated_at);
+
+-- Personas table to store reusable agent personas
+CREATE TABLE IF NOT EXISTS personas (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  current_version INTEGER NOT NULL DEFAULT 1,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+-- Persona versions table keeping every revision of a persona's system prompt
+CREATE TABLE IF NOT EXISTS persona_versions (
+  persona_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  system_prompt TEXT NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  PRIMARY KEY (persona_id, version),
+  FOREIGN KEY (persona_id) REFERENCES personas(id) ON DELETE CASCADE
+);
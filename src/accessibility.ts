@@ -0,0 +1,212 @@
+import { z } from "zod/v4";
+import { contrastRatio, getContrastLevels, hexColor, round, toLinearRgb } from "./design-tools";
+import { defineLocalTool } from "./local-tools";
+
+/**
+ * Smallest target size meeting WCAG 2.2 success criterion 2.5.8 (AA), in CSS pixels
+ */
+export const MIN_TARGET_SIZE_AA = 24;
+
+/**
+ * Smallest target size meeting WCAG 2.2 success criterion 2.5.5 (AAA), in CSS pixels
+ */
+export const MIN_TARGET_SIZE_AAA = 44;
+
+/**
+ * Smallest CIE76 color difference at which two palette colors are reported as
+ * distinguishable; below it, colors used to tell things apart are confusable
+ */
+export const MIN_DISTINGUISHABLE_DELTA_E = 10;
+
+/**
+ * Most items of each kind one audit accepts
+ */
+const MAX_AUDIT_ITEMS = 50;
+
+type Matrix = [[number, number, number], [number, number, number], [number, number, number]];
+
+/**
+ * Linear RGB transforms simulating full-severity color vision deficiencies
+ * (Machado, Oliveira and Fernandes, 2009), and monochromacy as luminance only
+ */
+const COLOR_VISION_DEFICIENCIES: Record<string, Matrix> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+  achromatopsia: [
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+  ],
+};
+
+type LinearRgb = [number, number, number];
+
+function toHexColor(linear: LinearRgb): string {
+  const channels = linear.map((value) => {
+    const clamped = Math.min(1, Math.max(0, value));
+    const srgb = clamped <= 0.0031308 ? clamped * 12.92 : 1.055 * clamped ** (1 / 2.4) - 0.055;
+    return Math.round(srgb * 255)
+      .toString(16)
+      .padStart(2, "0");
+  });
+  return `#${channels.join("")}`;
+}
+
+function applyMatrix(matrix: Matrix, [r, g, b]: LinearRgb): LinearRgb {
+  return matrix.map(([mr, mg, mb]) => mr * r + mg * g + mb * b) as LinearRgb;
+}
+
+/**
+ * CIELAB coordinates of a linear sRGB color, against the D65 white point
+ */
+function toLab([r, g, b]: LinearRgb): LinearRgb {
+  const f = (t: number) => (t > (6 / 29) ** 3 ? Math.cbrt(t) : t / (3 * (6 / 29) ** 2) + 4 / 29);
+  const x = f((0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047);
+  const y = f(0.2126 * r + 0.7152 * g + 0.0722 * b);
+  const z = f((0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883);
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+}
+
+/**
+ * CIE76 color difference between two linear sRGB colors
+ */
+function deltaE(a: LinearRgb, b: LinearRgb): number {
+  const [labA, labB] = [toLab(a), toLab(b)];
+  return Math.hypot(labA[0] - labB[0], labA[1] - labB[1], labA[2] - labB[2]);
+}
+
+/**
+ * How a palette looks with each color vision deficiency, and which of its
+ * colors become hard to tell apart
+ */
+function simulatePalette(palette: { name: string; color: string }[]) {
+  const linear = palette.map(({ color }) => toLinearRgb(color));
+
+  return Object.entries(COLOR_VISION_DEFICIENCIES).map(([deficiency, matrix]) => {
+    const simulated = linear.map((color) => applyMatrix(matrix, color));
+    const confusablePairs = [];
+    for (let i = 0; i < palette.length; i++) {
+      for (let j = i + 1; j < palette.length; j++) {
+        const difference = deltaE(simulated[i], simulated[j]);
+        if (difference < MIN_DISTINGUISHABLE_DELTA_E) {
+          confusablePairs.push({ a: palette[i].name, b: palette[j].name, deltaE: round(difference, 1) });
+        }
+      }
+    }
+
+    return {
+      deficiency,
+      colors: palette.map(({ name, color }, index) => ({ name, color, simulated: toHexColor(simulated[index]) })),
+      confusablePairs,
+      pass: confusablePairs.length === 0,
+    };
+  });
+}
+
+/**
+ * The accessibility audit the agent runs instead of estimating contrast or
+ * target sizes. Its report is rendered as a table in the chat.
+ */
+export const auditAccessibilityTool = defineLocalTool({
+  name: "audit_accessibility",
+  description:
+    "Audit a design for accessibility: WCAG 2 contrast ratios with AA/AAA results for foreground/background " +
+    "pairs, how a color palette looks with color vision deficiencies and which colors become confusable, and " +
+    "whether touch targets meet the WCAG 2.2 minimum sizes. Returns a structured report.",
+  schema: z
+    .object({
+      colorPairs: z
+        .array(
+          z.object({
+            label: z.string().trim().max(100).optional().describe("What the pair is used for, e.g. 'Body text'"),
+            foreground: hexColor.describe("Text or foreground color"),
+            background: hexColor.describe("Background color"),
+            largeText: z
+              .boolean()
+              .default(false)
+              .describe("Whether the text is large: at least 24px, or 18.66px bold"),
+          })
+        )
+        .max(MAX_AUDIT_ITEMS)
+        .default([])
+        .describe("Foreground/background color pairs to check for contrast"),
+      palette: z
+        .array(
+          z.object({
+            name: z.string().trim().max(100).optional().describe("Role of the color, e.g. 'Error'"),
+            color: hexColor,
+          })
+        )
+        .max(MAX_AUDIT_ITEMS)
+        .default([])
+        .describe("Colors that must stay distinguishable, such as status or chart colors"),
+      touchTargets: z
+        .array(
+          z.object({
+            label: z.string().trim().max(100).optional().describe("The control, e.g. 'Close button'"),
+            width: z.number().positive().describe("Width in CSS pixels"),
+            height: z.number().positive().describe("Height in CSS pixels"),
+          })
+        )
+        .max(MAX_AUDIT_ITEMS)
+        .default([])
+        .describe("Interactive targets to check against the minimum sizes"),
+    })
+    .refine((audit) => audit.colorPairs.length + audit.palette.length + audit.touchTargets.length > 0, {
+      message: "Provide at least one color pair, palette color or touch target",
+    }),
+  run({ colorPairs, palette, touchTargets }) {
+    const contrast = colorPairs.map(({ label, foreground, background, largeText }) => {
+      const ratio = contrastRatio(foreground, background);
+      const levels = getContrastLevels(ratio);
+      return {
+        label: label || `${foreground} on ${background}`,
+        foreground,
+        background,
+        largeText,
+        ratio: round(ratio),
+        aa: largeText ? levels.aa.largeText : levels.aa.normalText,
+        aaa: largeText ? levels.aaa.largeText : levels.aaa.normalText,
+      };
+    });
+
+    const colorVision =
+      palette.length > 1 ? simulatePalette(palette.map(({ name, color }) => ({ name: name || color, color }))) : [];
+
+    const targets = touchTargets.map(({ label, width, height }) => ({
+      label: label || `${width}×${height}`,
+      width,
+      height,
+      aa: Math.min(width, height) >= MIN_TARGET_SIZE_AA,
+      aaa: Math.min(width, height) >= MIN_TARGET_SIZE_AAA,
+    }));
+
+    // AA is the bar for a passing check; color vision has no WCAG level
+    const results = [
+      ...contrast.map((check) => check.aa),
+      ...colorVision.map((check) => check.pass),
+      ...targets.map((check) => check.aa),
+    ];
+    const passed = results.filter(Boolean).length;
+
+    return {
+      summary: { checks: results.length, passed, failed: results.length - passed },
+      contrast,
+      colorVision,
+      touchTargets: targets,
+    };
+  },
+});
@@ -1,18 +1,134 @@
-import { Agent } from "agents";
-import OpenAI from "openai";
+import { Agent, type Connection } from "agents";
+import {
+  buildSummaryRequest,
+  estimateTextTokens,
+  planSummary,
+  selectActiveWindow,
+  truncateToTokens,
+} from "./context";
+import { auditAccessibilityTool } from "./accessibility";
+import { AssetStore, AttachmentError, getImageAssetIds, type MessageAttachment } from "./assets";
+import {
+  REJECTED_TOOL_RESULT,
+  ToolApprovalError,
+  deniedToolResult,
+  type PendingToolCall,
+} from "./approvals";
+import { BranchError, getBranch, getLatestDescendantId, getLatestLeafId } from "./branches";
+import { recordDecisionTool } from "./decisions";
+import { DESIGN_TOOLS } from "./design-tools";
+import { mergeTools, runLocalTool, type LocalTool } from "./local-tools";
+import {
+  McpServerStore,
+  getToolPolicy,
+  namespaceToolName,
+  parseToolName,
+  resolveAuthHeaders,
+  selectThreadServers,
+  type McpConnectionState,
+  type McpServer,
+  type McpServerStatus,
+  type McpTool,
+  type ToolPolicy,
+} from "./mcp-servers";
+import { McpOAuthProvider, getOAuthRedirectUrl } from "./mcp-oauth";
+import {
+  buildMemoryExtractionRequest,
+  createMemoryStore,
+  formatMemories,
+  getMemorySettings,
+  parseExtractedMemories,
+  type Memory,
+  type MemoryScope,
+  type MemorySettings,
+} from "./memory";
+import { PersonaStore } from "./personas";
+import { ProjectStore, describeProject } from "./projects";
+import { ThreadStore, parseThreadMetadata, rowToMessage } from "./persistence";
+import {
+  FALLBACK_MODEL,
+  ProviderTimeoutError,
+  createProvider,
+  parseModelRef,
+  type ChatMessageParam,
+  type ChatTool,
+  type ChatToolCall,
+  type CompletionResult,
+  type LLMProvider,
+} from "./providers";
+import { streamSse, type ChatEventHandler } from "./streaming";
+import {
+  buildThreadSummaryRequest,
+  buildTitleRequest,
+  cleanTitle,
+  countTurns,
+  getTitlingSettings,
+  type TitlingSettings,
+} from "./titles";
+import {
+  QuotaExceededError,
+  UsageStore,
+  getUsageLimits,
+  quotaExceededResponse,
+} from "./usage";
 
 /**
  * Environment bindings interface for the Worker
  */
 export interface Env {
   DB: D1Database;
-  UX_ARCHITECT_AGENT: DurableObjectNamespace;
+  UX_ARCHITECT_AGENT: DurableObjectNamespace<UXArchitectAgent>;
+  AI?: Ai;
   OPENAI_API_KEY: string;
+  OPENAI_COMPATIBLE_BASE_URL?: string;
+  OPENAI_COMPATIBLE_API_KEY?: string;
+  DEFAULT_MODEL?: string;
   STITCH_API_KEY: string;
+  MCP_SECRET_NAMES?: string;
   WORKER_URL: string;
   ASSETS: Fetcher;
+  ASSETS_BUCKET: R2Bucket;
+  ATTACHMENT_MAX_BYTES?: string;
+  AGENT_MAX_STEPS?: string;
+  AGENT_TURN_BUDGET_MS?: string;
+  CONTEXT_SUMMARY_THRESHOLD_TOKENS?: string;
+  TOOL_RESULT_MAX_TOKENS?: string;
+  AUTH_SECRET?: string;
+  AUTH_ADMIN_TOKEN?: string;
+  ADMIN_USER_IDS?: string;
+  ALLOWED_ORIGINS?: string;
+  USER_REQUESTS_PER_MINUTE?: string;
+  THREAD_REQUESTS_PER_MINUTE?: string;
+  USER_DAILY_TOKEN_LIMIT?: string;
+  THREAD_DAILY_TOKEN_LIMIT?: string;
+  AUTO_TITLE_THREADS?: string;
+  THREAD_SUMMARY_INTERVAL_TURNS?: string;
+  MEMORY_INDEX?: Vectorize;
+  EMBEDDING_MODEL?: string;
+  MEMORY_EXTRACTION?: string;
+  MEMORY_TOP_K?: string;
 }
 
+/**
+ * Default number of model calls allowed in a single chat turn
+ */
+const DEFAULT_MAX_STEPS = 8;
+
+/**
+ * Default wall-clock budget for a single chat turn
+ */
+const DEFAULT_TURN_BUDGET_MS = 120_000;
+
+/**
+ * Default size of the active window, in estimated tokens, before older turns are summarized
+ */
+const DEFAULT_SUMMARY_THRESHOLD_TOKENS = 16_000;
+
+/**
+ * Default cap, in estimated tokens, on a single tool result sent to the model
+ */
+const DEFAULT_TOOL_RESULT_MAX_TOKENS = 2_000;
+
 /**
  * Agent state interface for persisting conversation context
  */
@@ -25,48 +141,97 @@ interface AgentState {
 /**
  * Message interface for conversation history
  */
-interface Message {
+export interface Message {
   id: string;
   role: "user" | "assistant" | "system" | "tool";
   content: string;
-  toolCalls?: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[];
+  toolCalls?: ChatToolCall[];
   toolCallId?: string;
   createdAt: number;
+  metadata?: MessageMetadata;
+  /** Previous message in this message's branch; null for the first message */
+  parentId?: string | null;
+}
+
+/**
+ * Extra message attributes, stored as JSON alongside the message
+ */
+export interface MessageMetadata {
+  /** Marks a rolling summary that stands in for older messages */
+  type?: "summary";
+  /** ID of the last conversation message covered by a summary */
+  summarizedUntil?: string;
+  /** How long a tool message's call took to run */
+  durationMs?: number;
+  /** Marks a tool message whose call failed, was denied or was rejected */
+  isError?: boolean;
+  /** Files the user attached to a user message */
+  attachments?: MessageAttachment[];
+}
+
+/**
+ * Result of a single chat turn
+ */
+export interface ChatResult {
+  response: string;
+  threadId: string;
+  steps: number;
+  finishReason: "completed" | "max_steps" | "timeout" | "awaiting_approval";
+  /** Tool calls the turn is paused on, when awaiting approval */
+  pendingToolCalls?: PendingToolCall[];
+}
+
+/**
+ * Body of a chat request forwarded to the agent
+ */
+interface ChatRequestBody {
+  message?: string;
+  threadId?: string;
+  /** Message the new user message follows; set when editing an earlier message */
+  parentId?: string | null;
+  /** User message to generate a new reply for, instead of sending `message` */
+  regenerateFrom?: string;
+  /** IDs of files uploaded to the thread to attach to the message */
+  attachments?: string[];
 }
 
 /**
  * Thread interface for D1 persistence
  */
-interface Thread {
+export interface Thread {
   id: string;
   title: string | null;
   created_at: number;
   updated_at: number;
   metadata: string | null;
+  owner_id: string | null;
+  project_id: string | null;
 }
 
 /**
- * MCP Server interface for type safety
+ * An agent's connection to one registry server
  */
-interface MCPServerInfo {
-  state?: string;
-  tools?: Array<{
-    name: string;
-    description?: string;
-    inputSchema: Record<string, unknown>;
-  }>;
-  client?: {
-    callTool: (args: { name: string; arguments: Record<string, unknown> }) => Promise<unknown>;
-  };
+interface McpConnection {
+  /** Agents SDK client connection ID, null if connecting failed */
+  connectionId: string | null;
+  /** Server URL the connection was opened with */
+  url: string;
+  /** Where the thread owner can authorize the server, while authorization is pending */
+  authUrl: string | null;
+  error: string | null;
 }
 
 /**
  * UX Architect Agent - A stateful agent that uses the Cloudflare Agents SDK
- * to wrap OpenAI's API and integrate with the Stitch Remote MCP Server.
+ * to wrap a pluggable LLM provider and integrate with the Stitch Remote MCP Server.
  */
 export class UXArchitectAgent extends Agent<Env, AgentState> {
-  private openai: OpenAI | null = null;
-  private mcpConnected: boolean = false;
+  private providers = new Map<string, LLMProvider>();
+  /** Registry servers the current thread uses, refreshed every turn */
+  private threadMcpServers: McpServer[] = [];
+  /** Open MCP connections, keyed by registry server ID */
+  private mcpConnections = new Map<string, McpConnection>();
+  private store: ThreadStore | null = null;
 
   /**
    * System prompt defining the UX Architect persona
@@ -78,7 +243,7 @@ export class UXArchitectAgent extends Agent<Env, AgentState> {
    - Layout and composition
    - Typography and color schemes
    - Interaction patterns and micro-interactions
-   - Accessibility considerations (WCAG compliance)
+   - Accessibility considerations (WCAG compliance), checked with the \`audit_accessibility\` tool rather than estimated
    - Responsive design strategies
    - Component hierarchy and reusability
 
@@ -86,7 +251,7 @@ export class UXArchitectAgent extends Agent<Env, AgentState> {
 
 4. **Be Collaborative**: Engage in iterative design discussions, ask clarifying questions, and propose multiple solutions when appropriate.
 
-5. **Document Decisions**: Provide clear rationale for design recommendations and document key decisions for future reference.
+5. **Document Decisions**: Provide clear rationale for design recommendations, and record each key decision the user agrees to with the \`record_decision\` tool so it can be reviewed later.
 
 Always prioritize user-centered design principles and maintain consistency with established design systems.`;
 
@@ -112,115 +277,298 @@ Always prioritize user-centered design principles and maintain consistency with
         content TEXT NOT NULL,
         tool_calls TEXT,
         tool_call_id TEXT,
-        created_at INTEGER NOT NULL
+        created_at INTEGER NOT NULL,
+        metadata TEXT,
+        parent_id TEXT
       )
     `;
+    this.ensureColumn("agent_messages", "metadata", "TEXT");
+    if (this.ensureColumn("agent_messages", "parent_id", "TEXT")) {
+      // Messages cached before branching existed form a single linear branch
+      this.sql`
+        UPDATE agent_messages SET parent_id = (
+          SELECT prev.id FROM agent_messages prev
+          WHERE prev.thread_id = agent_messages.thread_id
+            AND (prev.created_at < agent_messages.created_at
+              OR (prev.created_at = agent_messages.created_at AND prev.rowid < agent_messages.rowid))
+          ORDER BY prev.created_at DESC, prev.rowid DESC
+          LIMIT 1
+        )
+      `;
+    }
 
     this.sql`
       CREATE TABLE IF NOT EXISTS agent_threads (
         id TEXT PRIMARY KEY,
         title TEXT,
         created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL
+        updated_at INTEGER NOT NULL,
+        owner_id TEXT
+      )
+    `;
+    this.ensureColumn("agent_threads", "owner_id", "TEXT");
+
+    this.sql`
+      CREATE TABLE IF NOT EXISTS agent_pending_tool_calls (
+        tool_call_id TEXT PRIMARY KEY,
+        thread_id TEXT NOT NULL,
+        message_id TEXT NOT NULL,
+        tool_name TEXT NOT NULL,
+        arguments TEXT NOT NULL,
+        created_at INTEGER NOT NULL
       )
     `;
+
+    // Connections are opened from the MCP registry each turn; drop any the SDK restored
+    const restored = this.sql<{ id: string }>`SELECT id FROM cf_agents_mcp_servers`;
+    for (const { id } of restored) {
+      await this.removeMcpServer(id);
+    }
   }
 
   /**
-   * Initialize OpenAI client lazily
+   * Add a column to a DO cache table created by an older version of the agent.
+   * Returns true when the column had to be added.
    */
-  private getOpenAIClient(): OpenAI {
-    if (!this.openai) {
-      this.openai = new OpenAI({
-        apiKey: this.env.OPENAI_API_KEY,
-      });
+  private ensureColumn(table: string, column: string, type: string): boolean {
+    const columns = this.ctx.storage.sql.exec(`PRAGMA table_info(${table})`).toArray();
+    if (columns.some((info) => info.name === column)) {
+      return false;
     }
-    return this.openai;
+    this.ctx.storage.sql.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+    return true;
   }
 
   /**
-   * Connect to the Stitch Remote MCP Server
+   * Get the canonical D1 thread store lazily
    */
-  async connectToStitch(): Promise<{ success: boolean; error?: string }> {
-    if (this.mcpConnected) {
-      return { success: true };
+  private getThreadStore(): ThreadStore {
+    if (!this.store) {
+      this.store = new ThreadStore(this.env.DB);
     }
+    return this.store;
+  }
 
-    try {
-      // Use environment variable for callback host
-      const callbackHost = this.env.WORKER_URL;
+  /**
+   * Get the store for binary content kept in R2
+   */
+  private getAssetStore(): AssetStore {
+    return new AssetStore(this.env.DB, this.env.ASSETS_BUCKET);
+  }
 
-      if (!callbackHost) {
-        throw new Error("WORKER_URL environment variable is not set");
-      }
+  /**
+   * Initialize LLM providers lazily, one client per provider name
+   */
+  protected getProvider(providerName: string): LLMProvider {
+    let provider = this.providers.get(providerName);
+    if (!provider) {
+      provider = createProvider(this.env, providerName);
+      this.providers.set(providerName, provider);
+    }
+    return provider;
+  }
 
-      const result = await this.addMcpServer(
-        "Stitch",
-        "https://stitch.googleapis.com/mcp",
-        callbackHost,
-        "agents",
-        {
-          transport: {
-            headers: {
-              "X-Goog-Api-Key": this.env.STITCH_API_KEY,
-            },
-          },
-        }
+  /**
+   * Resolve per-thread settings from the thread's metadata.
+   * The model falls back to the DEFAULT_MODEL environment variable and the
+   * system prompt to the built-in UX Architect persona. Threads in a project
+   * are told about it in the system prompt.
+   */
+  private async resolveThreadSettings(): Promise<{
+    provider: LLMProvider;
+    model: string;
+    systemPrompt: string;
+    projectId: string | null;
+  }> {
+    const thread = await this.getThreadStore().getThread(this.state.threadId!);
+    const metadata = parseThreadMetadata(thread?.metadata ?? null);
+    const { provider, model } = parseModelRef(
+      metadata.model || this.env.DEFAULT_MODEL || FALLBACK_MODEL
+    );
+
+    let systemPrompt = this.UX_ARCHITECT_SYSTEM_PROMPT;
+    if (metadata.personaId && metadata.personaVersion) {
+      const version = await new PersonaStore(this.env.DB).getVersion(
+        metadata.personaId,
+        metadata.personaVersion
       );
-
-      // Check if authUrl is undefined (meaning we're connected)
-      if (!result.authUrl) {
-        this.mcpConnected = true;
-        return { success: true };
+      if (version) {
+        systemPrompt = version.system_prompt;
       } else {
-        return { success: false, error: `Authentication required: ${result.authUrl}` };
+        console.warn(`Pinned persona ${metadata.personaId} v${metadata.personaVersion} not found`);
       }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      console.error("Failed to connect to Stitch MCP:", errorMessage);
-      return { success: false, error: errorMessage };
     }
+
+    const project = thread?.project_id ? await new ProjectStore(this.env.DB).getProject(thread.project_id) : null;
+    if (project) {
+      systemPrompt = `${systemPrompt}\n\n${describeProject(project)}`;
+    }
+
+    return { provider: this.getProvider(provider), model, systemPrompt, projectId: project?.id ?? null };
   }
 
   /**
-   * Get available tools from connected MCP servers
+   * Connect the MCP servers this thread uses: the registry's enabled servers
+   * adjusted by its project's opt-ins and opt-outs, then the thread's own
    */
-  private getMcpTools(): OpenAI.Chat.Completions.ChatCompletionTool[] {
-    const mcpServers = this.getMcpServers() as unknown as Record<string, MCPServerInfo> | undefined;
-    const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [];
+  async connectMcpServers(): Promise<void> {
+    const [registry, thread] = await Promise.all([
+      new McpServerStore(this.env.DB).listServers(),
+      this.getThreadStore().getThread(this.state.threadId ?? this.name),
+    ]);
+    const metadata = parseThreadMetadata(thread?.metadata ?? null);
+    const project = thread?.project_id ? await new ProjectStore(this.env.DB).getProject(thread.project_id) : null;
+    this.threadMcpServers = selectThreadServers(registry, { ...project?.mcp_servers, ...metadata.mcpServers });
+    await this.openMcpConnections(this.threadMcpServers, thread?.owner_id ?? null);
+  }
 
-    if (!mcpServers || typeof mcpServers !== "object") {
-      return tools;
+  /**
+   * Bring the agent's MCP connections in line with `servers`. Servers that
+   * were removed, moved or opted out are disconnected; failed connections,
+   * and ones awaiting authorization the owner has since granted, are retried.
+   * OAuth tokens belong to the thread owner, so unowned threads can only use
+   * servers that need no authorization.
+   */
+  protected async openMcpConnections(servers: McpServer[], ownerId: string | null): Promise<void> {
+    const redirectUrl = getOAuthRedirectUrl(this.env);
+    const oauthProvider = (server: McpServer) =>
+      ownerId ? new McpOAuthProvider(this.env.DB, ownerId, server.id, redirectUrl) : undefined;
+
+    for (const [serverId, connection] of this.mcpConnections) {
+      const server = servers.find((candidate) => candidate.id === serverId);
+      const state = server ? this.getServerState(server) : "failed";
+      const authorized = state === "authenticating" && !!(await oauthProvider(server!)?.tokens());
+      if (!server || server.url !== connection.url || state === "failed" || authorized) {
+        await this.closeMcpConnection(serverId);
+      }
     }
 
-    for (const [, server] of Object.entries(mcpServers)) {
-      if (server && server.state === "ready" && server.tools) {
-        for (const tool of server.tools) {
-          tools.push({
-            type: "function",
-            function: {
-              name: tool.name,
-              description: tool.description || "",
-              parameters: tool.inputSchema as Record<string, unknown>,
-            },
-          });
-        }
+    for (const server of servers) {
+      if (this.mcpConnections.has(server.id)) {
+        continue;
+      }
+      try {
+        const { id, authUrl } = await this.mcp.connect(server.url, {
+          transport: {
+            requestInit: { headers: resolveAuthHeaders(server, this.env) },
+            authProvider: oauthProvider(server),
+          },
+        });
+        this.mcpConnections.set(server.id, {
+          connectionId: id,
+          url: server.url,
+          authUrl: authUrl ?? null,
+          error: null,
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        console.error(`Failed to connect to MCP server ${server.name}:`, errorMessage);
+        this.mcpConnections.set(server.id, {
+          connectionId: null,
+          url: server.url,
+          authUrl: null,
+          error: errorMessage,
+        });
       }
     }
+  }
+
+  private async closeMcpConnection(serverId: string): Promise<void> {
+    const connectionId = this.mcpConnections.get(serverId)?.connectionId;
+    this.mcpConnections.delete(serverId);
+    if (connectionId && this.mcp.mcpConnections[connectionId]) {
+      await this.mcp.closeConnection(connectionId).catch((error) => {
+        console.error("Failed to close MCP connection:", error);
+      });
+      delete this.mcp.mcpConnections[connectionId];
+    }
+  }
+
+  /**
+   * Where a server's connection stands; servers never connected count as failed
+   */
+  protected getServerState(server: McpServer): McpConnectionState {
+    const connectionId = this.mcpConnections.get(server.id)?.connectionId;
+    return (connectionId && this.mcp.mcpConnections[connectionId]?.connectionState) || "failed";
+  }
+
+  /**
+   * Report the state, tool count and any pending authorization of each of
+   * this thread's MCP servers
+   */
+  getMcpStatus(): McpServerStatus[] {
+    return this.threadMcpServers.map((server) => {
+      const connection = this.mcpConnections.get(server.id);
+      return {
+        serverId: server.id,
+        name: server.name,
+        state: this.getServerState(server),
+        toolCount: this.listServerTools(server).length,
+        authUrl: connection?.authUrl ?? null,
+        error: connection?.error ?? null,
+      };
+    });
+  }
+
+  /**
+   * List the tools of a connected server, empty until it is ready
+   */
+  protected listServerTools(server: McpServer): McpTool[] {
+    const connectionId = this.mcpConnections.get(server.id)?.connectionId;
+    if (!connectionId || this.getServerState(server) !== "ready") {
+      return [];
+    }
+    return this.mcp.listTools().filter((tool) => tool.serverId === connectionId);
+  }
+
+  /**
+   * Call a tool on a connected server by its original, unprefixed name
+   */
+  protected async callServerTool(
+    server: McpServer,
+    toolName: string,
+    args: Record<string, unknown>
+  ): Promise<unknown> {
+    const connectionId = this.mcpConnections.get(server.id)?.connectionId;
+    if (!connectionId || this.getServerState(server) !== "ready") {
+      throw new Error(`MCP server ${server.name} is not connected`);
+    }
+    return this.mcp.callTool({ serverId: connectionId, name: toolName, arguments: args });
+  }
 
-    return tools;
+  /**
+   * Get the tools of this thread's MCP servers, each prefixed with its server
+   * name so identically named tools on different servers stay distinct
+   */
+  protected getMcpTools(): ChatTool[] {
+    return this.threadMcpServers.flatMap((server) =>
+      this.listServerTools(server).map((tool) => ({
+        type: "function" as const,
+        function: {
+          name: namespaceToolName(server.name, tool.name),
+          description: tool.description || "",
+          parameters: tool.inputSchema as Record<string, unknown>,
+        },
+      }))
+    );
   }
 
   /**
-   * Create a new conversation thread
+   * Create a new conversation thread.
+   * Each agent instance owns exactly one thread, keyed by the agent name.
    */
   async createThread(title?: string): Promise<string> {
-    const threadId = crypto.randomUUID();
+    const threadId = this.name;
     const now = Date.now();
+    const store = this.getThreadStore();
+
+    // Threads are normally created in D1 for their owner before the agent sees them
+    await store.ensureThread({ id: threadId, title: title || null, createdAt: now });
+    const ownerId = (await store.getThread(threadId))?.owner_id ?? null;
 
     this.sql`
-      INSERT INTO agent_threads (id, title, created_at, updated_at)
-      VALUES (${threadId}, ${title || null}, ${now}, ${now})
+      INSERT OR IGNORE INTO agent_threads (id, title, created_at, updated_at, owner_id)
+      VALUES (${threadId}, ${title || null}, ${now}, ${now}, ${ownerId})
     `;
 
     this.setState({
@@ -233,17 +581,177 @@ Always prioritize user-centered design principles and maintain consistency with
   }
 
   /**
-   * Load an existing thread and its messages
+   * Load an existing thread and the messages of its active branch.
+   * Falls back to D1 and hydrates the DO cache when the thread is not cached.
+   * Only the agent's own thread can be loaded: callers are authorized for the
+   * thread the agent is named after, not for any other.
    */
   async loadThread(threadId: string): Promise<boolean> {
+    if (threadId !== this.name) {
+      return false;
+    }
+
     const threads = this.sql<{ id: string }>`
       SELECT id FROM agent_threads WHERE id = ${threadId}
     `;
 
     if (threads.length === 0) {
+      return this.hydrateThreadFromStore(threadId);
+    }
+
+    const messages = this.readCachedMessages(threadId);
+    const conversationHistory = getBranch(messages, await this.getActiveLeafId(threadId, messages));
+
+    this.setState({
+      ...this.state,
+      threadId,
+      conversationHistory,
+    });
+
+    return true;
+  }
+
+  /**
+   * The leaf of a thread's active branch: the one last written or selected,
+   * falling back to the most recent message
+   */
+  private async getActiveLeafId(threadId: string, messages: Message[]): Promise<string | null> {
+    const { activeLeafId } = await this.getThreadStore().getThreadMetadata(threadId);
+    return activeLeafId && messages.some((msg) => msg.id === activeLeafId)
+      ? activeLeafId
+      : getLatestLeafId(messages);
+  }
+
+  /**
+   * Record the active branch in D1 so it is restored when the thread is reopened
+   */
+  private async setActiveLeafId(leafId: string): Promise<void> {
+    try {
+      await this.getThreadStore().updateThreadMetadata(this.state.threadId!, { activeLeafId: leafId });
+    } catch (error) {
+      console.error("Failed to record active branch:", error);
+    }
+  }
+
+  /**
+   * Read the branch of the current thread that ends at `leafId`
+   */
+  private readBranch(leafId: string | null): Message[] {
+    const branch = getBranch(this.readCachedMessages(this.state.threadId!), leafId);
+    if (leafId && branch.length === 0) {
+      throw new BranchError(`Message ${leafId} not found in this thread`);
+    }
+    return branch;
+  }
+
+  /**
+   * Check that an edit branches where a user message can go: at the start of
+   * the thread, or after the message an existing user message follows.
+   * Anywhere else, such as after an assistant message with tool calls, the
+   * new message would leave tool calls unanswered.
+   */
+  private assertEditableParent(parentId: string | null | undefined): void {
+    if (parentId === undefined || parentId === null) {
+      return;
+    }
+    const messages = this.readCachedMessages(this.name);
+    if (!messages.some((msg) => msg.role === "user" && msg.parentId === parentId)) {
+      throw new BranchError(`Message ${parentId} does not precede a user message that can be edited`);
+    }
+  }
+
+  /**
+   * Populate the DO cache from the canonical D1 copy of a thread
+   */
+  private async hydrateThreadFromStore(threadId: string): Promise<boolean> {
+    const store = this.getThreadStore();
+    const thread = await store.getThread(threadId);
+
+    if (!thread) {
       return false;
     }
 
+    const messages = (await store.listMessages(threadId)).map(rowToMessage);
+    const conversationHistory = getBranch(messages, await this.getActiveLeafId(threadId, messages));
+
+    this.sql`
+      INSERT OR IGNORE INTO agent_threads (id, title, created_at, updated_at, owner_id)
+      VALUES (${thread.id}, ${thread.title}, ${thread.created_at * 1000}, ${thread.updated_at * 1000}, ${thread.owner_id})
+    `;
+    for (const msg of messages) {
+      this.cacheMessage(threadId, msg);
+    }
+
+    this.setState({
+      ...this.state,
+      threadId,
+      conversationHistory,
+    });
+
+    return true;
+  }
+
+  /**
+   * Copy threads and messages that only exist in DO storage into D1.
+   * Safe to run repeatedly; returns how many rows were backfilled.
+   * Runs only when asked, so it never races a thread's deletion. Threads
+   * cached without a known owner are skipped, as nobody could open them.
+   */
+  async reconcileThreads(): Promise<{ threads: number; messages: number }> {
+    const store = this.getThreadStore();
+    const threads = this.sql<{
+      id: string;
+      title: string | null;
+      created_at: number;
+      updated_at: number;
+      owner_id: string | null;
+    }>`
+      SELECT * FROM agent_threads
+    `;
+    let backfilledThreads = 0;
+    let backfilledMessages = 0;
+
+    for (const thread of threads) {
+      if (!(await store.getThread(thread.id))) {
+        if (!thread.owner_id) {
+          console.warn(`Not backfilling thread ${thread.id}, which has no known owner`);
+          continue;
+        }
+        await store.ensureThread({
+          id: thread.id,
+          title: thread.title,
+          createdAt: thread.created_at,
+          updatedAt: thread.updated_at,
+          ownerId: thread.owner_id,
+        });
+        backfilledThreads++;
+      }
+
+      const storedIds = await store.listMessageIds(thread.id);
+      const missing = this.readCachedMessages(thread.id).filter(
+        (msg) => !storedIds.has(msg.id)
+      );
+
+      await store.saveMessages(thread.id, missing);
+      backfilledMessages += missing.length;
+    }
+
+    return { threads: backfilledThreads, messages: backfilledMessages };
+  }
+
+  /**
+   * List all threads
+   */
+  async listThreads(): Promise<Thread[]> {
+    return this.sql<Thread>`
+      SELECT * FROM agent_threads ORDER BY updated_at DESC
+    `;
+  }
+
+  /**
+   * Read a thread's messages from the DO's SQL cache
+   */
+  private readCachedMessages(threadId: string): Message[] {
     const messages = this.sql<{
       id: string;
       role: string;
@@ -251,277 +759,921 @@ Always prioritize user-centered design principles and maintain consistency with
       tool_calls: string | null;
       tool_call_id: string | null;
       created_at: number;
+      metadata: string | null;
+      parent_id: string | null;
     }>`
       SELECT * FROM agent_messages 
       WHERE thread_id = ${threadId} 
-      ORDER BY created_at ASC
+      ORDER BY created_at ASC, rowid ASC
     `;
 
-    const conversationHistory: Message[] = messages.map((msg) => ({
+    return messages.map((msg) => ({
       id: msg.id,
       role: msg.role as Message["role"],
       content: msg.content,
       toolCalls: msg.tool_calls ? JSON.parse(msg.tool_calls) : undefined,
       toolCallId: msg.tool_call_id || undefined,
       createdAt: msg.created_at,
+      metadata: msg.metadata ? JSON.parse(msg.metadata) : undefined,
+      parentId: msg.parent_id,
     }));
-
-    this.setState({
-      ...this.state,
-      threadId,
-      conversationHistory,
-    });
-
-    return true;
-  }
-
-  /**
-   * List all threads
-   */
-  async listThreads(): Promise<Thread[]> {
-    return this.sql<Thread>`
-      SELECT * FROM agent_threads ORDER BY updated_at DESC
-    `;
   }
 
   /**
-   * Persist a message to the agent's database
+   * Write a message into the DO's SQL cache
    */
-  private persistMessage(message: Message): void {
+  private cacheMessage(threadId: string, message: Message): void {
     this.sql`
-      INSERT INTO agent_messages (id, thread_id, role, content, tool_calls, tool_call_id, created_at)
+      INSERT OR IGNORE INTO agent_messages (id, thread_id, role, content, tool_calls, tool_call_id, created_at, metadata, parent_id)
       VALUES (
         ${message.id},
-        ${this.state.threadId},
+        ${threadId},
         ${message.role},
         ${message.content},
         ${message.toolCalls ? JSON.stringify(message.toolCalls) : null},
         ${message.toolCallId || null},
-        ${message.createdAt}
+        ${message.createdAt},
+        ${message.metadata ? JSON.stringify(message.metadata) : null},
+        ${message.parentId ?? null}
       )
     `;
+  }
+
+  /**
+   * Persist a message to D1 and the agent's write-through cache.
+   * D1 failures are logged rather than thrown; reconcileThreads() backfills them
+   * when asked, e.g. through POST /api/threads/:id/reconcile.
+   */
+  private async persistMessage(message: Message): Promise<void> {
+    const threadId = this.state.threadId!;
+
+    this.cacheMessage(threadId, message);
 
     // Update thread's updated_at timestamp
     const now = Date.now();
     this.sql`
-      UPDATE agent_threads SET updated_at = ${now} WHERE id = ${this.state.threadId}
+      UPDATE agent_threads SET updated_at = ${now} WHERE id = ${threadId}
     `;
+
+    try {
+      await this.getThreadStore().saveMessage(threadId, message);
+    } catch (error) {
+      console.error("Failed to persist message to D1:", error);
+    }
   }
 
   /**
-   * Process a user message and generate a response
+   * Convert conversation history into OpenAI chat messages.
+   * Only the active window is sent: the latest rolling summary stands in for
+   * older turns, and oversized tool results are trimmed. Tool messages are
+   * never dropped, so every tool_call_id keeps its matching assistant call.
+   * Images returned by tools since the last user message follow their tool
+   * results as a user message, since tool messages can only carry text.
+   * Files attached to user messages are sent alongside their text.
+   * Memories recalled for the turn follow the system prompt.
    */
-  async chat(userMessage: string): Promise<{
-    response: string;
-    threadId: string;
-  }> {
-    // Ensure we have a thread
-    if (!this.state.threadId) {
-      await this.createThread();
-    }
-
-    // Try to connect to Stitch MCP
-    await this.connectToStitch();
-
-    // Create user message
-    const userMsg: Message = {
-      id: crypto.randomUUID(),
-      role: "user",
-      content: userMessage,
-      createdAt: Date.now(),
-    };
+  private async buildCompletionMessages(history: Message[], memories: Memory[] = []): Promise<ChatMessageParam[]> {
+    const { summary, messages } = selectActiveWindow(history);
+    const { toolResultMaxTokens } = this.getContextLimits();
+    const currentTurnStart = messages.map((msg) => msg.role).lastIndexOf("user");
 
-    // Use local variable to track conversation history throughout this call
-    let currentHistory = [...this.state.conversationHistory, userMsg];
-    this.setState({ ...this.state, conversationHistory: currentHistory });
-    this.persistMessage(userMsg);
-
-    // Build messages for OpenAI
-    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+    const completionMessages: ChatMessageParam[] = [
       { role: "system", content: this.state.systemPrompt },
-      ...currentHistory.map((msg) => {
-        if (msg.role === "tool" && msg.toolCallId) {
-          return {
-            role: "tool" as const,
-            content: msg.content,
-            tool_call_id: msg.toolCallId,
-          };
+      ...(memories.length > 0 ? [{ role: "system" as const, content: formatMemories(memories) }] : []),
+      ...(summary
+        ? [{ role: "system" as const, content: `Summary of the earlier conversation:\n${summary.content}` }]
+        : []),
+    ];
+    let imageAssetIds: string[] = [];
+
+    for (const [index, msg] of messages.entries()) {
+      if (msg.role === "tool" && msg.toolCallId) {
+        completionMessages.push({
+          role: "tool",
+          content: truncateToTokens(msg.content, toolResultMaxTokens),
+          tool_call_id: msg.toolCallId,
+        });
+        if (index > currentTurnStart) {
+          imageAssetIds.push(...getImageAssetIds(msg.content));
         }
-        if (msg.role === "assistant" && msg.toolCalls) {
-          return {
-            role: "assistant" as const,
-            content: msg.content,
-            tool_calls: msg.toolCalls,
-          };
+        // Images can only follow the last tool message answering an assistant call
+        if (messages[index + 1]?.role !== "tool" && imageAssetIds.length > 0) {
+          completionMessages.push(await this.buildToolImageMessage(imageAssetIds));
+          imageAssetIds = [];
         }
-        return {
+      } else if (msg.role === "assistant" && msg.toolCalls) {
+        completionMessages.push({ role: "assistant", content: msg.content, tool_calls: msg.toolCalls });
+      } else if (msg.role === "user" && msg.metadata?.attachments?.length) {
+        completionMessages.push(await this.buildAttachmentMessage(msg.content, msg.metadata.attachments));
+      } else {
+        completionMessages.push({
           role: msg.role as "user" | "assistant" | "system",
           content: msg.content,
-        };
-      }),
-    ];
-
-    // Get available MCP tools
-    const tools = this.getMcpTools();
-
-    // Call OpenAI
-    const openai = this.getOpenAIClient();
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4-turbo-preview",
-      messages,
-      tools: tools.length > 0 ? tools : undefined,
-      tool_choice: tools.length > 0 ? "auto" : undefined,
-    });
-
-    const assistantMessage = completion.choices[0].message;
-    let responseContent = assistantMessage.content || "";
-
-    // Handle tool calls if present
-    if (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0) {
-      // Store assistant message with tool calls
-      const assistantMsg: Message = {
-        id: crypto.randomUUID(),
-        role: "assistant",
-        content: responseContent,
-        toolCalls: assistantMessage.tool_calls,
-        createdAt: Date.now(),
-      };
-
-      currentHistory.push(assistantMsg);
-      this.setState({ ...this.state, conversationHistory: currentHistory });
-      this.persistMessage(assistantMsg);
-
-      // Execute each tool call
-      for (const toolCall of assistantMessage.tool_calls) {
-        try {
-          // For MCP tools, we would execute via MCP client
-          // This is a placeholder for tool execution
-          const toolResult = await this.executeMcpTool(
-            toolCall.function.name,
-            JSON.parse(toolCall.function.arguments)
-          );
-
-          const toolMsg: Message = {
-            id: crypto.randomUUID(),
-            role: "tool",
-            content: JSON.stringify(toolResult),
-            toolCallId: toolCall.id,
-            createdAt: Date.now(),
-          };
-
-          currentHistory.push(toolMsg);
-          this.setState({ ...this.state, conversationHistory: currentHistory });
-          this.persistMessage(toolMsg);
-        } catch (error) {
-          const errorMsg: Message = {
-            id: crypto.randomUUID(),
-            role: "tool",
-            content: JSON.stringify({ error: error instanceof Error ? error.message : "Tool execution failed" }),
-            toolCallId: toolCall.id,
-            createdAt: Date.now(),
-          };
-
-          currentHistory.push(errorMsg);
-          this.setState({ ...this.state, conversationHistory: currentHistory });
-          this.persistMessage(errorMsg);
-        }
+        });
       }
-
-      // Get final response after tool calls
-      const followUpMessages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-        { role: "system", content: this.state.systemPrompt },
-        ...currentHistory.map((msg) => {
-          if (msg.role === "tool" && msg.toolCallId) {
-            return {
-              role: "tool" as const,
-              content: msg.content,
-              tool_call_id: msg.toolCallId,
-            };
-          }
-          if (msg.role === "assistant" && msg.toolCalls) {
-            return {
-              role: "assistant" as const,
-              content: msg.content,
-              tool_calls: msg.toolCalls,
-            };
-          }
-          return {
-            role: msg.role as "user" | "assistant" | "system",
-            content: msg.content,
-          };
-        }),
-      ];
-
-      const followUpCompletion = await openai.chat.completions.create({
-        model: "gpt-4-turbo-preview",
-        messages: followUpMessages,
-      });
-
-      responseContent = followUpCompletion.choices[0].message.content || "";
     }
 
-    // Store final assistant response
-    const finalAssistantMsg: Message = {
-      id: crypto.randomUUID(),
-      role: "assistant",
-      content: responseContent,
-      createdAt: Date.now(),
-    };
+    return completionMessages;
+  }
 
-    currentHistory.push(finalAssistantMsg);
-    this.setState({ ...this.state, conversationHistory: currentHistory });
-    this.persistMessage(finalAssistantMsg);
+  /**
+   * Load images stored from tool results as a user message of vision inputs
+   */
+  private async buildToolImageMessage(assetIds: string[]): Promise<ChatMessageParam> {
+    const store = this.getAssetStore();
+    const images = await Promise.all(
+      assetIds.map(async (assetId) => {
+        const url = await store.getDataUrl(this.name, assetId);
+        if (!url) {
+          console.warn(`Tool result image ${assetId} is missing or belongs to another thread`);
+          return null;
+        }
+        return { type: "image_url" as const, image_url: { url } };
+      })
+    );
 
     return {
-      response: responseContent,
-      threadId: this.state.threadId!,
+      role: "user",
+      content: [
+        { type: "text", text: "Images returned by the tool calls above:" },
+        ...images.filter((image) => image !== null),
+      ],
     };
   }
 
   /**
-   * Execute an MCP tool
+   * Build a user message from its text and attached files: images as vision
+   * inputs and other files, such as PDFs, as file inputs
    */
-  private async executeMcpTool(
-    toolName: string,
-    args: Record<string, unknown>
-  ): Promise<unknown> {
-    // Get MCP servers and find the one with this tool
-    const mcpServers = this.getMcpServers() as unknown as Record<string, MCPServerInfo> | undefined;
+  private async buildAttachmentMessage(
+    text: string,
+    attachments: MessageAttachment[]
+  ): Promise<ChatMessageParam> {
+    const store = this.getAssetStore();
+    const parts = await Promise.all(
+      attachments.map(async (attachment) => {
+        const url = await store.getDataUrl(this.name, attachment.id);
+        if (!url) {
+          console.warn(`Attachment ${attachment.id} is missing or belongs to another thread`);
+          return null;
+        }
+        return attachment.mimeType.startsWith("image/")
+          ? { type: "image_url" as const, image_url: { url } }
+          : { type: "file" as const, file: { filename: attachment.name, file_data: url } };
+      })
+    );
 
-    if (!mcpServers || typeof mcpServers !== "object") {
-      throw new Error(`Tool not found: ${toolName}`);
+    return {
+      role: "user",
+      content: [...(text ? [{ type: "text" as const, text }] : []), ...parts.filter((part) => part !== null)],
+    };
+  }
+
+  /**
+   * Read the context window limits from the environment
+   */
+  private getContextLimits(): { summaryThresholdTokens: number; toolResultMaxTokens: number } {
+    const summaryThresholdTokens = Number(this.env.CONTEXT_SUMMARY_THRESHOLD_TOKENS);
+    const toolResultMaxTokens = Number(this.env.TOOL_RESULT_MAX_TOKENS);
+
+    return {
+      summaryThresholdTokens:
+        summaryThresholdTokens > 0 ? summaryThresholdTokens : DEFAULT_SUMMARY_THRESHOLD_TOKENS,
+      toolResultMaxTokens:
+        toolResultMaxTokens > 0 ? toolResultMaxTokens : DEFAULT_TOOL_RESULT_MAX_TOKENS,
+    };
+  }
+
+  /**
+   * Fold older turns into a persisted rolling summary once the active window
+   * grows past the threshold. Returns the summary message, if one was written.
+   */
+  private async compactHistory(
+    history: Message[],
+    provider: LLMProvider,
+    model: string,
+    ownerId: string | null
+  ): Promise<Message | null> {
+    const { summaryThresholdTokens, toolResultMaxTokens } = this.getContextLimits();
+    // Tool results are trimmed before sending, so count them at their trimmed size
+    const sized = history.map((msg) =>
+      msg.role === "tool" ? { ...msg, content: truncateToTokens(msg.content, toolResultMaxTokens) } : msg
+    );
+    const plan = planSummary(sized, summaryThresholdTokens, summaryThresholdTokens / 2);
+
+    if (!plan) {
+      return null;
+    }
+
+    const messages = buildSummaryRequest(plan.previousSummary, plan.toSummarize, toolResultMaxTokens);
+    const completion = await provider.complete({ model, messages });
+    await this.recordUsage(ownerId, `${provider.name}:${model}`, messages, completion);
+
+    return {
+      id: crypto.randomUUID(),
+      role: "system",
+      content: completion.content,
+      createdAt: Date.now(),
+      metadata: {
+        type: "summary",
+        summarizedUntil: plan.toSummarize[plan.toSummarize.length - 1].id,
+      },
+    };
+  }
+
+  /**
+   * Check the thread owner's rate limits and token quotas.
+   * Throws a QuotaExceededError when another turn is not allowed.
+   */
+  async assertWithinQuota(): Promise<string | null> {
+    const thread = await this.getThreadStore().getThread(this.name);
+    const ownerId = thread?.owner_id ?? null;
+
+    await new UsageStore(this.env.DB).assertWithinQuota(ownerId, this.name, getUsageLimits(this.env));
+    return ownerId;
+  }
+
+  /**
+   * Record the tokens a completion spent against the thread owner's quota.
+   * Providers that report no usage are charged an estimate.
+   */
+  private async recordUsage(
+    ownerId: string | null,
+    modelRef: string,
+    messages: ChatMessageParam[],
+    completion: CompletionResult
+  ): Promise<void> {
+    const usage = completion.usage ?? {
+      promptTokens: estimateTextTokens(JSON.stringify(messages)),
+      completionTokens: estimateTextTokens(
+        completion.content + completion.toolCalls.map((call) => call.function.arguments).join("")
+      ),
+    };
+
+    try {
+      await new UsageStore(this.env.DB).recordCompletion({
+        userId: ownerId,
+        threadId: this.name,
+        model: modelRef,
+        ...usage,
+      });
+    } catch (error) {
+      console.error("Failed to record token usage:", error);
+    }
+  }
+
+  /**
+   * Read the agent loop limits from the environment
+   */
+  private getTurnBudget(): { maxSteps: number; budgetMs: number } {
+    const maxSteps = Number(this.env.AGENT_MAX_STEPS);
+    const budgetMs = Number(this.env.AGENT_TURN_BUDGET_MS);
+
+    return {
+      maxSteps: maxSteps > 0 ? maxSteps : DEFAULT_MAX_STEPS,
+      budgetMs: budgetMs > 0 ? budgetMs : DEFAULT_TURN_BUDGET_MS,
+    };
+  }
+
+  /**
+   * Load the thread, enforce quotas and connect tools before a turn.
+   * Returns the thread owner the turn is charged to.
+   */
+  private async beginTurn(): Promise<string | null> {
+    // Ensure we have a thread, preferring one already persisted under this agent's name
+    if (!this.state.threadId && !(await this.loadThread(this.name))) {
+      await this.createThread();
     }
 
-    for (const [, server] of Object.entries(mcpServers)) {
-      if (server && server.state === "ready" && server.tools) {
-        const tool = server.tools.find((t: { name: string }) => t.name === toolName);
-        if (tool && server.client) {
-          // Execute the tool using the MCP client
-          const result = await server.client.callTool({
-            name: toolName,
-            arguments: args,
+    // Enforce rate limits and token quotas before spending anything
+    const ownerId = await this.assertWithinQuota();
+    await new UsageStore(this.env.DB).recordRequest(ownerId, this.name);
+
+    // Connect the MCP servers this thread uses
+    await this.connectMcpServers();
+
+    return ownerId;
+  }
+
+  /**
+   * Process a user message and generate a response.
+   *
+   * The message continues the thread's active branch, or starts a new branch
+   * after `parentId` when an earlier message is edited (null edits the first).
+   * `attachments` are IDs of files uploaded to this thread.
+   */
+  async chat(
+    userMessage: string,
+    onEvent: ChatEventHandler = () => {},
+    options: { parentId?: string | null; attachments?: string[] } = {}
+  ): Promise<ChatResult> {
+    this.assertNoPendingToolCalls();
+    this.assertEditableParent(options.parentId);
+    const attachments = await this.resolveAttachments(options.attachments);
+    const ownerId = await this.beginTurn();
+    const threadId = this.state.threadId!;
+
+    const history =
+      options.parentId === undefined
+        ? this.readBranch(await this.getActiveLeafId(threadId, this.readCachedMessages(threadId)))
+        : this.readBranch(options.parentId);
+
+    // Create user message
+    const userMsg: Message = {
+      id: crypto.randomUUID(),
+      role: "user",
+      content: userMessage,
+      createdAt: Date.now(),
+      parentId: history.at(-1)?.id ?? null,
+      ...(attachments.length > 0 ? { metadata: { attachments } } : {}),
+    };
+
+    history.push(userMsg);
+    this.setState({ ...this.state, conversationHistory: history });
+    await this.persistMessage(userMsg);
+    await this.setActiveLeafId(userMsg.id);
+
+    return this.runTurn(history, ownerId, onEvent);
+  }
+
+  /**
+   * Generate a new reply to an earlier user message as a sibling branch of
+   * the existing replies
+   */
+  async regenerate(userMessageId: string, onEvent: ChatEventHandler = () => {}): Promise<ChatResult> {
+    this.assertNoPendingToolCalls();
+    const ownerId = await this.beginTurn();
+    const history = this.readBranch(userMessageId);
+
+    if (history.at(-1)?.role !== "user") {
+      throw new BranchError("Only replies to user messages can be regenerated");
+    }
+
+    this.setState({ ...this.state, conversationHistory: history });
+    return this.runTurn(history, ownerId, onEvent);
+  }
+
+  /**
+   * Generate the assistant's reply to the last message of `currentHistory`.
+   *
+   * Runs an agent loop: the model is called with tools until it answers
+   * without requesting any, or until the step count or wall-clock budget
+   * for the turn is exhausted, or a tool call needs the user's approval.
+   * Progress is reported through `onEvent`.
+   */
+  private async runTurn(
+    currentHistory: Message[],
+    ownerId: string | null,
+    onEvent: ChatEventHandler
+  ): Promise<ChatResult> {
+    const record = (msg: Message) => this.recordMessage(currentHistory, msg);
+
+    const { maxSteps, budgetMs } = this.getTurnBudget();
+    const deadline = Date.now() + budgetMs;
+    const { provider, model, systemPrompt, projectId } = await this.resolveThreadSettings();
+    if (systemPrompt !== this.state.systemPrompt) {
+      this.setState({ ...this.state, systemPrompt });
+    }
+
+    // Keep long threads within the model's context window
+    const summary = await this.compactHistory(currentHistory, provider, model, ownerId);
+    if (summary) {
+      await record(summary);
+    }
+    // Memories belong to the thread owner, within the thread's project
+    const memoryScope: MemoryScope | null = ownerId ? { ownerId, projectId } : null;
+    const memories = await this.recallMemories(currentHistory, memoryScope);
+    let responseContent = "";
+    let finishReason: ChatResult["finishReason"] = "completed";
+    let steps = 0;
+
+    while (true) {
+      if (steps >= maxSteps) {
+        finishReason = "max_steps";
+        break;
+      }
+
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        finishReason = "timeout";
+        break;
+      }
+
+      // Tools are re-read every step so newly ready MCP servers are picked up;
+      // the local tools are always offered alongside them
+      const tools = mergeTools(this.getLocalTools(), this.getMcpTools());
+      const messages = await this.buildCompletionMessages(currentHistory, memories);
+      let completion: CompletionResult;
+
+      try {
+        completion = await provider.complete({
+          model,
+          messages,
+          tools,
+          timeoutMs: remainingMs,
+          onTextDelta: (delta) => onEvent({ type: "text-delta", delta }),
+        });
+      } catch (error) {
+        if (error instanceof ProviderTimeoutError) {
+          finishReason = "timeout";
+          break;
+        }
+        throw error;
+      }
+
+      steps++;
+      await this.recordUsage(ownerId, `${provider.name}:${model}`, messages, completion);
+
+      if (completion.toolCalls.length === 0) {
+        responseContent = completion.content;
+        break;
+      }
+
+      // Store assistant message with tool calls
+      const assistantMsg: Message = {
+        id: crypto.randomUUID(),
+        role: "assistant",
+        content: completion.content,
+        toolCalls: completion.toolCalls,
+        createdAt: Date.now(),
+      };
+      await record(assistantMsg);
+
+      // Handle each tool call by its policy; every call must eventually get a
+      // matching tool message, which calls awaiting approval get once resolved
+      for (const toolCall of completion.toolCalls) {
+        onEvent({
+          type: "tool-call-start",
+          toolCallId: toolCall.id,
+          toolName: toolCall.function.name,
+          arguments: toolCall.function.arguments,
+        });
+
+        const policy = this.getToolCallPolicy(toolCall.function.name);
+        if (policy === "require-approval") {
+          this.addPendingToolCall(assistantMsg.id, toolCall);
+          onEvent({
+            type: "tool-approval-required",
+            toolCallId: toolCall.id,
+            toolName: toolCall.function.name,
+            arguments: toolCall.function.arguments,
           });
-          return result;
+        } else if (policy === "deny") {
+          await this.recordToolResult(
+            currentHistory,
+            toolCall,
+            deniedToolResult(toolCall.function.name),
+            true,
+            onEvent
+          );
+        } else {
+          await this.runToolCall(currentHistory, toolCall, onEvent);
         }
       }
+
+      if (this.listPendingToolCalls().length > 0) {
+        finishReason = "awaiting_approval";
+        break;
+      }
+    }
+
+    if (finishReason === "awaiting_approval") {
+      // The turn resumes once the pending calls are resolved; no reply yet
+      await this.setActiveLeafId(currentHistory.at(-1)!.id);
+
+      const result: ChatResult = {
+        response: "",
+        threadId: this.state.threadId!,
+        steps,
+        finishReason,
+        pendingToolCalls: this.listPendingToolCalls(),
+      };
+      onEvent({ type: "message-complete", ...result });
+
+      return result;
+    }
+
+    if (finishReason !== "completed") {
+      responseContent =
+        finishReason === "max_steps"
+          ? `I stopped after ${steps} tool steps without reaching a final answer (step limit: ${maxSteps}). Ask me to continue if you'd like me to keep going.`
+          : `I ran out of time for this turn after ${steps} tool steps (${Math.round(budgetMs / 1000)}s budget). Ask me to continue if you'd like me to keep going.`;
+      onEvent({ type: "text-delta", delta: responseContent });
+    }
+
+    // Store final assistant response
+    await record({
+      id: crypto.randomUUID(),
+      role: "assistant",
+      content: responseContent,
+      createdAt: Date.now(),
+    });
+    await this.setActiveLeafId(currentHistory.at(-1)!.id);
+
+    const result: ChatResult = {
+      response: responseContent,
+      threadId: this.state.threadId!,
+      steps,
+      finishReason,
+    };
+    onEvent({ type: "message-complete", ...result });
+    this.describeThreadInBackground(currentHistory, provider, model, ownerId);
+    this.extractMemoriesInBackground(currentHistory, provider, model, memoryScope);
+
+    return result;
+  }
+
+  /**
+   * Read the thread titling settings; overridden in tests
+   */
+  protected getTitlingSettings(): TitlingSettings {
+    return getTitlingSettings(this.env);
+  }
+
+  /**
+   * Title and summarize the thread after a completed turn without holding
+   * up the reply. Failures are logged and retried after the next turn.
+   */
+  private describeThreadInBackground(
+    history: Message[],
+    provider: LLMProvider,
+    model: string,
+    ownerId: string | null
+  ): void {
+    const { enabled, summaryIntervalTurns } = this.getTitlingSettings();
+    if (!enabled) {
+      return;
+    }
+
+    const task = this.describeThread([...history], provider, model, ownerId, summaryIntervalTurns);
+    this.ctx.waitUntil(
+      task.catch((error) => {
+        console.error("Failed to title or summarize thread:", error);
+      })
+    );
+  }
+
+  /**
+   * Generate a title for an untitled thread, and a new summary once the
+   * branch reaches a multiple of `summaryIntervalTurns` turns
+   */
+  private async describeThread(
+    history: Message[],
+    provider: LLMProvider,
+    model: string,
+    ownerId: string | null,
+    summaryIntervalTurns: number
+  ): Promise<void> {
+    const threadId = this.state.threadId!;
+    const store = this.getThreadStore();
+    const thread = await store.getThread(threadId);
+    if (!thread) {
+      return;
+    }
+
+    if (thread.title === null) {
+      const messages = buildTitleRequest(history);
+      const completion = await provider.complete({ model, messages });
+      await this.recordUsage(ownerId, `${provider.name}:${model}`, messages, completion);
+
+      const title = cleanTitle(completion.content);
+      if (title) {
+        await store.setTitleIfUntitled(threadId, title);
+      }
+    }
+
+    const turns = countTurns(history);
+    if (turns % summaryIntervalTurns === 0 && parseThreadMetadata(thread.metadata).summaryTurns !== turns) {
+      const messages = buildThreadSummaryRequest(history);
+      const completion = await provider.complete({ model, messages });
+      await this.recordUsage(ownerId, `${provider.name}:${model}`, messages, completion);
+
+      if (completion.content.trim()) {
+        await store.updateThreadMetadata(threadId, { summary: completion.content.trim(), summaryTurns: turns });
+      }
+    }
+  }
+
+  /**
+   * Read the memory settings; overridden in tests
+   */
+  protected getMemorySettings(): MemorySettings {
+    return getMemorySettings(this.env);
+  }
+
+  /**
+   * Recall the memories relevant to the latest user message. Memory is best
+   * effort: failures are logged and the turn runs without it.
+   */
+  private async recallMemories(history: Message[], scope: MemoryScope | null): Promise<Memory[]> {
+    const userMessage = [...history].reverse().find((msg) => msg.role === "user");
+    if (!scope || !userMessage?.content.trim()) {
+      return [];
+    }
+
+    try {
+      return await createMemoryStore(this.env).recall(scope, userMessage.content, this.getMemorySettings().topK);
+    } catch (error) {
+      console.error("Failed to recall memories:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Remember the design decisions made in the latest exchange without
+   * holding up the reply
+   */
+  private extractMemoriesInBackground(
+    history: Message[],
+    provider: LLMProvider,
+    model: string,
+    scope: MemoryScope | null
+  ): void {
+    if (!scope || !this.getMemorySettings().extraction) {
+      return;
+    }
+
+    const exchange = history.slice(history.map((msg) => msg.role).lastIndexOf("user"));
+    const task = this.extractMemories(exchange, provider, model, scope);
+    this.ctx.waitUntil(
+      task.catch((error) => {
+        console.error("Failed to extract memories:", error);
+      })
+    );
+  }
+
+  /**
+   * Ask the model for the durable decisions in an exchange and store the new ones
+   */
+  private async extractMemories(
+    exchange: Message[],
+    provider: LLMProvider,
+    model: string,
+    scope: MemoryScope
+  ): Promise<void> {
+    const messages = buildMemoryExtractionRequest(exchange);
+    const completion = await provider.complete({ model, messages });
+    await this.recordUsage(scope.ownerId, `${provider.name}:${model}`, messages, completion);
+
+    const contents = parseExtractedMemories(completion.content);
+    await createMemoryStore(this.env).addMemories(scope, this.state.threadId!, contents);
+  }
+
+  /**
+   * Append a message to `history`, continuing the branch from its last message
+   */
+  private async recordMessage(history: Message[], msg: Message): Promise<void> {
+    const linked = { ...msg, parentId: history.at(-1)?.id ?? null };
+    history.push(linked);
+    this.setState({ ...this.state, conversationHistory: history });
+    await this.persistMessage(linked);
+  }
+
+  /**
+   * Execute a tool call the model requested and record its result
+   */
+  private async runToolCall(
+    history: Message[],
+    toolCall: ChatToolCall,
+    onEvent: ChatEventHandler
+  ): Promise<void> {
+    const startedAt = Date.now();
+    let content: string;
+    let isError = false;
+    try {
+      const args = JSON.parse(toolCall.function.arguments);
+      const localTool = this.getLocalTools().find((tool) => tool.name === toolCall.function.name);
+      const toolResult = localTool
+        ? await runLocalTool(localTool, args, {
+            db: this.env.DB,
+            threadId: this.name,
+            messageId: history.find((message) => message.toolCalls?.some((call) => call.id === toolCall.id))!.id,
+          })
+        : await this.executeMcpTool(toolCall.function.name, args);
+      // Binary content goes to R2 so only references are stored and sent as text
+      content = JSON.stringify(
+        await this.getAssetStore().extractToolResultAssets(this.state.threadId!, toolResult)
+      );
+    } catch (error) {
+      isError = true;
+      content = JSON.stringify({
+        error: error instanceof Error ? error.message : "Tool execution failed",
+      });
+    }
+
+    await this.recordToolResult(history, toolCall, content, isError, onEvent, Date.now() - startedAt);
+  }
+
+  /**
+   * Report a tool call's result and record it as the call's tool message.
+   * Calls that never ran, because they were denied or rejected, have no duration.
+   */
+  private async recordToolResult(
+    history: Message[],
+    toolCall: ChatToolCall,
+    content: string,
+    isError: boolean,
+    onEvent: ChatEventHandler,
+    durationMs?: number
+  ): Promise<void> {
+    onEvent({
+      type: "tool-result",
+      toolCallId: toolCall.id,
+      toolName: toolCall.function.name,
+      result: content,
+      isError,
+      durationMs,
+    });
+
+    await this.recordMessage(history, {
+      id: crypto.randomUUID(),
+      role: "tool",
+      content,
+      toolCallId: toolCall.id,
+      createdAt: Date.now(),
+      metadata: { durationMs, isError: isError || undefined },
+    });
+  }
+
+  /**
+   * The policy of a namespaced tool. Tools of unknown servers run as usual,
+   * which reports them as not found.
+   */
+  private getToolCallPolicy(toolName: string): ToolPolicy {
+    const parsed = parseToolName(toolName);
+    const server =
+      parsed && this.threadMcpServers.find((candidate) => candidate.name === parsed.serverName);
+    return parsed && server ? getToolPolicy(server, parsed.toolName) : "auto";
+  }
+
+  /**
+   * Persist a tool call that waits for the user's approval
+   */
+  private addPendingToolCall(messageId: string, toolCall: ChatToolCall): void {
+    this.sql`
+      INSERT OR REPLACE INTO agent_pending_tool_calls (tool_call_id, thread_id, message_id, tool_name, arguments, created_at)
+      VALUES (
+        ${toolCall.id},
+        ${this.name},
+        ${messageId},
+        ${toolCall.function.name},
+        ${toolCall.function.arguments},
+        ${Date.now()}
+      )
+    `;
+  }
+
+  /**
+   * List the tool calls this thread's paused turn waits on, oldest first
+   */
+  listPendingToolCalls(): PendingToolCall[] {
+    const rows = this.sql<{
+      tool_call_id: string;
+      message_id: string;
+      tool_name: string;
+      arguments: string;
+      created_at: number;
+    }>`
+      SELECT * FROM agent_pending_tool_calls
+      WHERE thread_id = ${this.name}
+      ORDER BY created_at ASC, rowid ASC
+    `;
+
+    return rows.map((row) => ({
+      toolCallId: row.tool_call_id,
+      toolName: row.tool_name,
+      arguments: row.arguments,
+      messageId: row.message_id,
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Refuse to start a new turn while a paused one waits for approval
+   */
+  private assertNoPendingToolCalls(): void {
+    if (this.listPendingToolCalls().length > 0) {
+      throw new ToolApprovalError("Approve or reject the pending tool calls first", 409);
     }
+  }
 
-    throw new Error(`Tool not found: ${toolName}`);
+  /**
+   * Look up the files attached to a new message. They must have been
+   * uploaded to this agent's thread.
+   */
+  private async resolveAttachments(attachmentIds: string[] = []): Promise<MessageAttachment[]> {
+    return attachmentIds.length > 0 ? this.getAssetStore().resolveAttachments(this.name, attachmentIds) : [];
+  }
+
+  /**
+   * Approve or reject a pending tool call. Approved calls run and record
+   * their real result; rejected ones record a rejection for the model.
+   * Once the last pending call of the message is resolved the paused turn
+   * continues with the results.
+   */
+  async resolveToolCall(
+    toolCallId: string,
+    approved: boolean,
+    onEvent: ChatEventHandler = () => {}
+  ): Promise<ChatResult> {
+    const pending = this.listPendingToolCalls().find((call) => call.toolCallId === toolCallId);
+    if (!pending) {
+      throw new ToolApprovalError(`No tool call ${toolCallId} is awaiting approval`, 404);
+    }
+
+    const ownerId = await this.beginTurn();
+    const threadId = this.state.threadId!;
+    const history = this.readBranch(
+      getLatestDescendantId(this.readCachedMessages(threadId), pending.messageId)
+    );
+    this.setState({ ...this.state, conversationHistory: history });
+
+    this.sql`DELETE FROM agent_pending_tool_calls WHERE tool_call_id = ${toolCallId}`;
+    const toolCall: ChatToolCall = {
+      id: pending.toolCallId,
+      type: "function",
+      function: { name: pending.toolName, arguments: pending.arguments },
+    };
+    if (approved) {
+      await this.runToolCall(history, toolCall, onEvent);
+    } else {
+      await this.recordToolResult(history, toolCall, REJECTED_TOOL_RESULT, true, onEvent);
+    }
+    await this.setActiveLeafId(history.at(-1)!.id);
+
+    const remaining = this.listPendingToolCalls();
+    if (remaining.length > 0) {
+      const result: ChatResult = {
+        response: "",
+        threadId,
+        steps: 0,
+        finishReason: "awaiting_approval",
+        pendingToolCalls: remaining,
+      };
+      onEvent({ type: "message-complete", ...result });
+      return result;
+    }
+
+    return this.runTurn(history, ownerId, onEvent);
+  }
+
+  /**
+   * The first-party tools dispatched in the Worker rather than on an MCP
+   * server; they take precedence over MCP tools of the same name
+   */
+  protected getLocalTools(): LocalTool[] {
+    return [recordDecisionTool, ...DESIGN_TOOLS, auditAccessibilityTool];
+  }
+
+  /**
+   * Execute a namespaced MCP tool on the server its prefix names
+   */
+  protected async executeMcpTool(
+    toolName: string,
+    args: Record<string, unknown>
+  ): Promise<unknown> {
+    const parsed = parseToolName(toolName);
+    const server =
+      parsed && this.threadMcpServers.find((candidate) => candidate.name === parsed.serverName);
+
+    if (!parsed || !server) {
+      throw new Error(`Tool not found: ${toolName}`);
+    }
+
+    return this.callServerTool(server, parsed.toolName, args);
   }
 
   /**
    * Handle WebSocket connections for real-time chat
    */
-  async onConnect(connection: unknown): Promise<void> {
+  async onConnect(connection: Connection): Promise<void> {
     console.log("Client connected to UX Architect Agent");
-    await this.connectToStitch();
+    await this.connectMcpServers();
+  }
+
+  /**
+   * Undo state updates sent by WebSocket clients. The state names the thread
+   * every turn reads and writes, so only the agent may set it; clearing it
+   * makes the next turn reload the agent's own thread.
+   */
+  onStateUpdate(_state: AgentState | undefined, source: Connection | "server"): void {
+    if (source === "server") {
+      return;
+    }
+
+    console.warn("Ignoring state update from a client connection");
+    this.setState({
+      threadId: null,
+      systemPrompt: this.UX_ARCHITECT_SYSTEM_PROMPT,
+      conversationHistory: [],
+    });
   }
 
   /**
    * Handle incoming WebSocket messages
    */
   async onMessage(
-    connection: unknown,
+    connection: Connection,
     message: string | ArrayBuffer
   ): Promise<void> {
     if (typeof message !== "string") {
@@ -531,24 +1683,54 @@ Always prioritize user-centered design principles and maintain consistency with
     try {
       const data = JSON.parse(message);
 
-      if (data.type === "chat" && data.message) {
-        const result = await this.chat(data.message);
-        // Response will be sent via state sync
-        console.log("Chat response:", result.response.substring(0, 100));
+      if (data.type === "chat" && (data.message || data.attachments?.length)) {
+        // Stream chat events back to the requesting connection
+        await this.chat(data.message ?? "", (event) => connection.send(JSON.stringify(event)), {
+          parentId: data.parentId,
+          attachments: data.attachments,
+        });
+      } else if (data.type === "regenerate" && data.messageId) {
+        await this.regenerate(data.messageId, (event) => connection.send(JSON.stringify(event)));
+      } else if (data.type === "resolve_tool_call" && data.toolCallId) {
+        await this.resolveToolCall(data.toolCallId, data.approved === true, (event) =>
+          connection.send(JSON.stringify(event))
+        );
       } else if (data.type === "create_thread") {
         const threadId = await this.createThread(data.title);
         console.log("Created thread:", threadId);
       } else if (data.type === "load_thread" && data.threadId) {
-        await this.loadThread(data.threadId);
+        if (!(await this.loadThread(data.threadId))) {
+          throw new Error("Thread not found");
+        }
       } else if (data.type === "list_threads") {
         const threads = await this.listThreads();
         console.log("Listed threads:", threads.length);
       }
     } catch (error) {
       console.error("Error processing message:", error);
+      connection.send(
+        JSON.stringify({
+          type: "error",
+          error: error instanceof Error ? error.message : "Failed to process message",
+          retryAfter: error instanceof QuotaExceededError ? error.retryAfterSeconds : undefined,
+        })
+      );
     }
   }
 
+  /**
+   * Run a chat request: a new message, an edit (`parentId`) or a regeneration
+   */
+  private runChatRequest(body: ChatRequestBody, onEvent?: ChatEventHandler): Promise<ChatResult> {
+    if (body.regenerateFrom) {
+      return this.regenerate(body.regenerateFrom, onEvent);
+    }
+    return this.chat(body.message ?? "", onEvent, {
+      parentId: body.parentId,
+      attachments: body.attachments,
+    });
+  }
+
   /**
    * Handle HTTP requests directly to the agent
    */
@@ -571,14 +1753,93 @@ Always prioritize user-centered design principles and maintain consistency with
 
     // Handle chat
     if (path === "/chat" && request.method === "POST") {
-      const body = await request.json() as { message: string; threadId?: string };
+      const body = await request.json() as ChatRequestBody;
 
       if (body.threadId) {
         await this.loadThread(body.threadId);
       }
 
-      const result = await this.chat(body.message);
-      return Response.json(result);
+      try {
+        const result = await this.runChatRequest(body);
+        return Response.json(result);
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          return quotaExceededResponse(error);
+        }
+        if (error instanceof BranchError || error instanceof AttachmentError) {
+          return Response.json({ error: error.message }, { status: 400 });
+        }
+        if (error instanceof ToolApprovalError) {
+          return Response.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+      }
+    }
+
+    // Handle streaming chat over SSE
+    if (path === "/chat/stream" && request.method === "POST") {
+      const body = await request.json() as ChatRequestBody;
+
+      if (body.threadId) {
+        await this.loadThread(body.threadId);
+      }
+
+      // Reject over-quota turns with a 429, turns blocked by a pending
+      // approval with a 409 and unusable edits or attachments with a 400,
+      // before the stream starts
+      try {
+        this.assertNoPendingToolCalls();
+        if (!body.regenerateFrom) {
+          this.assertEditableParent(body.parentId);
+        }
+        await this.assertWithinQuota();
+        await this.resolveAttachments(body.attachments);
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          return quotaExceededResponse(error);
+        }
+        if (error instanceof BranchError || error instanceof AttachmentError) {
+          return Response.json({ error: error.message }, { status: 400 });
+        }
+        if (error instanceof ToolApprovalError) {
+          return Response.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+      }
+
+      return streamSse(async (emit) => {
+        await this.runChatRequest(body, emit);
+      });
+    }
+
+    // Handle listing tool calls awaiting approval
+    if (path === "/approvals" && request.method === "GET") {
+      return Response.json({ approvals: this.listPendingToolCalls() });
+    }
+
+    // Handle approving or rejecting a pending tool call, streaming the resumed turn
+    if (path.startsWith("/approvals/") && request.method === "POST") {
+      const toolCallId = decodeURIComponent(path.replace("/approvals/", ""));
+      const body = await request.json() as { approved?: boolean };
+
+      try {
+        if (!this.listPendingToolCalls().some((call) => call.toolCallId === toolCallId)) {
+          throw new ToolApprovalError(`No tool call ${toolCallId} is awaiting approval`, 404);
+        }
+        await this.assertWithinQuota();
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          return quotaExceededResponse(error);
+        }
+        if (error instanceof ToolApprovalError) {
+          return Response.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+      }
+
+      return streamSse(async (emit) => {
+        await this.resolveToolCall(toolCallId, body.approved === true, emit);
+      });
     }
 
     // Handle thread loading
@@ -596,11 +1857,25 @@ Always prioritize user-centered design principles and maintain consistency with
       });
     }
 
+    // Handle MCP connection status
+    if (path === "/mcp/status" && request.method === "GET") {
+      await this.connectMcpServers();
+      return Response.json({ servers: this.getMcpStatus() });
+    }
+
+    // Handle backfilling D1 from the DO cache
+    if (path === "/reconcile" && request.method === "POST") {
+      const result = await this.reconcileThreads();
+      return Response.json(result);
+    }
+
     // Handle thread deletion (cleanup internal storage)
     if (path === "/delete" && request.method === "POST") {
       // Clear agent's internal storage
-      this.sql`DELETE FROM agent_messages WHERE thread_id = ${this.state.threadId}`;
-      this.sql`DELETE FROM agent_threads WHERE id = ${this.state.threadId}`;
+      // The thread may not be loaded, so go by the agent's name rather than its state
+      this.sql`DELETE FROM agent_messages WHERE thread_id = ${this.name}`;
+      this.sql`DELETE FROM agent_threads WHERE id = ${this.name}`;
+      this.sql`DELETE FROM agent_pending_tool_calls WHERE thread_id = ${this.name}`;
 
       // Reset state
       this.setState({
@@ -0,0 +1,43 @@
+/**
+ * A tool call the model requested that waits for the user's approval.
+ * The turn that requested it is paused until every pending call of the same
+ * assistant message has been approved or rejected.
+ */
+export interface PendingToolCall {
+  toolCallId: string;
+  /** Namespaced tool name, e.g. `stitch__generate_screen` */
+  toolName: string;
+  /** JSON-encoded arguments proposed by the model */
+  arguments: string;
+  /** Assistant message that requested the call */
+  messageId: string;
+  createdAt: number;
+}
+
+/**
+ * Tool result content recorded when the user rejects a call
+ */
+export const REJECTED_TOOL_RESULT = JSON.stringify({
+  error: "The user rejected this tool call. Do not retry it unless they ask you to.",
+});
+
+/**
+ * Tool result content recorded when a tool's policy denies it
+ */
+export function deniedToolResult(toolName: string): string {
+  return JSON.stringify({ error: `Tool ${toolName} is not allowed` });
+}
+
+/**
+ * Thrown when an approval targets no pending call (404), or when a new turn
+ * is started while a call still awaits approval (409)
+ */
+export class ToolApprovalError extends Error {
+  constructor(
+    message: string,
+    readonly status: 404 | 409
+  ) {
+    super(message);
+    this.name = "ToolApprovalError";
+  }
+}
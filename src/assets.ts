@@ -0,0 +1,365 @@
+/**
+ * Path the Worker serves stored assets from, followed by the asset ID
+ */
+export const ASSET_ROUTE_PREFIX = "/api/assets/";
+
+/**
+ * Types of files users can attach to their messages
+ */
+export const ATTACHMENT_MIME_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+];
+
+/**
+ * Image types served inline from the app's origin. SVG is left out, as it
+ * can carry scripts.
+ */
+export const INLINE_ASSET_MIME_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp", "image/avif"];
+
+/**
+ * Default size limit of a single attachment
+ */
+const DEFAULT_ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Where an asset came from: a tool result, or a file the user uploaded
+ */
+export type AssetSource = "tool" | "upload";
+
+/**
+ * Binary content kept in R2, owned by the thread it was produced in
+ */
+export interface Asset {
+  id: string;
+  thread_id: string;
+  mime_type: string;
+  size: number;
+  source: AssetSource;
+  /** Original file name of an upload */
+  name: string | null;
+  created_at: number;
+}
+
+/**
+ * A file attached to a user message, as stored in the message's metadata
+ */
+export interface MessageAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Thrown when a chat request references attachments the thread cannot use
+ */
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+/**
+ * MCP image content block, inline or replaced by a stored asset
+ */
+interface ImageBlock {
+  type: "image";
+  mimeType: string;
+  data?: string;
+  assetId?: string;
+  url?: string;
+}
+
+/**
+ * MCP embedded resource block; binary resources carry base64 `blob` data
+ */
+interface ResourceBlock {
+  type: "resource";
+  resource: {
+    uri: string;
+    mimeType?: string;
+    text?: string;
+    blob?: string;
+    assetId?: string;
+    url?: string;
+  };
+}
+
+/**
+ * Read the attachment size limit from the environment
+ */
+export function getAttachmentMaxBytes(env: { ATTACHMENT_MAX_BYTES?: string }): number {
+  const maxBytes = Number(env.ATTACHMENT_MAX_BYTES);
+  return maxBytes > 0 ? maxBytes : DEFAULT_ATTACHMENT_MAX_BYTES;
+}
+
+/**
+ * URL the frontend loads an asset from
+ */
+export function getAssetUrl(assetId: string): string {
+  return `${ASSET_ROUTE_PREFIX}${assetId}`;
+}
+
+/**
+ * Headers for serving an asset from the app's origin. Assets hold whatever a
+ * tool or user provided, so only images of the inline types display in the
+ * browser; anything else, such as an HTML resource, downloads as a
+ * sandboxed file that cannot run scripts as the app.
+ */
+export function getAssetResponseHeaders(asset: Asset, cacheControl: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": asset.mime_type,
+    "Content-Length": String(asset.size),
+    "Cache-Control": cacheControl,
+    "X-Content-Type-Options": "nosniff",
+  };
+
+  if (!INLINE_ASSET_MIME_TYPES.includes(asset.mime_type.toLowerCase())) {
+    const fileName = (asset.name ?? asset.id).replace(/[^\w. -]/g, "_");
+    headers["Content-Disposition"] = `attachment; filename="${fileName}"`;
+    headers["Content-Security-Policy"] = "sandbox";
+  }
+  return headers;
+}
+
+function decodeBase64(data: string): Uint8Array {
+  return Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Encode binary content as base64, e.g. for data URLs
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * The content blocks of a stored tool result, or none if it has no content list
+ */
+function getContentBlocks(toolResult: string): (ImageBlock | ResourceBlock)[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(toolResult);
+  } catch {
+    return [];
+  }
+  const content = (parsed as { content?: unknown } | null)?.content;
+  return Array.isArray(content) ? content : [];
+}
+
+/**
+ * The IDs of the image assets referenced by a stored tool result
+ */
+export function getImageAssetIds(toolResult: string): string[] {
+  return getContentBlocks(toolResult).flatMap((block) => {
+    if (block?.type === "image" && block.assetId) {
+      return [block.assetId];
+    }
+    if (block?.type === "resource" && block.resource?.assetId && block.resource.mimeType?.startsWith("image/")) {
+      return [block.resource.assetId];
+    }
+    return [];
+  });
+}
+
+/**
+ * The IDs of all assets referenced by a stored tool result
+ */
+export function getToolResultAssetIds(toolResult: string): string[] {
+  return getContentBlocks(toolResult).flatMap((block) => {
+    if (block?.type === "image" && typeof block.assetId === "string") {
+      return [block.assetId];
+    }
+    if (block?.type === "resource" && typeof block.resource?.assetId === "string") {
+      return [block.resource.assetId];
+    }
+    return [];
+  });
+}
+
+/**
+ * Asset metadata in D1 with the content in an R2 bucket, keyed by asset ID
+ */
+export class AssetStore {
+  constructor(
+    private readonly db: D1Database,
+    private readonly bucket: R2Bucket
+  ) {}
+
+  /**
+   * Store content for a thread and record its metadata
+   */
+  async putAsset(input: {
+    threadId: string;
+    mimeType: string;
+    data: Uint8Array | ArrayBuffer;
+    source: AssetSource;
+    name?: string;
+  }): Promise<Asset> {
+    const asset: Asset = {
+      id: crypto.randomUUID(),
+      thread_id: input.threadId,
+      mime_type: input.mimeType,
+      size: input.data.byteLength,
+      source: input.source,
+      name: input.name ?? null,
+      created_at: Math.floor(Date.now() / 1000),
+    };
+
+    await this.bucket.put(asset.id, input.data, { httpMetadata: { contentType: asset.mime_type } });
+    await this.db
+      .prepare(
+        "INSERT INTO assets (id, thread_id, mime_type, size, source, name, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)"
+      )
+      .bind(asset.id, asset.thread_id, asset.mime_type, asset.size, asset.source, asset.name, asset.created_at)
+      .run();
+
+    return asset;
+  }
+
+  /**
+   * Get an asset's metadata
+   */
+  async getAsset(assetId: string): Promise<Asset | null> {
+    return this.db.prepare("SELECT * FROM assets WHERE id = ?").bind(assetId).first<Asset>();
+  }
+
+  /**
+   * Read an asset's content, or null if it is missing from the bucket
+   */
+  async getContent(assetId: string): Promise<R2ObjectBody | null> {
+    return this.bucket.get(assetId);
+  }
+
+  /**
+   * Get an asset's metadata if it belongs to one of a user's threads
+   */
+  async getOwnedAsset(ownerId: string, assetId: string): Promise<Asset | null> {
+    return this.db
+      .prepare(
+        "SELECT assets.* FROM assets JOIN threads ON threads.id = assets.thread_id " +
+          "WHERE assets.id = ? AND threads.owner_id = ?"
+      )
+      .bind(assetId, ownerId)
+      .first<Asset>();
+  }
+
+  /**
+   * Read a thread's asset as a data URL, e.g. for model inputs. Returns null
+   * if the asset belongs to another thread or its content is missing.
+   */
+  async getDataUrl(threadId: string, assetId: string): Promise<string | null> {
+    const asset = await this.getAsset(assetId);
+    if (!asset || asset.thread_id !== threadId) {
+      return null;
+    }
+    const content = await this.bucket.get(assetId);
+    if (!content) {
+      return null;
+    }
+    return `data:${asset.mime_type};base64,${encodeBase64(new Uint8Array(await content.arrayBuffer()))}`;
+  }
+
+  /**
+   * Copy an asset's content into another thread as a new asset, or return
+   * null if its content is missing from the bucket
+   */
+  async copyAsset(asset: Asset, threadId: string): Promise<Asset | null> {
+    const content = await this.bucket.get(asset.id);
+    if (!content) {
+      return null;
+    }
+    return this.putAsset({
+      threadId,
+      mimeType: asset.mime_type,
+      data: await content.arrayBuffer(),
+      source: asset.source,
+      name: asset.name ?? undefined,
+    });
+  }
+
+  /**
+   * Look up the files a user uploaded to a thread, in the order given.
+   * Throws an AttachmentError if any is unknown or belongs elsewhere.
+   */
+  async resolveAttachments(threadId: string, assetIds: string[]): Promise<MessageAttachment[]> {
+    return Promise.all(
+      assetIds.map(async (assetId) => {
+        const asset = await this.getAsset(assetId);
+        if (!asset || asset.thread_id !== threadId || asset.source !== "upload") {
+          throw new AttachmentError(`Attachment ${assetId} not found in this thread`);
+        }
+        return { id: asset.id, name: asset.name ?? asset.id, mimeType: asset.mime_type, size: asset.size };
+      })
+    );
+  }
+
+  /**
+   * Remove a thread's assets from the bucket and D1
+   */
+  async deleteThreadAssets(threadId: string): Promise<void> {
+    const { results } = await this.db
+      .prepare("SELECT id FROM assets WHERE thread_id = ?")
+      .bind(threadId)
+      .all<{ id: string }>();
+
+    if (results.length > 0) {
+      await this.bucket.delete(results.map((row) => row.id));
+    }
+    await this.db.prepare("DELETE FROM assets WHERE thread_id = ?").bind(threadId).run();
+  }
+
+  /**
+   * Move the binary content of an MCP tool result into the bucket. Image
+   * blocks and binary resources keep their type and MIME type but carry an
+   * `assetId` and `url` instead of base64 data. Content that cannot be
+   * stored is dropped so it never reaches the model or D1 as text.
+   */
+  async extractToolResultAssets(threadId: string, toolResult: unknown): Promise<unknown> {
+    const content = (toolResult as { content?: unknown } | null)?.content;
+    if (!Array.isArray(content)) {
+      return toolResult;
+    }
+
+    const blocks = await Promise.all(
+      content.map(async (block: ImageBlock | ResourceBlock) => {
+        try {
+          if (block?.type === "image" && block.data) {
+            const { id } = await this.putAsset({
+              threadId,
+              mimeType: block.mimeType,
+              data: decodeBase64(block.data),
+              source: "tool",
+            });
+            return { type: "image", mimeType: block.mimeType, assetId: id, url: getAssetUrl(id) };
+          }
+          if (block?.type === "resource" && block.resource?.blob) {
+            const { blob, ...resource } = block.resource;
+            const { id } = await this.putAsset({
+              threadId,
+              mimeType: resource.mimeType || "application/octet-stream",
+              data: decodeBase64(blob),
+              source: "tool",
+            });
+            return { type: "resource", resource: { ...resource, assetId: id, url: getAssetUrl(id) } };
+          }
+        } catch (error) {
+          console.error("Failed to store tool result content:", error);
+          return { type: "text", text: "[binary content could not be stored]" };
+        }
+        return block;
+      })
+    );
+
+    return { ...(toolResult as object), content: blocks };
+  }
+}
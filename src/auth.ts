@@ -0,0 +1,204 @@
+import type { Context, MiddlewareHandler } from "hono";
+import { getCookie } from "hono/cookie";
+import type { Env } from "./agent";
+import { ThreadStore } from "./persistence";
+import { ProjectStore, type Project } from "./projects";
+
+/**
+ * Hono environment for authenticated API routes
+ */
+export type AppEnv = {
+  Bindings: Env;
+  Variables: { userId: string };
+};
+
+/**
+ * Name of the cookie holding the browser session token
+ */
+export const SESSION_COOKIE = "stitch_session";
+
+/**
+ * Default lifetime of issued tokens
+ */
+export const DEFAULT_TOKEN_TTL_SECONDS = 60 * 60 * 24 * 30;
+
+/**
+ * Claims carried by a signed token
+ */
+export interface TokenClaims {
+  sub: string;
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode bytes as unpadded base64url, e.g. for tokens in URLs
+ */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+/**
+ * Sign claims into a `payload.signature` token using HMAC-SHA256
+ */
+export async function signToken(secret: string, claims: TokenClaims): Promise<string> {
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign("HMAC", await importKey(secret), encoder.encode(payload));
+  return `${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a token's signature and expiry; returns its claims or null
+ */
+export async function verifyToken(secret: string, token: string): Promise<TokenClaims | null> {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await importKey(secret),
+      base64UrlDecode(signature),
+      encoder.encode(payload)
+    );
+    if (!valid) {
+      return null;
+    }
+
+    const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload))) as TokenClaims;
+    if (typeof claims.sub !== "string" || !claims.sub || claims.exp * 1000 <= Date.now()) {
+      return null;
+    }
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compare two secrets without leaking timing information
+ */
+export function secretsMatch(a: string, b: string): boolean {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  if (left.byteLength !== right.byteLength) {
+    return false;
+  }
+  return crypto.subtle.timingSafeEqual(left, right);
+}
+
+/**
+ * Read the caller's token from the Authorization header or the session cookie
+ */
+function getRequestToken(c: Context<AppEnv>): string | null {
+  const header = c.req.header("Authorization");
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim();
+  }
+  return getCookie(c, SESSION_COOKIE) ?? null;
+}
+
+/**
+ * Require a valid token on every API route except the listed public paths;
+ * a path ending in `/*` makes everything under it public.
+ * The verified user ID is exposed to handlers as `c.get("userId")`.
+ */
+export function requireAuth(publicPaths: string[]): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const isPublic = publicPaths.some((path) =>
+      path.endsWith("/*") ? c.req.path.startsWith(path.slice(0, -1)) : c.req.path === path
+    );
+    if (isPublic) {
+      return next();
+    }
+
+    if (!c.env.AUTH_SECRET) {
+      console.error("AUTH_SECRET environment variable is not set");
+      return c.json({ error: "Authentication is not configured" }, 500);
+    }
+
+    const token = getRequestToken(c);
+    const claims = token ? await verifyToken(c.env.AUTH_SECRET, token) : null;
+
+    if (!claims) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    c.set("userId", claims.sub);
+    return next();
+  };
+}
+
+/**
+ * Whether a user is one of the administrators listed in `ADMIN_USER_IDS`
+ */
+export function isAdmin(env: Env, userId: string): boolean {
+  return (env.ADMIN_USER_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .some((id) => id !== "" && id === userId);
+}
+
+/**
+ * Require the caller to be an administrator, for routes that change
+ * configuration shared by every user
+ */
+export function requireAdmin(): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    if (!isAdmin(c.env, c.get("userId"))) {
+      return c.json({ error: "Forbidden" }, 403);
+    }
+    return next();
+  };
+}
+
+/**
+ * Check that the caller owns a thread.
+ * Returns an error response to send, or null when access is allowed.
+ */
+export async function authorizeThread(
+  c: Context<AppEnv>,
+  threadId: string
+): Promise<Response | null> {
+  const thread = await new ThreadStore(c.env.DB).getThread(threadId);
+
+  if (!thread) {
+    return c.json({ error: "Thread not found" }, 404);
+  }
+  if (thread.owner_id !== c.get("userId")) {
+    return c.json({ error: "Forbidden" }, 403);
+  }
+  return null;
+}
+
+/**
+ * Get a project the caller owns, or null if there is none.
+ * Other users' projects are treated as missing.
+ */
+export async function getOwnedProject(c: Context<AppEnv>, projectId: string): Promise<Project | null> {
+  const project = await new ProjectStore(c.env.DB).getProject(projectId);
+  return project?.owner_id === c.get("userId") ? project : null;
+}
@@ -0,0 +1,55 @@
+import type { Message } from "./agent";
+
+/**
+ * The message a thread's latest branch ends in: the most recently written one.
+ * Messages are expected in insertion order.
+ */
+export function getLatestLeafId(messages: Message[]): string | null {
+  return messages.at(-1)?.id ?? null;
+}
+
+/**
+ * The most recently written message on a branch passing through `messageId`,
+ * which is `messageId` itself when nothing follows it yet.
+ * Messages are expected in insertion order.
+ */
+export function getLatestDescendantId(messages: Message[], messageId: string): string | null {
+  const descendants = new Set([messageId]);
+  let latest: string | null = messages.some((message) => message.id === messageId) ? messageId : null;
+
+  for (const message of messages) {
+    if (message.parentId && descendants.has(message.parentId)) {
+      descendants.add(message.id);
+      latest = message.id;
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Walk parent links from `leafId` back to the root and return that branch in
+ * conversation order. A null leaf is the empty branch before the first message.
+ */
+export function getBranch(messages: Message[], leafId: string | null): Message[] {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const branch: Message[] = [];
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current) {
+    branch.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return branch.reverse();
+}
+
+/**
+ * Thrown when an edit or regeneration targets a message outside the thread
+ */
+export class BranchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BranchError";
+  }
+}
@@ -0,0 +1,165 @@
+import type { Message } from "./agent";
+import type { ChatMessageParam } from "./providers";
+
+/**
+ * Rough characters-per-token ratio for English text and JSON
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Fixed per-message overhead for role and formatting tokens
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Estimate the token count of a string
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate how many prompt tokens a message will cost, including tool calls
+ */
+export function estimateTokens(message: Message): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTextTokens(message.content);
+
+  for (const call of message.toolCalls ?? []) {
+    tokens += estimateTextTokens(call.function.name) + estimateTextTokens(call.function.arguments);
+  }
+
+  return tokens;
+}
+
+/**
+ * Estimate the total token count of a list of messages
+ */
+export function estimateHistoryTokens(messages: Message[]): number {
+  return messages.reduce((total, message) => total + estimateTokens(message), 0);
+}
+
+/**
+ * Trim text to roughly `maxTokens`, keeping the head and tail.
+ * Used for tool results so the model still sees their structure.
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) {
+    return text;
+  }
+
+  const head = Math.floor(maxChars * 0.75);
+  const tail = maxChars - head;
+  const omitted = text.length - head - tail;
+  return `${text.slice(0, head)}\n…[${omitted} characters truncated]…\n${text.slice(text.length - tail)}`;
+}
+
+/**
+ * Whether a message is a rolling summary rather than part of the conversation
+ */
+export function isSummary(message: Message): boolean {
+  return message.metadata?.type === "summary";
+}
+
+/**
+ * The part of the history that still goes to the model verbatim:
+ * the latest summary (if any) and every message it does not cover
+ */
+export function selectActiveWindow(history: Message[]): {
+  summary: Message | null;
+  messages: Message[];
+} {
+  const conversation = history.filter((message) => !isSummary(message));
+  const summary = history.filter(isSummary).at(-1) ?? null;
+
+  if (!summary) {
+    return { summary: null, messages: conversation };
+  }
+
+  const boundary = conversation.findIndex(
+    (message) => message.id === summary.metadata?.summarizedUntil
+  );
+  return { summary, messages: conversation.slice(boundary + 1) };
+}
+
+/**
+ * Decide whether the active window should be compacted.
+ *
+ * Returns the messages to fold into a new summary, cut at a user message so
+ * assistant tool calls and their tool results always stay together, or null
+ * when the window is under the threshold.
+ */
+export function planSummary(
+  history: Message[],
+  thresholdTokens: number,
+  keepRecentTokens: number
+): { previousSummary: Message | null; toSummarize: Message[] } | null {
+  const { summary, messages } = selectActiveWindow(history);
+
+  if (estimateHistoryTokens(messages) <= thresholdTokens) {
+    return null;
+  }
+
+  // Walk back from the end, keeping whole turns while they fit the budget
+  let cut = messages.length;
+  let kept = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    kept += estimateTokens(messages[i]);
+    if (messages[i].role === "user") {
+      if (kept > keepRecentTokens && cut < messages.length) {
+        break;
+      }
+      cut = i;
+    }
+  }
+
+  if (cut === 0) {
+    return null;
+  }
+
+  return { previousSummary: summary, toSummarize: messages.slice(0, cut) };
+}
+
+/**
+ * Render messages as a plain-text transcript for summarization prompts
+ */
+export function formatTranscript(messages: Message[], maxToolTokens: number): string {
+  return messages
+    .map((message) => {
+      if (message.role === "tool") {
+        return `TOOL RESULT: ${truncateToTokens(message.content, maxToolTokens)}`;
+      }
+      const calls = (message.toolCalls ?? [])
+        .map((call) => `\n[called ${call.function.name}(${call.function.arguments})]`)
+        .join("");
+      return `${message.role.toUpperCase()}: ${message.content}${calls}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Build the request asking the model to summarize older turns
+ */
+export function buildSummaryRequest(
+  previousSummary: Message | null,
+  messages: Message[],
+  maxToolTokens: number
+): ChatMessageParam[] {
+  const transcript = formatTranscript(messages, maxToolTokens);
+
+  return [
+    {
+      role: "system",
+      content:
+        "Summarize the earlier part of a UX design conversation so it can replace the original messages. " +
+        "Preserve design decisions, requirements, constraints, open questions and any identifiers " +
+        "(project IDs, screen names, colors, sizes). Be concise and factual.",
+    },
+    {
+      role: "user",
+      content: previousSummary
+        ? `Existing summary:\n${previousSummary.content}\n\nNew messages to fold in:\n${transcript}`
+        : transcript,
+    },
+  ];
+}
@@ -0,0 +1,302 @@
+import { z } from "zod/v4";
+import { defineLocalTool } from "./local-tools";
+import { ThreadStore } from "./persistence";
+
+/**
+ * Longest title accepted for a decision record
+ */
+export const MAX_DECISION_TITLE_LENGTH = 200;
+
+/**
+ * Longest text accepted in a decision record's other fields
+ */
+export const MAX_DECISION_TEXT_LENGTH = 4000;
+
+/**
+ * Most options or tags accepted on a decision record
+ */
+const MAX_DECISION_LIST_ITEMS = 20;
+
+/**
+ * A required text field of a decision record, trimmed
+ */
+const decisionText = (limit: number) => z.string().trim().min(1).max(limit);
+
+/**
+ * The fields of a decision record, as the agent provides them and imports
+ * carry them
+ */
+export const decisionInputSchema = z.object({
+  title: decisionText(MAX_DECISION_TITLE_LENGTH).describe("Short name of the decision, e.g. 'Use an 8px spacing grid'"),
+  context: decisionText(MAX_DECISION_TEXT_LENGTH).describe("The problem or constraints that called for a decision"),
+  options: z
+    .array(decisionText(MAX_DECISION_TEXT_LENGTH))
+    .max(MAX_DECISION_LIST_ITEMS)
+    .default([])
+    .describe("Alternatives that were considered, including the chosen one"),
+  decision: decisionText(MAX_DECISION_TEXT_LENGTH).describe("What was decided"),
+  rationale: decisionText(MAX_DECISION_TEXT_LENGTH).describe("Why this option was chosen over the others"),
+  tags: z
+    .array(z.string().trim().toLowerCase().min(1).max(50))
+    .max(MAX_DECISION_LIST_ITEMS)
+    .default([])
+    .describe("Short lowercase labels such as 'color', 'typography' or 'navigation'"),
+});
+
+/**
+ * Formats the decision log can be exported in
+ */
+export const DECISION_EXPORT_FORMATS = ["markdown", "json"] as const;
+
+export type DecisionExportFormat = (typeof DECISION_EXPORT_FORMATS)[number];
+
+/**
+ * A design decision recorded ADR-style by the agent. Records belong to the
+ * thread owner and link to the assistant message whose tool call made them.
+ */
+export interface Decision {
+  id: string;
+  owner_id: string;
+  thread_id: string;
+  /** Project of the thread the decision was recorded in */
+  project_id: string | null;
+  /** Assistant message whose `record_decision` call produced the record */
+  message_id: string;
+  title: string;
+  /** The problem or forces that called for a decision */
+  context: string;
+  /** Alternatives that were considered, including the chosen one */
+  options: string[];
+  decision: string;
+  rationale: string;
+  /** Lowercase labels for filtering, e.g. "color" or "navigation" */
+  tags: string[];
+  created_at: number;
+}
+
+interface DecisionRow extends Omit<Decision, "options" | "tags"> {
+  options: string;
+  tags: string;
+}
+
+/**
+ * Fields of a decision record, as the agent provides them
+ */
+export interface DecisionInput {
+  title: string;
+  context: string;
+  options: string[];
+  decision: string;
+  rationale: string;
+  tags: string[];
+}
+
+/**
+ * Filters for listing decisions; all of them are optional
+ */
+export interface DecisionFilter {
+  threadId?: string;
+  projectId?: string;
+  tag?: string;
+  /** Case-insensitive text matched against the title, decision and rationale */
+  query?: string;
+}
+
+/**
+ * Escape the LIKE wildcards in text so it matches literally, with `\` as the
+ * escape character
+ */
+function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function rowToDecision(row: DecisionRow): Decision {
+  return { ...row, options: JSON.parse(row.options), tags: JSON.parse(row.tags) };
+}
+
+/**
+ * The ADR fields of a decision record and the message that recorded it, as
+ * thread exports and share links include them
+ */
+export type ExportedDecision = Pick<
+  Decision,
+  "message_id" | "title" | "context" | "options" | "decision" | "rationale" | "tags" | "created_at"
+>;
+
+/**
+ * Keep only the exported fields of a decision record
+ */
+export function toExportedDecision(record: Decision): ExportedDecision {
+  const { message_id, title, context, options, decision, rationale, tags, created_at } = record;
+  return { message_id, title, context, options, decision, rationale, tags, created_at };
+}
+
+/**
+ * Render decision records as Markdown ADRs in the order given, titled with
+ * headings of `level` and sectioned one level below
+ */
+export function renderDecisionRecords(decisions: ExportedDecision[], level: number): string[] {
+  const heading = "#".repeat(level);
+  const section = "#".repeat(level + 1);
+  const lines: string[] = [];
+
+  decisions.forEach((record, index) => {
+    lines.push(
+      `${heading} ${index + 1}. ${record.title}`,
+      "",
+      `_Recorded ${new Date(record.created_at * 1000).toISOString()}_`,
+      ""
+    );
+    if (record.tags.length > 0) {
+      lines.push(`Tags: ${record.tags.map((tag) => `\`${tag}\``).join(", ")}`, "");
+    }
+    lines.push(`${section} Context`, "", record.context, "");
+    if (record.options.length > 0) {
+      lines.push(`${section} Options considered`, "", ...record.options.map((option) => `- ${option}`), "");
+    }
+    lines.push(`${section} Decision`, "", record.decision, "", `${section} Rationale`, "", record.rationale, "");
+  });
+
+  return lines;
+}
+
+/**
+ * Render decision records as a Markdown decision log, one ADR per record,
+ * oldest first
+ */
+export function renderDecisionLog(decisions: Decision[]): string {
+  const lines = ["# Design decision log", ""];
+  if (decisions.length === 0) {
+    lines.push("_No decisions recorded._", "");
+  }
+  lines.push(...renderDecisionRecords([...decisions].reverse(), 2));
+
+  return lines.join("\n");
+}
+
+/**
+ * D1 store of decision records. Ownership is checked by callers.
+ */
+export class DecisionStore {
+  constructor(private readonly db: D1Database) {}
+
+  /**
+   * Record a decision made in a thread
+   */
+  async recordDecision(input: {
+    ownerId: string;
+    threadId: string;
+    projectId: string | null;
+    messageId: string;
+    decision: DecisionInput;
+    /** Seconds since the epoch, for records carried over by an import; defaults to now */
+    createdAt?: number;
+  }): Promise<Decision> {
+    const record: Decision = {
+      id: crypto.randomUUID(),
+      owner_id: input.ownerId,
+      thread_id: input.threadId,
+      project_id: input.projectId,
+      message_id: input.messageId,
+      ...input.decision,
+      created_at: input.createdAt ?? Math.floor(Date.now() / 1000),
+    };
+
+    await this.db
+      .prepare(
+        `INSERT INTO decisions (id, owner_id, thread_id, project_id, message_id, title, context, options, decision, rationale, tags, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        record.id,
+        record.owner_id,
+        record.thread_id,
+        record.project_id,
+        record.message_id,
+        record.title,
+        record.context,
+        JSON.stringify(record.options),
+        record.decision,
+        record.rationale,
+        JSON.stringify(record.tags),
+        record.created_at
+      )
+      .run();
+
+    return record;
+  }
+
+  /**
+   * List a user's decisions, newest first, narrowed by the filter
+   */
+  async listDecisions(ownerId: string, filter: DecisionFilter = {}): Promise<Decision[]> {
+    const conditions = ["owner_id = ?"];
+    const params: unknown[] = [ownerId];
+
+    if (filter.threadId) {
+      conditions.push("thread_id = ?");
+      params.push(filter.threadId);
+    }
+    if (filter.projectId) {
+      conditions.push("project_id = ?");
+      params.push(filter.projectId);
+    }
+    if (filter.tag) {
+      conditions.push("EXISTS (SELECT 1 FROM json_each(decisions.tags) WHERE value = ?)");
+      params.push(filter.tag.trim().toLowerCase());
+    }
+    if (filter.query) {
+      conditions.push("(title LIKE ? ESCAPE '\\' OR decision LIKE ? ESCAPE '\\' OR rationale LIKE ? ESCAPE '\\')");
+      const pattern = `%${escapeLikePattern(filter.query.trim())}%`;
+      params.push(pattern, pattern, pattern);
+    }
+
+    const { results } = await this.db
+      .prepare(`SELECT * FROM decisions WHERE ${conditions.join(" AND ")} ORDER BY created_at DESC, rowid DESC`)
+      .bind(...params)
+      .all<DecisionRow>();
+    return results.map(rowToDecision);
+  }
+
+  /**
+   * Get a single decision by ID
+   */
+  async getDecision(decisionId: string): Promise<Decision | null> {
+    const row = await this.db.prepare("SELECT * FROM decisions WHERE id = ?").bind(decisionId).first<DecisionRow>();
+    return row ? rowToDecision(row) : null;
+  }
+
+  /**
+   * Delete a decision record
+   */
+  async deleteDecision(decisionId: string): Promise<void> {
+    await this.db.prepare("DELETE FROM decisions WHERE id = ?").bind(decisionId).run();
+  }
+}
+
+/**
+ * The built-in tool the agent records design decisions with. Records go to
+ * the thread owner's log, linked to the assistant message that made the call.
+ */
+export const recordDecisionTool = defineLocalTool({
+  name: "record_decision",
+  description:
+    "Record a design decision the user has agreed to, as an architecture decision record, so it can be " +
+    "reviewed and exported later. Call it once per decision, after the decision is made.",
+  schema: decisionInputSchema,
+  async run(args, { db, threadId, messageId }) {
+    const thread = await new ThreadStore(db).getThread(threadId);
+    if (!thread?.owner_id) {
+      throw new Error("Decisions can only be recorded in a thread with an owner");
+    }
+
+    const record = await new DecisionStore(db).recordDecision({
+      ownerId: thread.owner_id,
+      threadId,
+      projectId: thread.project_id,
+      messageId,
+      decision: { ...args, tags: [...new Set(args.tags)] },
+    });
+    return { recorded: true, decisionId: record.id };
+  },
+});
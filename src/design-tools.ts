@@ -0,0 +1,260 @@
+import { z } from "zod/v4";
+import { defineLocalTool } from "./local-tools";
+
+/**
+ * Root font size rem values are computed against, in pixels
+ */
+const DEFAULT_ROOT_SIZE = 16;
+
+/**
+ * Named type scale ratios, from the classic musical intervals
+ */
+export const TYPE_SCALE_RATIOS = {
+  "minor-second": 1.067,
+  "major-second": 1.125,
+  "minor-third": 1.2,
+  "major-third": 1.25,
+  "perfect-fourth": 1.333,
+  "augmented-fourth": 1.414,
+  "perfect-fifth": 1.5,
+  "golden-ratio": 1.618,
+} as const;
+
+/**
+ * Reference design tokens (Tailwind CSS defaults) the token lookup searches
+ */
+export const REFERENCE_DESIGN_TOKENS: Record<string, string> = {
+  "color.gray.100": "#f3f4f6",
+  "color.gray.300": "#d1d5db",
+  "color.gray.500": "#6b7280",
+  "color.gray.700": "#374151",
+  "color.gray.900": "#111827",
+  "color.blue.100": "#dbeafe",
+  "color.blue.300": "#93c5fd",
+  "color.blue.500": "#3b82f6",
+  "color.blue.700": "#1d4ed8",
+  "color.blue.900": "#1e3a8a",
+  "color.red.100": "#fee2e2",
+  "color.red.300": "#fca5a5",
+  "color.red.500": "#ef4444",
+  "color.red.700": "#b91c1c",
+  "color.red.900": "#7f1d1d",
+  "color.green.100": "#dcfce7",
+  "color.green.300": "#86efac",
+  "color.green.500": "#22c55e",
+  "color.green.700": "#15803d",
+  "color.green.900": "#14532d",
+  "color.amber.100": "#fef3c7",
+  "color.amber.300": "#fcd34d",
+  "color.amber.500": "#f59e0b",
+  "color.amber.700": "#b45309",
+  "color.amber.900": "#78350f",
+  "radius.none": "0px",
+  "radius.sm": "0.125rem",
+  "radius.md": "0.375rem",
+  "radius.lg": "0.5rem",
+  "radius.xl": "0.75rem",
+  "radius.full": "9999px",
+  "font.size.xs": "0.75rem",
+  "font.size.sm": "0.875rem",
+  "font.size.base": "1rem",
+  "font.size.lg": "1.125rem",
+  "font.size.xl": "1.25rem",
+  "font.size.2xl": "1.5rem",
+  "font.size.3xl": "1.875rem",
+  "font.size.4xl": "2.25rem",
+  "font.weight.normal": "400",
+  "font.weight.medium": "500",
+  "font.weight.semibold": "600",
+  "font.weight.bold": "700",
+  "shadow.sm": "0 1px 2px 0 rgb(0 0 0 / 0.05)",
+  "shadow.md": "0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)",
+  "shadow.lg": "0 10px 15px -3px rgb(0 0 0 / 0.1), 0 4px 6px -4px rgb(0 0 0 / 0.1)",
+  "breakpoint.sm": "640px",
+  "breakpoint.md": "768px",
+  "breakpoint.lg": "1024px",
+  "breakpoint.xl": "1280px",
+  "breakpoint.2xl": "1536px",
+};
+
+const HEX_COLOR_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * A #RGB or #RRGGBB tool argument
+ */
+export const hexColor = z.string().trim().regex(HEX_COLOR_PATTERN, "Expected a hex color such as #1A2B3C or #FFF");
+
+/**
+ * Round a value for reporting, to two decimal places by default
+ */
+export function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Parse a #RGB or #RRGGBB color into its 0-255 channels
+ */
+export function parseHexColor(color: string): [number, number, number] {
+  const match = HEX_COLOR_PATTERN.exec(color.trim());
+  if (!match) {
+    throw new Error(`Invalid hex color: ${color}`);
+  }
+  const hex = match[1].length === 3 ? [...match[1]].map((digit) => digit + digit).join("") : match[1];
+  return [0, 2, 4].map((offset) => parseInt(hex.slice(offset, offset + 2), 16)) as [number, number, number];
+}
+
+/**
+ * A color's channels in linear light, from 0 to 1, with the sRGB transfer
+ * function WCAG 2 uses
+ */
+export function toLinearRgb(color: string): [number, number, number] {
+  return parseHexColor(color).map((channel) => {
+    const srgb = channel / 255;
+    return srgb <= 0.03928 ? srgb / 12.92 : ((srgb + 0.055) / 1.055) ** 2.4;
+  }) as [number, number, number];
+}
+
+/**
+ * Relative luminance of a color, as WCAG 2 defines it
+ */
+export function relativeLuminance(color: string): number {
+  const [r, g, b] = toLinearRgb(color);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * WCAG 2 contrast ratio between two colors, from 1 to 21
+ */
+export function contrastRatio(foreground: string, background: string): number {
+  const [lighter, darker] = [relativeLuminance(foreground), relativeLuminance(background)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Which WCAG 2 contrast requirements a ratio meets
+ */
+export function getContrastLevels(ratio: number) {
+  return {
+    aa: { normalText: ratio >= 4.5, largeText: ratio >= 3 },
+    aaa: { normalText: ratio >= 7, largeText: ratio >= 4.5 },
+    /** Non-text contrast for UI components and graphical objects (1.4.11) */
+    uiComponents: ratio >= 3,
+  };
+}
+
+/**
+ * Name of a type scale step, Tailwind style: base, then lg, xl, 2xl... up
+ * and sm, xs, 2xs... down
+ */
+function getStepName(step: number): string {
+  if (step === 0) return "base";
+  if (step === 1) return "lg";
+  if (step === -1) return "sm";
+  const size = Math.abs(step) - 1;
+  const suffix = step > 0 ? "xl" : "xs";
+  return size === 1 ? suffix : `${size}${suffix}`;
+}
+
+export const checkColorContrast = defineLocalTool({
+  name: "check_color_contrast",
+  description:
+    "Compute the WCAG 2 contrast ratio between a text or foreground color and its background, " +
+    "and which AA and AAA requirements it meets.",
+  schema: z.object({
+    foreground: hexColor.describe("Text or foreground color, e.g. #1F2937"),
+    background: hexColor.describe("Background color, e.g. #FFFFFF"),
+  }),
+  run({ foreground, background }) {
+    const ratio = contrastRatio(foreground, background);
+    return { foreground, background, ratio: round(ratio), ...getContrastLevels(ratio) };
+  },
+});
+
+export const generateTypeScale = defineLocalTool({
+  name: "generate_type_scale",
+  description:
+    "Generate a modular type scale from a base font size and a ratio, with pixel and rem sizes for each step.",
+  schema: z.object({
+    baseSize: z.number().min(8).max(32).default(16).describe("Body text size in pixels"),
+    ratio: z
+      .union([z.enum(Object.keys(TYPE_SCALE_RATIOS) as [keyof typeof TYPE_SCALE_RATIOS]), z.number().gt(1).max(3)])
+      .default("major-third")
+      .describe("Scale ratio, as a number such as 1.25 or a named interval such as major-third"),
+    stepsUp: z.number().int().min(0).max(10).default(5).describe("Steps larger than the base size"),
+    stepsDown: z.number().int().min(0).max(5).default(2).describe("Steps smaller than the base size"),
+  }),
+  run({ baseSize, ratio, stepsUp, stepsDown }) {
+    const factor = typeof ratio === "number" ? ratio : TYPE_SCALE_RATIOS[ratio];
+    const steps = [];
+    for (let step = stepsUp; step >= -stepsDown; step--) {
+      const px = baseSize * factor ** step;
+      steps.push({ step, name: getStepName(step), px: round(px), rem: round(px / DEFAULT_ROOT_SIZE, 3) });
+    }
+    return { baseSize, ratio: factor, steps };
+  },
+});
+
+export const calculateSpacingTokens = defineLocalTool({
+  name: "calculate_spacing_tokens",
+  description:
+    "Calculate a spacing scale as design tokens from a base unit, with pixel and rem values and CSS custom properties.",
+  schema: z.object({
+    baseUnit: z.number().min(1).max(32).default(8).describe("Grid unit in pixels, e.g. 4 or 8"),
+    multipliers: z
+      .array(z.number().min(0).max(64))
+      .min(1)
+      .max(24)
+      .default([0, 0.5, 1, 1.5, 2, 3, 4, 6, 8, 12, 16])
+      .describe("Multiples of the base unit to create tokens for"),
+    prefix: z
+      .string()
+      .regex(/^[a-z][a-z0-9-]*$/, "Expected a lowercase token prefix such as space")
+      .default("space")
+      .describe("Token name prefix"),
+  }),
+  run({ baseUnit, multipliers, prefix }) {
+    const tokens = [...new Set(multipliers)]
+      .sort((a, b) => a - b)
+      .map((multiplier) => {
+        const px = baseUnit * multiplier;
+        return {
+          name: `${prefix}-${String(multiplier).replace(".", "_")}`,
+          multiplier,
+          px: round(px),
+          rem: round(px / DEFAULT_ROOT_SIZE, 4),
+        };
+      });
+    const css = [":root {", ...tokens.map((token) => `  --${token.name}: ${token.rem}rem;`), "}"].join("\n");
+    return { baseUnit, tokens, css };
+  },
+});
+
+export const lookupDesignToken = defineLocalTool({
+  name: "lookup_design_token",
+  description:
+    "Look up reference design tokens (Tailwind CSS defaults) by name or prefix, e.g. color.blue.500, radius or font.size.",
+  schema: z.object({
+    query: z.string().trim().min(1).max(100).describe("Token name, or part of one"),
+    limit: z.number().int().min(1).max(50).default(20).describe("Most tokens to return"),
+  }),
+  run({ query, limit }) {
+    const needle = query.toLowerCase();
+    const names = Object.keys(REFERENCE_DESIGN_TOKENS);
+    const matches = names.includes(needle)
+      ? [needle]
+      : [
+          ...names.filter((name) => name.startsWith(needle)),
+          ...names.filter((name) => !name.startsWith(needle) && name.includes(needle)),
+        ];
+    return {
+      tokens: matches.slice(0, limit).map((name) => ({ name, value: REFERENCE_DESIGN_TOKENS[name] })),
+      total: matches.length,
+    };
+  },
+});
+
+/**
+ * Design calculation tools offered to the model in every thread
+ */
+export const DESIGN_TOOLS = [checkColorContrast, generateTypeScale, calculateSpacingTokens, lookupDesignToken];
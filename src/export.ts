@@ -0,0 +1,588 @@
+import type { Message, Thread } from "./agent";
+import { getToolResultAssetIds } from "./assets";
+import { getBranch, getLatestLeafId } from "./branches";
+import { isSummary } from "./context";
+import {
+  decisionInputSchema,
+  renderDecisionRecords,
+  toExportedDecision,
+  type Decision,
+  type ExportedDecision,
+} from "./decisions";
+import { parseThreadMetadata, rowToMessage, type MessageRow, type ThreadMetadata } from "./persistence";
+
+/**
+ * Formats a thread can be exported in
+ */
+export const EXPORT_FORMATS = ["markdown", "json", "html"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Version of the JSON export document; bumped when its shape changes
+ */
+export const THREAD_EXPORT_VERSION = 1;
+
+/**
+ * Most messages accepted in an imported thread
+ */
+export const MAX_IMPORT_MESSAGES = 2000;
+
+/**
+ * Thread metadata carried over on import. Server overrides, projects and
+ * other per-deployment settings stay behind.
+ */
+const IMPORTED_METADATA_KEYS = ["model", "personaId", "personaVersion", "activeLeafId", "summary", "summaryTurns"];
+
+const MESSAGE_ROLES: Message["role"][] = ["user", "assistant", "system", "tool"];
+
+/**
+ * A thread as exported in the JSON format. Messages include every branch, in
+ * the order they were written; the rendered formats show the active branch.
+ */
+export interface ThreadExport {
+  version: typeof THREAD_EXPORT_VERSION;
+  /** When the export was made, as an ISO 8601 timestamp */
+  exportedAt: string;
+  thread: {
+    id: string;
+    title: string | null;
+    /** Milliseconds since the epoch, like message timestamps */
+    createdAt: number;
+    metadata: ThreadMetadata;
+  };
+  messages: Message[];
+  /** Decision records made in the thread, oldest first */
+  decisions: ExportedDecision[];
+  /** Design notes remembered from the thread */
+  notes: string[];
+}
+
+/**
+ * Thrown when an imported document is not a valid thread export
+ */
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+/**
+ * Build the JSON export of a thread from its stored rows, its decision
+ * records as listed (newest first) and its remembered notes
+ */
+export function buildThreadExport(
+  thread: Thread,
+  rows: MessageRow[],
+  decisions: Decision[],
+  notes: string[]
+): ThreadExport {
+  return {
+    version: THREAD_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    thread: {
+      id: thread.id,
+      title: thread.title,
+      createdAt: thread.created_at * 1000,
+      metadata: parseThreadMetadata(thread.metadata),
+    },
+    messages: rows.map(rowToMessage),
+    decisions: [...decisions].reverse().map(toExportedDecision),
+    notes,
+  };
+}
+
+/**
+ * The messages of an export's active branch, without rolling summaries
+ */
+export function getActiveBranch(exported: ThreadExport): Message[] {
+  const { activeLeafId } = exported.thread.metadata;
+  const leafId =
+    activeLeafId && exported.messages.some((message) => message.id === activeLeafId)
+      ? activeLeafId
+      : getLatestLeafId(exported.messages);
+  return getBranch(exported.messages, leafId).filter((message) => !isSummary(message));
+}
+
+/**
+ * Name a tool message answers, from the assistant call with its ID
+ */
+function getToolName(messages: Message[], toolCallId: string | undefined): string {
+  for (const message of messages) {
+    const call = message.toolCalls?.find((candidate) => candidate.id === toolCallId);
+    if (call) {
+      return call.function.name;
+    }
+  }
+  return "tool";
+}
+
+/**
+ * Pretty-print JSON text, leaving anything that does not parse as it is
+ */
+function formatJson(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * A fence longer than any backtick run in `text`, so the text cannot close it
+ */
+function codeFence(text: string): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  return "`".repeat(longest + 1);
+}
+
+function codeBlock(text: string, language = ""): string {
+  const fence = codeFence(text);
+  return `${fence}${language}\n${text}\n${fence}`;
+}
+
+/**
+ * Render a thread's active branch as a Markdown document
+ */
+export function renderMarkdown(exported: ThreadExport): string {
+  const branch = getActiveBranch(exported);
+  const lines = [
+    `# ${exported.thread.title || "Untitled conversation"}`,
+    "",
+    `_Exported ${exported.exportedAt}_`,
+    "",
+  ];
+
+  if (exported.decisions.length > 0) {
+    lines.push("## Design decisions", "", ...renderDecisionRecords(exported.decisions, 3));
+  }
+  if (exported.notes.length > 0) {
+    lines.push("## Remembered design notes", "", ...exported.notes.map((note) => `- ${note}`), "");
+  }
+
+  lines.push("## Conversation", "");
+  for (const message of branch) {
+    if (message.role === "user") {
+      lines.push("### User", "", message.content);
+      for (const attachment of message.metadata?.attachments ?? []) {
+        lines.push("", `_Attached: ${attachment.name} (${attachment.mimeType})_`);
+      }
+    } else if (message.role === "assistant") {
+      lines.push("### Assistant");
+      if (message.content) {
+        lines.push("", message.content);
+      }
+      for (const call of message.toolCalls ?? []) {
+        lines.push(
+          "",
+          `**Tool call:** \`${call.function.name}\``,
+          "",
+          codeBlock(formatJson(call.function.arguments), "json")
+        );
+      }
+    } else if (message.role === "tool") {
+      const status = message.metadata?.isError ? "failed" : "result";
+      lines.push(
+        `**Tool ${status}:** \`${getToolName(branch, message.toolCallId)}\``,
+        "",
+        codeBlock(formatJson(message.content))
+      );
+    } else {
+      continue;
+    }
+    lines.push("");
+  }
+
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const HTML_STYLES = `
+  body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; color: #1f2937; }
+  h1 { font-size: 1.75rem; margin-bottom: 0.25rem; }
+  .meta { color: #6b7280; font-size: 0.875rem; }
+  .message { border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 0.75rem 1rem; margin: 1rem 0; }
+  .message.user { background: #f9fafb; }
+  .decision { border-left: 3px solid #6366f1; padding-left: 1rem; margin: 1rem 0; }
+  .decision h4 { font-size: 0.875rem; margin: 0.75rem 0 0.25rem; color: #4b5563; }
+  .role { font-weight: 600; font-size: 0.875rem; text-transform: uppercase; color: #4b5563; }
+  .content { white-space: pre-wrap; }
+  details { margin-top: 0.5rem; }
+  summary { cursor: pointer; font-family: ui-monospace, monospace; font-size: 0.875rem; }
+  pre { background: #f3f4f6; padding: 0.75rem; border-radius: 0.375rem; overflow-x: auto; font-size: 0.8125rem; }
+  .error summary { color: #b91c1c; }
+`;
+
+/**
+ * Render a thread's active branch as a standalone design-spec HTML document
+ */
+export function renderHtml(exported: ThreadExport): string {
+  const branch = getActiveBranch(exported);
+  const title = escapeHtml(exported.thread.title || "Untitled conversation");
+  const parts: string[] = [];
+
+  if (exported.decisions.length > 0) {
+    parts.push("<section>", "<h2>Design decisions</h2>");
+    for (const record of exported.decisions) {
+      const recorded = new Date(record.created_at * 1000).toISOString();
+      const tags = record.tags.length > 0 ? ` · ${record.tags.map(escapeHtml).join(", ")}` : "";
+      parts.push(
+        '<article class="decision">',
+        `<h3>${escapeHtml(record.title)}</h3>`,
+        `<p class="meta">Recorded ${recorded}${tags}</p>`,
+        "<h4>Context</h4>",
+        `<div class="content">${escapeHtml(record.context)}</div>`,
+        ...(record.options.length > 0
+          ? [
+              "<h4>Options considered</h4>",
+              "<ul>",
+              ...record.options.map((option) => `<li>${escapeHtml(option)}</li>`),
+              "</ul>",
+            ]
+          : []),
+        "<h4>Decision</h4>",
+        `<div class="content">${escapeHtml(record.decision)}</div>`,
+        "<h4>Rationale</h4>",
+        `<div class="content">${escapeHtml(record.rationale)}</div>`,
+        "</article>"
+      );
+    }
+    parts.push("</section>");
+  }
+  if (exported.notes.length > 0) {
+    parts.push(
+      "<section>",
+      "<h2>Remembered design notes</h2>",
+      "<ul>",
+      ...exported.notes.map((note) => `<li>${escapeHtml(note)}</li>`),
+      "</ul>",
+      "</section>"
+    );
+  }
+
+  parts.push("<section>", "<h2>Conversation</h2>");
+  for (const message of branch) {
+    if (message.role === "user" || message.role === "assistant") {
+      const attachments = (message.metadata?.attachments ?? []).map(
+        (attachment) => `<p class="meta">Attached: ${escapeHtml(attachment.name)}</p>`
+      );
+      const calls = (message.toolCalls ?? []).map(
+        (call) =>
+          `<details><summary>Tool call: ${escapeHtml(call.function.name)}</summary>` +
+          `<pre>${escapeHtml(formatJson(call.function.arguments))}</pre></details>`
+      );
+      parts.push(
+        `<article class="message ${message.role}">`,
+        `<div class="role">${message.role}</div>`,
+        ...(message.content ? [`<div class="content">${escapeHtml(message.content)}</div>`] : []),
+        ...attachments,
+        ...calls,
+        "</article>"
+      );
+    } else if (message.role === "tool") {
+      const failed = message.metadata?.isError;
+      parts.push(
+        `<details class="${failed ? "error" : "result"}">`,
+        `<summary>Tool ${failed ? "failed" : "result"}: ${escapeHtml(getToolName(branch, message.toolCallId))}</summary>`,
+        `<pre>${escapeHtml(formatJson(message.content))}</pre>`,
+        "</details>"
+      );
+    }
+  }
+  parts.push("</section>");
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${title}</title>`,
+    `<style>${HTML_STYLES}</style>`,
+    "</head>",
+    "<body>",
+    `<h1>${title}</h1>`,
+    `<p class="meta">Exported ${escapeHtml(exported.exportedAt)}</p>`,
+    ...parts,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * File name for an export, from the thread title
+ */
+export function getExportFileName(exported: ThreadExport, format: ExportFormat): string {
+  const slug = (exported.thread.title || "conversation")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 60);
+  const extension = { markdown: "md", json: "json", html: "html" }[format];
+  return `${slug || "conversation"}.${extension}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Check that a decision record from an import document has the fields the
+ * record_decision tool accepts and was recorded by one of its messages
+ */
+function validateDecision(value: unknown, index: number, messageIds: Set<string>): ExportedDecision {
+  const fail = (problem: string) => {
+    throw new ImportError(`decisions[${index}] ${problem}`);
+  };
+
+  if (!isObject(value)) {
+    return fail("must be an object");
+  }
+  if (typeof value.message_id !== "string" || !messageIds.has(value.message_id)) {
+    return fail("must have the message_id of an exported message");
+  }
+  if (typeof value.created_at !== "number" || !Number.isInteger(value.created_at)) {
+    return fail("must have an integer created_at");
+  }
+  const parsed = decisionInputSchema.safeParse(value);
+  if (!parsed.success) {
+    return fail(parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "));
+  }
+
+  return { message_id: value.message_id, created_at: value.created_at, ...parsed.data };
+}
+
+/**
+ * Check that a message from an import document has the stored shape
+ */
+function validateMessage(value: unknown, index: number, earlierIds: Set<string>): Message {
+  const fail = (problem: string) => {
+    throw new ImportError(`messages[${index}] ${problem}`);
+  };
+
+  if (!isObject(value)) {
+    return fail("must be an object");
+  }
+  if (typeof value.id !== "string" || !value.id || earlierIds.has(value.id)) {
+    return fail("must have a unique string id");
+  }
+  if (!MESSAGE_ROLES.includes(value.role as Message["role"])) {
+    return fail(`has an invalid role; expected one of ${MESSAGE_ROLES.join(", ")}`);
+  }
+  if (typeof value.content !== "string") {
+    return fail("must have string content");
+  }
+  if (typeof value.createdAt !== "number" || !Number.isFinite(value.createdAt)) {
+    return fail("must have a numeric createdAt");
+  }
+  if (value.parentId != null && (typeof value.parentId !== "string" || !earlierIds.has(value.parentId))) {
+    return fail("must have a parentId of an earlier message, or null");
+  }
+  if (
+    value.toolCalls !== undefined &&
+    (!Array.isArray(value.toolCalls) ||
+      value.toolCalls.some(
+        (call) =>
+          !isObject(call) ||
+          typeof call.id !== "string" ||
+          !isObject(call.function) ||
+          typeof call.function.name !== "string" ||
+          typeof call.function.arguments !== "string"
+      ))
+  ) {
+    return fail("has malformed toolCalls");
+  }
+  if (value.toolCallId !== undefined && typeof value.toolCallId !== "string") {
+    return fail("must have a string toolCallId");
+  }
+  if (value.metadata !== undefined && !isObject(value.metadata)) {
+    return fail("must have object metadata");
+  }
+  const attachments = value.metadata?.attachments;
+  if (
+    attachments !== undefined &&
+    (!Array.isArray(attachments) ||
+      attachments.some(
+        (attachment) =>
+          !isObject(attachment) ||
+          typeof attachment.id !== "string" ||
+          typeof attachment.name !== "string" ||
+          typeof attachment.mimeType !== "string"
+      ))
+  ) {
+    return fail("has malformed attachments");
+  }
+
+  return value as unknown as Message;
+}
+
+/**
+ * Check that every tool message answers a call of the assistant message it
+ * follows, once, and that every tool call is answered, as model providers
+ * reject conversations where the two do not pair up. An imported thread has
+ * no pending approvals, so a thread exported while paused on a tool call
+ * awaiting approval cannot be imported until that call is resolved.
+ */
+function validateToolCallPairs(messages: Message[]): void {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  // Call IDs answered per assistant message
+  const answered = new Map<string, Set<string>>();
+
+  messages.forEach((message, index) => {
+    if (message.role !== "tool") {
+      return;
+    }
+    let caller = message.parentId ? byId.get(message.parentId) : undefined;
+    while (caller?.role === "tool") {
+      caller = caller.parentId ? byId.get(caller.parentId) : undefined;
+    }
+    if (caller?.role !== "assistant" || !caller.toolCalls?.some((call) => call.id === message.toolCallId)) {
+      throw new ImportError(`messages[${index}] must answer a tool call of the assistant message it follows`);
+    }
+    const ids = answered.get(caller.id) ?? new Set<string>();
+    if (ids.has(message.toolCallId!)) {
+      throw new ImportError(`messages[${index}] answers tool call ${message.toolCallId} again`);
+    }
+    answered.set(caller.id, ids.add(message.toolCallId!));
+  });
+
+  messages.forEach((message, index) => {
+    const unanswered = (message.toolCalls ?? []).filter((call) => !answered.get(message.id)?.has(call.id));
+    if (unanswered.length > 0) {
+      throw new ImportError(
+        `messages[${index}] has tool calls without results: ${unanswered.map((call) => call.id).join(", ")}. ` +
+          "Approve or reject tool calls awaiting approval before exporting the thread."
+      );
+    }
+  });
+}
+
+/**
+ * Check that a document is a thread export this version can import
+ */
+export function parseThreadExport(value: unknown): ThreadExport {
+  if (!isObject(value)) {
+    throw new ImportError("Import must be a JSON thread export");
+  }
+  if (value.version !== THREAD_EXPORT_VERSION) {
+    throw new ImportError(`Unsupported export version; expected ${THREAD_EXPORT_VERSION}`);
+  }
+  if (!isObject(value.thread) || !(value.thread.title === null || typeof value.thread.title === "string")) {
+    throw new ImportError("thread must be an object with a title string or null");
+  }
+  if (!Array.isArray(value.messages)) {
+    throw new ImportError("messages must be an array");
+  }
+  if (value.messages.length > MAX_IMPORT_MESSAGES) {
+    throw new ImportError(`Imports are limited to ${MAX_IMPORT_MESSAGES} messages`);
+  }
+
+  const ids = new Set<string>();
+  const messages = value.messages.map((message, index) => {
+    const checked = validateMessage(message, index, ids);
+    ids.add(checked.id);
+    return checked;
+  });
+  validateToolCallPairs(messages);
+
+  if (value.decisions !== undefined && !Array.isArray(value.decisions)) {
+    throw new ImportError("decisions must be an array");
+  }
+  const decisions = (value.decisions ?? []).map((decision, index) => validateDecision(decision, index, ids));
+
+  return {
+    version: THREAD_EXPORT_VERSION,
+    exportedAt: typeof value.exportedAt === "string" ? value.exportedAt : new Date().toISOString(),
+    thread: {
+      id: typeof value.thread.id === "string" ? value.thread.id : "",
+      title: value.thread.title,
+      createdAt: typeof value.thread.createdAt === "number" ? value.thread.createdAt : Date.now(),
+      metadata: isObject(value.thread.metadata) ? (value.thread.metadata as ThreadMetadata) : {},
+    },
+    messages,
+    decisions,
+    notes: Array.isArray(value.notes) ? value.notes.filter((note): note is string => typeof note === "string") : [],
+  };
+}
+
+/**
+ * Give an export's messages fresh IDs for a new thread, keeping parent links,
+ * summary boundaries, the active branch and decision records pointing at the
+ * right messages. Returns the messages, decisions and thread metadata to
+ * carry over.
+ */
+export function remapThreadExport(exported: ThreadExport): {
+  messages: Message[];
+  decisions: ExportedDecision[];
+  metadata: ThreadMetadata;
+} {
+  const ids = new Map(exported.messages.map((message) => [message.id, crypto.randomUUID()]));
+
+  const messages = exported.messages.map((message) => ({
+    ...message,
+    id: ids.get(message.id)!,
+    parentId: message.parentId ? ids.get(message.parentId)! : null,
+    metadata: message.metadata?.summarizedUntil
+      ? { ...message.metadata, summarizedUntil: ids.get(message.metadata.summarizedUntil) }
+      : message.metadata,
+  }));
+  const decisions = exported.decisions.map((decision) => ({ ...decision, message_id: ids.get(decision.message_id)! }));
+
+  const metadata: ThreadMetadata = {};
+  for (const key of IMPORTED_METADATA_KEYS) {
+    if (exported.thread.metadata[key] !== undefined) {
+      metadata[key] = exported.thread.metadata[key];
+    }
+  }
+  metadata.activeLeafId = metadata.activeLeafId ? ids.get(metadata.activeLeafId) : undefined;
+  if (!metadata.activeLeafId) {
+    delete metadata.activeLeafId;
+  }
+
+  return { messages, decisions, metadata };
+}
+
+/**
+ * The IDs of the stored assets an export's messages reference: files attached
+ * to user messages, and images and resources in tool results
+ */
+export function getReferencedAssetIds(messages: Message[]): string[] {
+  const ids = messages.flatMap((message) => [
+    ...(message.metadata?.attachments ?? []).map((attachment) => attachment.id),
+    ...(message.role === "tool" ? getToolResultAssetIds(message.content) : []),
+  ]);
+  return [...new Set(ids)];
+}
+
+/**
+ * Point the asset references of messages at the assets `ids` maps them to
+ */
+export function remapAssetIds(messages: Message[], ids: Map<string, string>): Message[] {
+  if (ids.size === 0) {
+    return messages;
+  }
+
+  return messages.map((message) => {
+    const attachments = message.metadata?.attachments?.map((attachment) => ({
+      ...attachment,
+      id: ids.get(attachment.id) ?? attachment.id,
+    }));
+    // Tool results reference assets by ID and by URL, both of which contain
+    // the ID; asset IDs are UUIDs, so replacing them as text is exact
+    const content =
+      message.role === "tool"
+        ? [...ids].reduce((text, [from, to]) => text.replaceAll(from, to), message.content)
+        : message.content;
+    return { ...message, content, ...(attachments ? { metadata: { ...message.metadata, attachments } } : {}) };
+  });
+}
@@ -1,15 +1,136 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { cors } from "hono/cors";
+import { getAgentByName } from "agents";
 import { UXArchitectAgent, type Env } from "./agent";
+import { AssetStore } from "./assets";
+import { authorizeThread, getOwnedProject, requireAuth, type AppEnv } from "./auth";
+import { DecisionStore } from "./decisions";
+import {
+  EXPORT_FORMATS,
+  ImportError,
+  buildThreadExport,
+  getExportFileName,
+  getReferencedAssetIds,
+  parseThreadExport,
+  remapAssetIds,
+  remapThreadExport,
+  renderHtml,
+  renderMarkdown,
+  type ExportFormat,
+} from "./export";
+import { McpServerStore } from "./mcp-servers";
+import { createMemoryStore } from "./memory";
+import { PersonaStore } from "./personas";
+import { ThreadStore, type ThreadMetadata } from "./persistence";
+import { isValidModelRef } from "./providers";
+import { ShareStore, validateShareTtl } from "./shares";
+import { MAX_TITLE_LENGTH } from "./titles";
+import assets from "./routes/assets";
+import attachments from "./routes/attachments";
+import auth from "./routes/auth";
+import decisions from "./routes/decisions";
+import mcp from "./routes/mcp";
+import mcpServers from "./routes/mcp-servers";
+import memories from "./routes/memories";
+import personas from "./routes/personas";
+import projects from "./routes/projects";
+import search from "./routes/search";
+import share from "./routes/share";
+import usage from "./routes/usage";
 
 // Export the Agent class for Durable Objects
 export { UXArchitectAgent };
 
 // Create Hono app
-const app = new Hono<{ Bindings: Env }>();
+const app = new Hono<AppEnv>();
 
-// Enable CORS for API routes
-app.use("/api/*", cors());
+// Allow cross-origin API calls only from the configured origins
+app.use(
+  "/api/*",
+  cors({
+    origin: (origin, c) => {
+      const allowed = (c.env.ALLOWED_ORIGINS || "").split(",").map((entry: string) => entry.trim());
+      return allowed.includes(origin) ? origin : null;
+    },
+    credentials: true,
+  })
+);
+
+// Every API route requires a signed token except these
+app.use(
+  "/api/*",
+  requireAuth(["/api/health", "/api/auth/tokens", "/api/auth/session", "/api/mcp/callback", "/api/share/*"])
+);
+
+/**
+ * Get the agent instance that owns a thread (one agent per thread)
+ */
+function getThreadAgent(env: Env, threadId: string) {
+  return getAgentByName(env.UX_ARCHITECT_AGENT, threadId);
+}
+
+/**
+ * Pick the thread a chat request runs in: an existing thread the caller owns,
+ * or a new thread created for them. Returns an error response on denial.
+ */
+async function resolveChatThread(c: Context<AppEnv>, threadId?: string): Promise<string | Response> {
+  if (threadId) {
+    return (await authorizeThread(c, threadId)) ?? threadId;
+  }
+
+  const newThreadId = crypto.randomUUID();
+  await new ThreadStore(c.env.DB).ensureThread({
+    id: newThreadId,
+    title: null,
+    createdAt: Date.now(),
+    ownerId: c.get("userId"),
+  });
+  return newThreadId;
+}
+
+/**
+ * Body of a chat request
+ */
+interface ChatBody {
+  message?: string;
+  threadId?: string;
+  parentId?: string | null;
+  regenerateFrom?: string;
+  /** IDs of files uploaded to the thread via /api/attachments */
+  attachments?: string[];
+}
+
+/**
+ * Check a chat request body, returning an error message if it is invalid.
+ * A message may be empty when it carries attachments.
+ */
+function validateChatBody(body: ChatBody): string | null {
+  if (
+    body.attachments !== undefined &&
+    (!Array.isArray(body.attachments) || !body.attachments.every((id) => typeof id === "string"))
+  ) {
+    return "attachments must be an array of attachment IDs";
+  }
+  if (!body.message && !body.regenerateFrom && !body.attachments?.length) {
+    return "Message is required";
+  }
+  return null;
+}
+
+// Authentication, persona and MCP server registries, projects, MCP connections, memories, decisions, usage,
+// assets, attachments, search and public share links
+app.route("/api/assets", assets);
+app.route("/api/attachments", attachments);
+app.route("/api/auth", auth);
+app.route("/api/decisions", decisions);
+app.route("/api/mcp", mcp);
+app.route("/api/mcp-servers", mcpServers);
+app.route("/api/memories", memories);
+app.route("/api/personas", personas);
+app.route("/api/projects", projects);
+app.route("/api/search", search);
+app.route("/api/share", share);
+app.route("/api/usage", usage);
 
 /**
  * Health check endpoint
@@ -19,14 +140,13 @@ app.get("/api/health", (c) => {
 });
 
 /**
- * List all conversation threads
+ * List the caller's conversation threads, or only those in `projectId`
  */
 app.get("/api/threads", async (c) => {
   try {
-    const { results } = await c.env.DB.prepare(
-      "SELECT * FROM threads ORDER BY updated_at DESC"
-    ).all();
-    return c.json({ threads: results });
+    const projectId = c.req.query("projectId") || undefined;
+    const threads = await new ThreadStore(c.env.DB).listThreads(c.get("userId"), projectId);
+    return c.json({ threads });
   } catch (error) {
     console.error("Error listing threads:", error);
     return c.json({ error: "Failed to list threads" }, 500);
@@ -38,15 +158,46 @@ app.get("/api/threads", async (c) => {
  */
 app.post("/api/threads", async (c) => {
   try {
-    const body = await c.req.json<{ title?: string }>();
+    const body = await c.req.json<{ title?: string; model?: string; personaId?: string; projectId?: string }>();
+
+    if (body.model && !isValidModelRef(body.model)) {
+      return c.json({ error: "Invalid model reference" }, 400);
+    }
+
+    const project = body.projectId ? await getOwnedProject(c, body.projectId) : null;
+    if (body.projectId && !project) {
+      return c.json({ error: "Project not found" }, 400);
+    }
+
+    const metadata: ThreadMetadata = {};
+    if (body.model) {
+      metadata.model = body.model;
+    }
+    // Threads in a project default to its persona
+    const personaId = body.personaId || project?.persona_id;
+    if (personaId) {
+      // Pin the persona's current version so later edits don't change this thread
+      const persona = await new PersonaStore(c.env.DB).getPersona(personaId);
+      if (persona) {
+        metadata.personaId = persona.id;
+        metadata.personaVersion = persona.current_version;
+      } else if (body.personaId) {
+        return c.json({ error: "Persona not found" }, 400);
+      } else {
+        console.warn(`Default persona ${personaId} of project ${project!.id} not found`);
+      }
+    }
+
     const threadId = crypto.randomUUID();
-    const now = Math.floor(Date.now() / 1000);
 
-    await c.env.DB.prepare(
-      "INSERT INTO threads (id, title, created_at, updated_at) VALUES (?, ?, ?, ?)"
-    )
-      .bind(threadId, body.title || null, now, now)
-      .run();
+    await new ThreadStore(c.env.DB).ensureThread({
+      id: threadId,
+      title: body.title || null,
+      createdAt: Date.now(),
+      metadata,
+      ownerId: c.get("userId"),
+      projectId: project?.id ?? null,
+    });
 
     return c.json({ threadId }, 201);
   } catch (error) {
@@ -55,6 +206,99 @@ app.post("/api/threads", async (c) => {
   }
 });
 
+/**
+ * Import a thread from a JSON export as a new thread of the caller's,
+ * optionally filed in `projectId`. Messages get new IDs, and assets they
+ * reference, which must be the caller's, are copied into the new thread.
+ * Decision records are recreated for the new thread; remembered notes are
+ * not, as memories already belong to the user rather than the thread. The
+ * agent's cache is filled from D1 so the thread can be continued right away.
+ */
+app.post("/api/threads/import", async (c) => {
+  try {
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: "Import must be a JSON thread export" }, 400);
+    }
+
+    const projectId = c.req.query("projectId");
+    if (projectId && !(await getOwnedProject(c, projectId))) {
+      return c.json({ error: "Project not found" }, 400);
+    }
+
+    const exported = parseThreadExport(body);
+    const { messages, decisions, metadata } = remapThreadExport(exported);
+    if (metadata.model && !isValidModelRef(metadata.model)) {
+      delete metadata.model;
+    }
+    if (
+      metadata.personaId &&
+      !(await new PersonaStore(c.env.DB).getVersion(String(metadata.personaId), Number(metadata.personaVersion)))
+    ) {
+      delete metadata.personaId;
+      delete metadata.personaVersion;
+    }
+
+    // Referenced assets must come from the caller's own threads
+    const assetStore = new AssetStore(c.env.DB, c.env.ASSETS_BUCKET);
+    const assets = await Promise.all(
+      getReferencedAssetIds(messages).map(async (assetId) => {
+        const asset = await assetStore.getOwnedAsset(c.get("userId"), assetId);
+        if (!asset) {
+          throw new ImportError(`Asset ${assetId} not found`);
+        }
+        return asset;
+      })
+    );
+
+    const threadId = crypto.randomUUID();
+    const store = new ThreadStore(c.env.DB);
+    await store.ensureThread({
+      id: threadId,
+      title: exported.thread.title,
+      createdAt: Date.now(),
+      metadata,
+      ownerId: c.get("userId"),
+      projectId: projectId || null,
+    });
+
+    // Copy the assets into the new thread, which only loads its own
+    const assetIds = new Map<string, string>();
+    for (const asset of assets) {
+      const copy = await assetStore.copyAsset(asset, threadId);
+      if (copy) {
+        assetIds.set(asset.id, copy.id);
+      }
+    }
+    await store.saveMessages(threadId, remapAssetIds(messages, assetIds));
+
+    const decisionStore = new DecisionStore(c.env.DB);
+    for (const { message_id, created_at, ...decision } of decisions) {
+      await decisionStore.recordDecision({
+        ownerId: c.get("userId"),
+        threadId,
+        projectId: projectId || null,
+        messageId: message_id,
+        decision,
+        createdAt: created_at
+      });
+    }
+
+    const agentStub = await getThreadAgent(c.env, threadId);
+    await agentStub.fetch(new Request(`https://agent/threads/${threadId}`));
+
+    return c.json({ threadId, messages: messages.length }, 201);
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error("Error importing thread:", error);
+    return c.json({ error: "Failed to import thread" }, 500);
+  }
+});
+
 /**
  * Get a specific thread with its messages
  */
@@ -62,21 +306,14 @@ app.get("/api/threads/:threadId", async (c) => {
   const threadId = c.req.param("threadId");
 
   try {
-    const thread = await c.env.DB.prepare(
-      "SELECT * FROM threads WHERE id = ?"
-    )
-      .bind(threadId)
-      .first();
-
-    if (!thread) {
-      return c.json({ error: "Thread not found" }, 404);
+    const denied = await authorizeThread(c, threadId);
+    if (denied) {
+      return denied;
     }
 
-    const { results: messages } = await c.env.DB.prepare(
-      "SELECT * FROM messages WHERE thread_id = ? ORDER BY created_at ASC"
-    )
-      .bind(threadId)
-      .all();
+    const store = new ThreadStore(c.env.DB);
+    const thread = await store.getThread(threadId);
+    const messages = await store.listMessages(threadId);
 
     return c.json({ thread, messages });
   } catch (error) {
@@ -86,20 +323,235 @@ app.get("/api/threads/:threadId", async (c) => {
 });
 
 /**
- * Delete a thread and its messages
+ * Export a thread as Markdown, versioned JSON that `POST /api/threads/import`
+ * accepts, or a standalone HTML design spec
+ */
+app.get("/api/threads/:threadId/export", async (c) => {
+  const threadId = c.req.param("threadId");
+  const format = (c.req.query("format") || "markdown") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return c.json({ error: `format must be one of ${EXPORT_FORMATS.join(", ")}` }, 400);
+  }
+
+  try {
+    const denied = await authorizeThread(c, threadId);
+    if (denied) {
+      return denied;
+    }
+
+    const store = new ThreadStore(c.env.DB);
+    const [thread, rows, records, memories] = await Promise.all([
+      store.getThread(threadId),
+      store.listMessages(threadId),
+      new DecisionStore(c.env.DB).listDecisions(c.get("userId"), { threadId }),
+      createMemoryStore(c.env).listThreadMemories(c.get("userId"), threadId),
+    ]);
+    const exported = buildThreadExport(thread!, rows, records, memories.map((memory) => memory.content));
+
+    const body =
+      format === "json"
+        ? JSON.stringify(exported, null, 2)
+        : format === "html"
+          ? renderHtml(exported)
+          : renderMarkdown(exported);
+    const contentType = {
+      markdown: "text/markdown; charset=utf-8",
+      json: "application/json; charset=utf-8",
+      html: "text/html; charset=utf-8",
+    }[format];
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${getExportFileName(exported, format)}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting thread:", error);
+    return c.json({ error: "Failed to export thread" }, 500);
+  }
+});
+
+/**
+ * Create a read-only share link to a thread, optionally expiring after
+ * `expiresInSeconds`
+ */
+app.post("/api/threads/:threadId/shares", async (c) => {
+  const threadId = c.req.param("threadId");
+
+  try {
+    const body = await c.req.json<{ expiresInSeconds?: number | null }>();
+    const invalid = validateShareTtl(body.expiresInSeconds);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+
+    const denied = await authorizeThread(c, threadId);
+    if (denied) {
+      return denied;
+    }
+
+    const created = await new ShareStore(c.env.DB).createShare(threadId, c.get("userId"), body.expiresInSeconds);
+    return c.json({ share: created }, 201);
+  } catch (error) {
+    console.error("Error creating share link:", error);
+    return c.json({ error: "Failed to create share link" }, 500);
+  }
+});
+
+/**
+ * List a thread's share links, including expired and revoked ones
+ */
+app.get("/api/threads/:threadId/shares", async (c) => {
+  const threadId = c.req.param("threadId");
+
+  try {
+    const denied = await authorizeThread(c, threadId);
+    if (denied) {
+      return denied;
+    }
+
+    const shares = await new ShareStore(c.env.DB).listShares(threadId);
+    return c.json({ shares });
+  } catch (error) {
+    console.error("Error listing share links:", error);
+    return c.json({ error: "Failed to list share links" }, 500);
+  }
+});
+
+/**
+ * Revoke a share link; it stops working immediately
+ */
+app.delete("/api/threads/:threadId/shares/:token", async (c) => {
+  const threadId = c.req.param("threadId");
+
+  try {
+    const denied = await authorizeThread(c, threadId);
+    if (denied) {
+      return denied;
+    }
+
+    const revoked = await new ShareStore(c.env.DB).revokeShare(threadId, c.req.param("token"));
+    if (!revoked) {
+      return c.json({ error: "Share link not found" }, 404);
+    }
+
+    return c.json({ share: revoked });
+  } catch (error) {
+    console.error("Error revoking share link:", error);
+    return c.json({ error: "Failed to revoke share link" }, 500);
+  }
+});
+
+/**
+ * Update thread settings such as the title, the project, the model used for
+ * future turns, the active branch, or which MCP servers the thread opts in to or out of
+ */
+app.patch("/api/threads/:threadId", async (c) => {
+  const threadId = c.req.param("threadId");
+
+  try {
+    const body = await c.req.json<{
+      title?: string | null;
+      projectId?: string | null;
+      model?: string | null;
+      activeLeafId?: string;
+      mcpServers?: Record<string, boolean>;
+    }>();
+
+    if (
+      body.title !== undefined &&
+      body.title !== null &&
+      (typeof body.title !== "string" || !body.title.trim() || body.title.trim().length > MAX_TITLE_LENGTH)
+    ) {
+      return c.json({ error: `title must be a non-empty string of at most ${MAX_TITLE_LENGTH} characters, or null` }, 400);
+    }
+    if (body.projectId !== undefined && body.projectId !== null && typeof body.projectId !== "string") {
+      return c.json({ error: "projectId must be a string or null" }, 400);
+    }
+    if (body.model && !isValidModelRef(body.model)) {
+      return c.json({ error: "Invalid model reference" }, 400);
+    }
+    if (
+      body.mcpServers !== undefined &&
+      (!body.mcpServers ||
+        typeof body.mcpServers !== "object" ||
+        Object.values(body.mcpServers).some((value) => typeof value !== "boolean"))
+    ) {
+      return c.json({ error: "mcpServers must map server IDs to booleans" }, 400);
+    }
+
+    const denied = await authorizeThread(c, threadId);
+    if (denied) {
+      return denied;
+    }
+
+    const store = new ThreadStore(c.env.DB);
+
+    if (body.activeLeafId !== undefined) {
+      if (!(await store.listMessageIds(threadId)).has(body.activeLeafId)) {
+        return c.json({ error: "Message not found in this thread" }, 400);
+      }
+      await store.updateThreadMetadata(threadId, { activeLeafId: body.activeLeafId });
+    }
+
+    if (body.mcpServers !== undefined) {
+      const registered = new Set((await new McpServerStore(c.env.DB).listServers()).map((server) => server.id));
+      const unknown = Object.keys(body.mcpServers).find((serverId) => !registered.has(serverId));
+      if (unknown) {
+        return c.json({ error: `MCP server not found: ${unknown}` }, 400);
+      }
+      // Overrides merge into the existing ones so servers can be toggled one at a time
+      const metadata = await store.getThreadMetadata(threadId);
+      await store.updateThreadMetadata(threadId, {
+        mcpServers: { ...metadata.mcpServers, ...body.mcpServers },
+      });
+    }
+
+    if (body.projectId !== undefined) {
+      if (body.projectId && !(await getOwnedProject(c, body.projectId))) {
+        return c.json({ error: "Project not found" }, 400);
+      }
+      // A null project leaves the thread unfiled
+      await store.updateThreadProject(threadId, body.projectId || null);
+      await createMemoryStore(c.env).reindexThreadMemories(c.get("userId"), threadId);
+    }
+
+    if (body.title !== undefined) {
+      // A null title lets the agent generate one again after the next turn
+      await store.updateThreadTitle(threadId, body.title?.trim() ?? null);
+    }
+
+    if (body.model !== undefined) {
+      // A null model clears the override so the environment default applies
+      await store.updateThreadMetadata(threadId, { model: body.model || undefined });
+    }
+
+    return c.json({ thread: await store.getThread(threadId) });
+  } catch (error) {
+    console.error("Error updating thread:", error);
+    return c.json({ error: "Failed to update thread" }, 500);
+  }
+});
+
+/**
+ * Delete a thread with its messages and stored assets
  */
 app.delete("/api/threads/:threadId", async (c) => {
   const threadId = c.req.param("threadId");
 
   try {
-    // Delete from D1
-    await c.env.DB.prepare("DELETE FROM threads WHERE id = ?")
-      .bind(threadId)
-      .run();
+    const denied = await authorizeThread(c, threadId);
+    if (denied) {
+      return denied;
+    }
+
+    // Delete the thread's stored content, then the thread from D1
+    await new AssetStore(c.env.DB, c.env.ASSETS_BUCKET).deleteThreadAssets(threadId);
+    await new ThreadStore(c.env.DB).deleteThread(threadId);
 
     // Also trigger deletion in the agent's Durable Object storage
-    const agentId = c.env.UX_ARCHITECT_AGENT.idFromName(threadId);
-    const agentStub = c.env.UX_ARCHITECT_AGENT.get(agentId);
+    const agentStub = await getThreadAgent(c.env, threadId);
     await agentStub.fetch(new Request("https://agent/delete", { method: "POST" }));
 
     return c.json({ success: true });
@@ -110,30 +562,39 @@ app.delete("/api/threads/:threadId", async (c) => {
 });
 
 /**
- * Send a message to the agent (chat endpoint)
+ * Send a message to the agent (chat endpoint).
+ * `parentId` branches from an earlier message; `regenerateFrom` rerolls a reply;
+ * `attachments` adds uploaded files to the message.
  */
 app.post("/api/chat", async (c) => {
   try {
-    const body = await c.req.json<{ message: string; threadId?: string }>();
+    const body = await c.req.json<ChatBody>();
 
-    if (!body.message) {
-      return c.json({ error: "Message is required" }, 400);
+    const invalid = validateChatBody(body);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
     }
 
-    // Get or create agent instance
-    const agentId = body.threadId || crypto.randomUUID();
-    const id = c.env.UX_ARCHITECT_AGENT.idFromName(agentId);
-    const agent = c.env.UX_ARCHITECT_AGENT.get(id);
+    const agentId = await resolveChatThread(c, body.threadId);
+    if (agentId instanceof Response) {
+      return agentId;
+    }
+    const agent = await getThreadAgent(c.env, agentId);
 
     // Forward request to agent - it handles all persistence
     const agentResponse = await agent.fetch(
       new Request("https://agent/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message: body.message, threadId: body.threadId }),
+        body: JSON.stringify({ ...body, threadId: agentId }),
       })
     );
 
+    if (!agentResponse.ok) {
+      // Pass quota rejections (with their Retry-After header) invalid branches and attachments through
+      return agentResponse;
+    }
+
     const result = await agentResponse.json();
 
     return c.json(result);
@@ -144,15 +605,134 @@ app.post("/api/chat", async (c) => {
 });
 
 /**
- * WebSocket upgrade for real-time agent communication
+ * Send a message to the agent and stream the turn back as Server-Sent Events
+ */
+app.post("/api/chat/stream", async (c) => {
+  try {
+    const body = await c.req.json<ChatBody>();
+
+    const invalid = validateChatBody(body);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+
+    const agentId = await resolveChatThread(c, body.threadId);
+    if (agentId instanceof Response) {
+      return agentId;
+    }
+    const agent = await getThreadAgent(c.env, agentId);
+
+    // The agent responds with an SSE stream which is passed through unchanged
+    return agent.fetch(
+      new Request("https://agent/chat/stream", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, threadId: agentId }),
+      })
+    );
+  } catch (error) {
+    console.error("Error in streaming chat:", error);
+    return c.json({ error: "Failed to process chat message" }, 500);
+  }
+});
+
+/**
+ * Backfill D1 with any messages that only exist in a thread's agent storage
+ */
+app.post("/api/threads/:threadId/reconcile", async (c) => {
+  const threadId = c.req.param("threadId");
+
+  try {
+    const denied = await authorizeThread(c, threadId);
+    if (denied) {
+      return denied;
+    }
+
+    const agent = await getThreadAgent(c.env, threadId);
+    const agentResponse = await agent.fetch(
+      new Request("https://agent/reconcile", { method: "POST" })
+    );
+
+    return c.json(await agentResponse.json());
+  } catch (error) {
+    console.error("Error reconciling thread:", error);
+    return c.json({ error: "Failed to reconcile thread" }, 500);
+  }
+});
+
+/**
+ * List the tool calls a thread's paused turn waits on
+ */
+app.get("/api/threads/:threadId/approvals", async (c) => {
+  const threadId = c.req.param("threadId");
+
+  try {
+    const denied = await authorizeThread(c, threadId);
+    if (denied) {
+      return denied;
+    }
+
+    const agent = await getThreadAgent(c.env, threadId);
+    const agentResponse = await agent.fetch(new Request("https://agent/approvals"));
+
+    return c.json(await agentResponse.json());
+  } catch (error) {
+    console.error("Error listing approvals:", error);
+    return c.json({ error: "Failed to list approvals" }, 500);
+  }
+});
+
+/**
+ * Approve or reject a pending tool call and stream the resumed turn as
+ * Server-Sent Events
+ */
+app.post("/api/threads/:threadId/approvals/:toolCallId", async (c) => {
+  const threadId = c.req.param("threadId");
+  const toolCallId = c.req.param("toolCallId");
+
+  try {
+    const body = await c.req.json<{ approved?: boolean }>();
+
+    if (typeof body.approved !== "boolean") {
+      return c.json({ error: "approved must be a boolean" }, 400);
+    }
+
+    const denied = await authorizeThread(c, threadId);
+    if (denied) {
+      return denied;
+    }
+
+    const agent = await getThreadAgent(c.env, threadId);
+
+    // Unknown calls and quota rejections come back as plain JSON errors
+    return agent.fetch(
+      new Request(`https://agent/approvals/${encodeURIComponent(toolCallId)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ approved: body.approved }),
+      })
+    );
+  } catch (error) {
+    console.error("Error resolving approval:", error);
+    return c.json({ error: "Failed to resolve approval" }, 500);
+  }
+});
+
+/**
+ * WebSocket upgrade for real-time agent communication. The thread must
+ * already exist and belong to the caller; threads are created through
+ * POST /api/threads.
  */
 app.get("/api/agent/:agentId", async (c) => {
   // The agents SDK uses URL pattern matching to route requests
   // We need to forward to the agent directly using the Durable Object
   const agentId = c.req.param("agentId");
-  const id = c.env.UX_ARCHITECT_AGENT.idFromName(agentId);
-  const agent = c.env.UX_ARCHITECT_AGENT.get(id);
-  
+  const denied = await authorizeThread(c, agentId);
+  if (denied) {
+    return denied;
+  }
+  const agent = await getThreadAgent(c.env, agentId);
+
   // Forward the request to the agent
   return agent.fetch(c.req.raw);
 });
@@ -162,9 +742,12 @@ app.get("/api/agent/:agentId", async (c) => {
  */
 app.all("/api/agent/:agentId/*", async (c) => {
   const agentId = c.req.param("agentId");
-  const id = c.env.UX_ARCHITECT_AGENT.idFromName(agentId);
-  const agent = c.env.UX_ARCHITECT_AGENT.get(id);
-  
+  const denied = await authorizeThread(c, agentId);
+  if (denied) {
+    return denied;
+  }
+  const agent = await getThreadAgent(c.env, agentId);
+
   // Forward the request to the agent
   return agent.fetch(c.req.raw);
 });
@@ -0,0 +1,100 @@
+import { z } from "zod/v4";
+import { TOOL_NAMESPACE_SEPARATOR } from "./mcp-servers";
+import type { ChatTool } from "./providers";
+
+/**
+ * Names the model can call a function by, per the OpenAI function calling API
+ */
+const FUNCTION_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * What a local tool knows about the call it is running for
+ */
+export interface LocalToolContext {
+  db: D1Database;
+  threadId: string;
+  /** Assistant message whose tool call is being run */
+  messageId: string;
+}
+
+/**
+ * A first-party tool implemented in the Worker and dispatched without an MCP
+ * server. Its zod schema both describes the arguments to the model and
+ * validates the arguments the model sends.
+ */
+export interface LocalTool<Schema extends z.ZodType = z.ZodType> {
+  name: string;
+  description: string;
+  schema: Schema;
+  /** The tool as offered to the model, derived from the schema */
+  definition: ChatTool;
+  run(args: z.output<Schema>, context: LocalToolContext): Promise<unknown> | unknown;
+}
+
+/**
+ * Define a local tool. Names cannot contain the MCP namespace separator, so
+ * they never collide with namespaced MCP tools.
+ */
+export function defineLocalTool<Schema extends z.ZodObject>(tool: {
+  name: string;
+  description: string;
+  schema: Schema;
+  run(args: z.output<Schema>, context: LocalToolContext): Promise<unknown> | unknown;
+}): LocalTool<Schema> {
+  if (!FUNCTION_NAME_PATTERN.test(tool.name) || tool.name.includes(TOOL_NAMESPACE_SEPARATOR)) {
+    throw new Error(
+      `Invalid local tool name ${tool.name}: use letters, digits, _ and - without "${TOOL_NAMESPACE_SEPARATOR}"`
+    );
+  }
+
+  // Describe the arguments the model sends, before defaults are applied
+  const { $schema: _, ...parameters } = z.toJSONSchema(tool.schema, { io: "input" });
+  return {
+    ...tool,
+    definition: {
+      type: "function",
+      function: { name: tool.name, description: tool.description, parameters },
+    },
+  };
+}
+
+/**
+ * Describe why arguments failed validation, one issue per field, for the model
+ * to correct its call
+ */
+export function formatValidationError(toolName: string, error: z.ZodError): string {
+  const issues = error.issues.map((issue) => `${issue.path.join(".") || "arguments"}: ${issue.message}`);
+  return `Invalid arguments for ${toolName}: ${issues.join("; ")}`;
+}
+
+/**
+ * Validate a call's arguments against the tool's schema and run it. Invalid
+ * arguments throw, so they are reported to the model as a tool error.
+ */
+export async function runLocalTool(tool: LocalTool, args: unknown, context: LocalToolContext): Promise<unknown> {
+  const parsed = tool.schema.safeParse(args);
+  if (!parsed.success) {
+    throw new Error(formatValidationError(tool.name, parsed.error));
+  }
+  return tool.run(parsed.data, context);
+}
+
+/**
+ * Merge the tools offered to the model: the MCP tools, then the local tools.
+ * Local tool names cannot contain the namespace separator every MCP tool name
+ * has, so the two never collide. The provider rejects a whole completion over
+ * one invalid function name, so an MCP tool whose namespaced name is too long
+ * or has other characters is left out with a warning.
+ */
+export function mergeTools(localTools: LocalTool[], mcpTools: ChatTool[]): ChatTool[] {
+  const offered = mcpTools.filter((tool) => {
+    if (!FUNCTION_NAME_PATTERN.test(tool.function.name)) {
+      console.warn(
+        `Skipping MCP tool ${tool.function.name}: function names are 1-64 letters, digits, _ and - characters`
+      );
+      return false;
+    }
+    return true;
+  });
+  return [...offered, ...localTools.map((tool) => tool.definition)];
+}
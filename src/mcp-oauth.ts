@@ -0,0 +1,188 @@
+import type { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
+import type {
+  OAuthClientInformationMixed,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import type { Env } from "./agent";
+
+/**
+ * How long an authorization URL stays valid for its callback
+ */
+export const OAUTH_STATE_TTL_SECONDS = 3600;
+
+/**
+ * Path MCP authorization servers redirect back to
+ */
+export const MCP_OAUTH_CALLBACK_PATH = "/api/mcp/callback";
+
+/**
+ * A pending authorization, looked up by the OAuth `state` on callback
+ */
+export interface PendingAuthorization {
+  state: string;
+  user_id: string;
+  server_id: string;
+  code_verifier: string;
+  created_at: number;
+}
+
+interface SessionRow {
+  client_info: string | null;
+  tokens: string | null;
+}
+
+/**
+ * The callback URL registered with MCP authorization servers
+ */
+export function getOAuthRedirectUrl(env: Env): string {
+  return `${env.WORKER_URL}${MCP_OAUTH_CALLBACK_PATH}`;
+}
+
+function parseJson<T>(raw: string | null): T | undefined {
+  if (!raw) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * OAuth client for one user and one MCP server, persisted in D1 so a user
+ * authorizes a server once and every thread they own can use it.
+ *
+ * Each authorization attempt gets its own `state` row holding the PKCE
+ * verifier, so an older authorization URL still completes after a newer
+ * one was issued. Pass `pendingState` to finish the attempt it names.
+ */
+export class McpOAuthProvider implements OAuthClientProvider {
+  /** Authorization URL of the last attempt, for the user to open */
+  authUrl: string | undefined;
+  /** Set by the Agents SDK client manager; unused here */
+  clientId: string | undefined;
+  serverId: string | undefined;
+  private pendingState: string | undefined;
+
+  constructor(
+    private readonly db: D1Database,
+    private readonly userId: string,
+    private readonly mcpServerId: string,
+    readonly redirectUrl: string,
+    pendingState?: string
+  ) {
+    this.pendingState = pendingState;
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      redirect_uris: [this.redirectUrl],
+      token_endpoint_auth_method: "none",
+      grant_types: ["authorization_code", "refresh_token"],
+      response_types: ["code"],
+      client_name: "Core Stitch",
+    };
+  }
+
+  state(): string {
+    this.pendingState = crypto.randomUUID();
+    return this.pendingState;
+  }
+
+  async clientInformation(): Promise<OAuthClientInformationMixed | undefined> {
+    return parseJson<OAuthClientInformationMixed>((await this.getSession())?.client_info ?? null);
+  }
+
+  async saveClientInformation(clientInformation: OAuthClientInformationMixed): Promise<void> {
+    await this.upsertSession("client_info", JSON.stringify(clientInformation));
+  }
+
+  async tokens(): Promise<OAuthTokens | undefined> {
+    return parseJson<OAuthTokens>((await this.getSession())?.tokens ?? null);
+  }
+
+  async saveTokens(tokens: OAuthTokens): Promise<void> {
+    await this.upsertSession("tokens", JSON.stringify(tokens));
+  }
+
+  redirectToAuthorization(authorizationUrl: URL): void {
+    // Authorization happens in the user's browser, so the URL is surfaced instead
+    this.authUrl = authorizationUrl.toString();
+  }
+
+  async saveCodeVerifier(codeVerifier: string): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    await this.db.batch([
+      this.db
+        .prepare("DELETE FROM mcp_oauth_states WHERE created_at < ?")
+        .bind(now - OAUTH_STATE_TTL_SECONDS),
+      this.db
+        .prepare(
+          "INSERT INTO mcp_oauth_states (state, user_id, server_id, code_verifier, created_at) VALUES (?, ?, ?, ?, ?)"
+        )
+        .bind(this.pendingState ?? this.state(), this.userId, this.mcpServerId, codeVerifier, now),
+    ]);
+  }
+
+  async codeVerifier(): Promise<string> {
+    const row = this.pendingState
+      ? await this.db
+          .prepare("SELECT code_verifier FROM mcp_oauth_states WHERE state = ?")
+          .bind(this.pendingState)
+          .first<{ code_verifier: string }>()
+      : null;
+    if (!row) {
+      throw new Error("No code verifier found");
+    }
+    return row.code_verifier;
+  }
+
+  async invalidateCredentials(scope: "all" | "client" | "tokens" | "verifier"): Promise<void> {
+    if (scope === "verifier") {
+      return;
+    }
+    if (scope === "all" || scope === "client") {
+      await this.upsertSession("client_info", null);
+    }
+    await this.upsertSession("tokens", null);
+  }
+
+  private getSession(): Promise<SessionRow | null> {
+    return this.db
+      .prepare("SELECT client_info, tokens FROM mcp_oauth_sessions WHERE user_id = ? AND server_id = ?")
+      .bind(this.userId, this.mcpServerId)
+      .first<SessionRow>();
+  }
+
+  private async upsertSession(column: "client_info" | "tokens", value: string | null): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO mcp_oauth_sessions (user_id, server_id, ${column}, updated_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (user_id, server_id) DO UPDATE SET ${column} = excluded.${column}, updated_at = excluded.updated_at`
+      )
+      .bind(this.userId, this.mcpServerId, value, Math.floor(Date.now() / 1000))
+      .run();
+  }
+}
+
+/**
+ * Find an unexpired authorization attempt by its OAuth state
+ */
+export async function getPendingAuthorization(
+  db: D1Database,
+  state: string
+): Promise<PendingAuthorization | null> {
+  return db
+    .prepare("SELECT * FROM mcp_oauth_states WHERE state = ? AND created_at >= ?")
+    .bind(state, Math.floor(Date.now() / 1000) - OAUTH_STATE_TTL_SECONDS)
+    .first<PendingAuthorization>();
+}
+
+/**
+ * Forget an authorization attempt once its callback has been handled
+ */
+export async function deletePendingAuthorization(db: D1Database, state: string): Promise<void> {
+  await db.prepare("DELETE FROM mcp_oauth_states WHERE state = ?").bind(state).run();
+}
@@ -0,0 +1,352 @@
+import type { Env } from "./agent";
+
+/**
+ * Transports the agent can connect over. The Agents SDK client speaks SSE.
+ */
+export const MCP_TRANSPORTS = ["sse"] as const;
+
+export type McpTransport = (typeof MCP_TRANSPORTS)[number];
+
+/**
+ * How a tool call is handled: run immediately, wait for the user's approval, or refuse
+ */
+export const TOOL_POLICIES = ["auto", "require-approval", "deny"] as const;
+
+export type ToolPolicy = (typeof TOOL_POLICIES)[number];
+
+/**
+ * Key in `tool_policies` applying to every tool without its own entry
+ */
+export const DEFAULT_TOOL_POLICY_KEY = "*";
+
+/**
+ * Separator between a server name and a tool name in namespaced tool names
+ */
+export const TOOL_NAMESPACE_SEPARATOR = "__";
+
+/**
+ * Secrets MCP auth headers may reference when `MCP_SECRET_NAMES` is not set
+ */
+const DEFAULT_MCP_SECRET_NAMES = ["STITCH_API_KEY"];
+
+/**
+ * Server names prefix tool names, so they are kept short and free of the separator
+ */
+const SERVER_NAME_PATTERN = /^[a-z][a-z0-9-]{0,31}$/;
+
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9-]+$/;
+
+/**
+ * A registered MCP server. `auth_headers` maps each header name to the name
+ * of the environment secret holding its value, never the value itself.
+ */
+export interface McpServer {
+  id: string;
+  name: string;
+  url: string;
+  transport: McpTransport;
+  auth_headers: Record<string, string>;
+  /** Policy per unprefixed tool name, with `*` as the default for the rest */
+  tool_policies: Record<string, ToolPolicy>;
+  /** Connected for threads that have not opted out */
+  enabled: boolean;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * A tool as advertised by an MCP server
+ */
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema: unknown;
+}
+
+/**
+ * Where an agent's connection to an MCP server stands
+ */
+export type McpConnectionState = "authenticating" | "connecting" | "discovering" | "ready" | "failed";
+
+/**
+ * Connection status of one of a thread's MCP servers
+ */
+export interface McpServerStatus {
+  serverId: string;
+  name: string;
+  state: McpConnectionState;
+  toolCount: number;
+  /** URL the thread owner opens to authorize the server, while authorization is pending */
+  authUrl: string | null;
+  error: string | null;
+}
+
+interface McpServerRow extends Omit<McpServer, "auth_headers" | "tool_policies" | "enabled"> {
+  auth_headers: string | null;
+  tool_policies: string | null;
+  enabled: number;
+}
+
+/**
+ * Fields accepted when creating or updating a server
+ */
+export interface McpServerInput {
+  name?: string;
+  url?: string;
+  transport?: string;
+  authHeaders?: Record<string, string>;
+  toolPolicies?: Record<string, string>;
+  enabled?: boolean;
+}
+
+function parseJsonObject<T>(raw: string | null, serverName: string, column: string): Record<string, T> {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    console.warn(`Ignoring malformed ${column} for MCP server ${serverName}`);
+    return {};
+  }
+}
+
+function rowToServer(row: McpServerRow): McpServer {
+  return {
+    ...row,
+    auth_headers: parseJsonObject<string>(row.auth_headers, row.name, "auth headers"),
+    tool_policies: parseJsonObject<ToolPolicy>(row.tool_policies, row.name, "tool policies"),
+    enabled: row.enabled === 1,
+  };
+}
+
+/**
+ * Names of the environment secrets MCP auth headers may reference
+ */
+export function getAllowedSecretNames(env: Env): string[] {
+  const names = (env.MCP_SECRET_NAMES ?? "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return names.length > 0 ? names : DEFAULT_MCP_SECRET_NAMES;
+}
+
+/**
+ * Check a create or update request, returning an error message if it is invalid.
+ * Creating requires a name and URL; updates only check the fields they set.
+ */
+export function validateMcpServerInput(
+  input: McpServerInput,
+  allowedSecrets: string[],
+  creating: boolean
+): string | null {
+  if (creating && (!input.name || !input.url)) {
+    return "Name and url are required";
+  }
+  if (input.name !== undefined && !SERVER_NAME_PATTERN.test(input.name)) {
+    return "Name must be 1-32 lowercase letters, digits or hyphens, starting with a letter";
+  }
+  if (input.url !== undefined) {
+    let url: URL;
+    try {
+      url = new URL(input.url);
+    } catch {
+      return "Invalid url";
+    }
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      return "Invalid url";
+    }
+  }
+  if (input.transport !== undefined && !(MCP_TRANSPORTS as readonly string[]).includes(input.transport)) {
+    return `Unsupported transport; expected one of ${MCP_TRANSPORTS.join(", ")}`;
+  }
+  if (input.authHeaders !== undefined) {
+    if (!input.authHeaders || typeof input.authHeaders !== "object" || Array.isArray(input.authHeaders)) {
+      return "authHeaders must map header names to secret names";
+    }
+    for (const [header, secret] of Object.entries(input.authHeaders)) {
+      if (!HEADER_NAME_PATTERN.test(header)) {
+        return `Invalid header name: ${header}`;
+      }
+      if (typeof secret !== "string" || !allowedSecrets.includes(secret)) {
+        return `Secret ${secret} is not allowed for MCP auth headers`;
+      }
+    }
+  }
+  if (input.toolPolicies !== undefined) {
+    if (!input.toolPolicies || typeof input.toolPolicies !== "object" || Array.isArray(input.toolPolicies)) {
+      return "toolPolicies must map tool names to policies";
+    }
+    for (const [tool, policy] of Object.entries(input.toolPolicies)) {
+      if (!(TOOL_POLICIES as readonly string[]).includes(policy)) {
+        return `Invalid policy for ${tool}; expected one of ${TOOL_POLICIES.join(", ")}`;
+      }
+    }
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    return "enabled must be a boolean";
+  }
+  return null;
+}
+
+/**
+ * Resolve a server's secret references into header values.
+ * Secrets missing from the environment are skipped.
+ */
+export function resolveAuthHeaders(server: McpServer, env: Env): Record<string, string> {
+  const allowed = getAllowedSecretNames(env);
+  const headers: Record<string, string> = {};
+
+  for (const [header, secret] of Object.entries(server.auth_headers)) {
+    const value = (env as unknown as Record<string, unknown>)[secret];
+    if (!allowed.includes(secret) || typeof value !== "string" || !value) {
+      console.warn(`MCP server ${server.name}: secret ${secret} is not available`);
+      continue;
+    }
+    headers[header] = value;
+  }
+
+  return headers;
+}
+
+/**
+ * Decide which servers a thread uses: its per-server overrides win, and
+ * servers it has no override for follow the registry's enabled flag
+ */
+export function selectThreadServers(
+  servers: McpServer[],
+  overrides: Record<string, boolean> | undefined
+): McpServer[] {
+  return servers.filter((server) => overrides?.[server.id] ?? server.enabled);
+}
+
+/**
+ * The policy for one of a server's tools, by its unprefixed name
+ */
+export function getToolPolicy(server: McpServer, toolName: string): ToolPolicy {
+  return (
+    server.tool_policies[toolName] ?? server.tool_policies[DEFAULT_TOOL_POLICY_KEY] ?? "auto"
+  );
+}
+
+/**
+ * Prefix a tool with its server name, e.g. `stitch__list_projects`
+ */
+export function namespaceToolName(serverName: string, toolName: string): string {
+  return `${serverName}${TOOL_NAMESPACE_SEPARATOR}${toolName}`;
+}
+
+/**
+ * Split a namespaced tool name into its server and tool, or null if it has no prefix
+ */
+export function parseToolName(name: string): { serverName: string; toolName: string } | null {
+  const index = name.indexOf(TOOL_NAMESPACE_SEPARATOR);
+  if (index <= 0) {
+    return null;
+  }
+  return {
+    serverName: name.slice(0, index),
+    toolName: name.slice(index + TOOL_NAMESPACE_SEPARATOR.length),
+  };
+}
+
+/**
+ * D1-backed registry of the MCP servers agents connect to
+ */
+export class McpServerStore {
+  constructor(private readonly db: D1Database) {}
+
+  /**
+   * List all registered servers by name
+   */
+  async listServers(): Promise<McpServer[]> {
+    const { results } = await this.db
+      .prepare("SELECT * FROM mcp_servers ORDER BY name ASC")
+      .all<McpServerRow>();
+    return results.map(rowToServer);
+  }
+
+  /**
+   * Get a single server by ID
+   */
+  async getServer(serverId: string): Promise<McpServer | null> {
+    const row = await this.db
+      .prepare("SELECT * FROM mcp_servers WHERE id = ?")
+      .bind(serverId)
+      .first<McpServerRow>();
+    return row ? rowToServer(row) : null;
+  }
+
+  /**
+   * Get a single server by its unique name
+   */
+  async getServerByName(name: string): Promise<McpServer | null> {
+    const row = await this.db
+      .prepare("SELECT * FROM mcp_servers WHERE name = ?")
+      .bind(name)
+      .first<McpServerRow>();
+    return row ? rowToServer(row) : null;
+  }
+
+  /**
+   * Register a server; the input must already be validated
+   */
+  async createServer(input: McpServerInput & { name: string; url: string }): Promise<McpServer> {
+    const serverId = crypto.randomUUID();
+    const now = Math.floor(Date.now() / 1000);
+
+    await this.db
+      .prepare(
+        `INSERT INTO mcp_servers (id, name, url, transport, auth_headers, tool_policies, enabled, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        serverId,
+        input.name,
+        input.url,
+        input.transport ?? "sse",
+        JSON.stringify(input.authHeaders ?? {}),
+        JSON.stringify(input.toolPolicies ?? {}),
+        input.enabled === false ? 0 : 1,
+        now,
+        now
+      )
+      .run();
+
+    return (await this.getServer(serverId))!;
+  }
+
+  /**
+   * Update the fields set in the input; the input must already be validated
+   */
+  async updateServer(serverId: string, input: McpServerInput): Promise<McpServer | null> {
+    const server = await this.getServer(serverId);
+    if (!server) {
+      return null;
+    }
+
+    await this.db
+      .prepare(
+        `UPDATE mcp_servers SET name = ?, url = ?, transport = ?, auth_headers = ?, tool_policies = ?, enabled = ?,
+         updated_at = ? WHERE id = ?`
+      )
+      .bind(
+        input.name ?? server.name,
+        input.url ?? server.url,
+        input.transport ?? server.transport,
+        JSON.stringify(input.authHeaders ?? server.auth_headers),
+        JSON.stringify(input.toolPolicies ?? server.tool_policies),
+        (input.enabled ?? server.enabled) ? 1 : 0,
+        Math.floor(Date.now() / 1000),
+        serverId
+      )
+      .run();
+
+    return this.getServer(serverId);
+  }
+
+  /**
+   * Remove a server from the registry
+   */
+  async deleteServer(serverId: string): Promise<boolean> {
+    const result = await this.db.prepare("DELETE FROM mcp_servers WHERE id = ?").bind(serverId).run();
+    return result.meta.changes > 0;
+  }
+}
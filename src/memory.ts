@@ -0,0 +1,452 @@
+import type { Message } from "./agent";
+import { formatTranscript } from "./context";
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  createEmbeddingProvider,
+  type ChatMessageParam,
+  type EmbeddingProvider,
+  type ProviderEnv,
+} from "./providers";
+
+/**
+ * Default number of memories recalled into a turn's prompt
+ */
+const DEFAULT_MEMORY_TOP_K = 5;
+
+/**
+ * Lowest similarity at which a memory counts as relevant to a message
+ */
+const MIN_RECALL_SCORE = 0.5;
+
+/**
+ * Similarity above which a new memory restates an existing one
+ */
+const DUPLICATE_SCORE = 0.92;
+
+/**
+ * Most memories kept from one turn, and the longest memory kept
+ */
+const MAX_MEMORIES_PER_TURN = 5;
+export const MAX_MEMORY_LENGTH = 500;
+
+/**
+ * Estimated tokens of each tool result included in extraction prompts
+ */
+const TOOL_RESULT_TOKENS = 200;
+
+/**
+ * A durable design decision remembered across a user's threads
+ */
+export interface Memory {
+  id: string;
+  owner_id: string;
+  /** Thread the memory was extracted from, if any */
+  thread_id: string | null;
+  /** Project the memory is recalled in, null for unfiled threads */
+  project_id: string | null;
+  content: string;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Memory row as stored in D1, with its embedding as a JSON array
+ */
+interface MemoryRow extends Memory {
+  embedding: string;
+}
+
+/**
+ * Whose memories, and from which project: each project keeps its own, and
+ * threads outside any project share the rest
+ */
+export interface MemoryScope {
+  ownerId: string;
+  projectId: string | null;
+}
+
+/**
+ * A memory and how similar it is to the text it was recalled for
+ */
+export interface RecalledMemory extends Memory {
+  score: number;
+}
+
+/**
+ * How memories are extracted and recalled
+ */
+export interface MemorySettings {
+  /** Whether decisions are extracted from finished turns */
+  extraction: boolean;
+  /** Most memories recalled into a turn */
+  topK: number;
+}
+
+/**
+ * Environment bindings the memory subsystem reads
+ */
+export interface MemoryEnv extends ProviderEnv {
+  DB: D1Database;
+  MEMORY_INDEX?: Vectorize;
+  EMBEDDING_MODEL?: string;
+  MEMORY_EXTRACTION?: string;
+  MEMORY_TOP_K?: string;
+}
+
+/**
+ * Read the memory settings from the environment
+ */
+export function getMemorySettings(env: MemoryEnv): MemorySettings {
+  const topK = Number(env.MEMORY_TOP_K);
+  return {
+    extraction: env.MEMORY_EXTRACTION !== "false",
+    topK: topK > 0 ? topK : DEFAULT_MEMORY_TOP_K,
+  };
+}
+
+/**
+ * Cosine similarity of two vectors of the same length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < a.length; index++) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Nearest-neighbour index over memory embeddings, searched within a scope
+ */
+export interface MemoryIndex {
+  upsert(scope: MemoryScope, memoryId: string, vector: number[]): Promise<void>;
+  query(scope: MemoryScope, vector: number[], topK: number): Promise<Array<{ id: string; score: number }>>;
+  delete(memoryIds: string[]): Promise<void>;
+}
+
+/**
+ * Memory index backed by Vectorize. The index must use cosine distance and
+ * have metadata indexes on `ownerId` and `projectId`. Memories outside any
+ * project have an empty `projectId`, since metadata filters cannot match null.
+ */
+export class VectorizeMemoryIndex implements MemoryIndex {
+  constructor(private readonly index: Vectorize) {}
+
+  async upsert({ ownerId, projectId }: MemoryScope, memoryId: string, vector: number[]): Promise<void> {
+    await this.index.upsert([{ id: memoryId, values: vector, metadata: { ownerId, projectId: projectId ?? "" } }]);
+  }
+
+  async query(
+    { ownerId, projectId }: MemoryScope,
+    vector: number[],
+    topK: number
+  ): Promise<Array<{ id: string; score: number }>> {
+    const { matches } = await this.index.query(vector, { topK, filter: { ownerId, projectId: projectId ?? "" } });
+    return matches.map((match) => ({ id: match.id, score: match.score }));
+  }
+
+  async delete(memoryIds: string[]): Promise<void> {
+    await this.index.deleteByIds(memoryIds);
+  }
+}
+
+/**
+ * Memory index that ranks a scope's embeddings from D1 in memory. Used
+ * when no Vectorize index is bound, such as in local development and tests.
+ */
+export class LocalMemoryIndex implements MemoryIndex {
+  constructor(private readonly db: D1Database) {}
+
+  // Embeddings already live on the D1 rows
+  async upsert(): Promise<void> {}
+
+  async query(
+    { ownerId, projectId }: MemoryScope,
+    vector: number[],
+    topK: number
+  ): Promise<Array<{ id: string; score: number }>> {
+    const { results } = await this.db
+      .prepare("SELECT id, embedding FROM memories WHERE owner_id = ? AND project_id IS ?")
+      .bind(ownerId, projectId)
+      .all<{ id: string; embedding: string }>();
+
+    return results
+      .map((row) => ({ id: row.id, score: cosineSimilarity(vector, JSON.parse(row.embedding)) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async delete(): Promise<void> {}
+}
+
+/**
+ * Strip the embedding from a stored row
+ */
+function toMemory({ embedding: _embedding, ...memory }: MemoryRow): Memory {
+  return memory;
+}
+
+/**
+ * D1 store of a user's memories, kept in step with a similarity index. The
+ * embedder is only built by operations that embed text, so listing and
+ * deleting memories work without an embedding provider configured.
+ */
+export class MemoryStore {
+  private embedder?: EmbeddingProvider;
+
+  constructor(
+    private readonly db: D1Database,
+    private readonly index: MemoryIndex,
+    private readonly createEmbedder: () => EmbeddingProvider
+  ) {}
+
+  private embed(texts: string[]): Promise<number[][]> {
+    this.embedder ??= this.createEmbedder();
+    return this.embedder.embed(texts);
+  }
+
+  /**
+   * List a user's memories, most recently updated first. A project ID, or
+   * null for memories outside any project, narrows the list.
+   */
+  async listMemories(ownerId: string, projectId?: string | null): Promise<Memory[]> {
+    const statement =
+      projectId === undefined
+        ? this.db
+            .prepare("SELECT * FROM memories WHERE owner_id = ? ORDER BY updated_at DESC, created_at DESC")
+            .bind(ownerId)
+        : this.db
+            .prepare(
+              "SELECT * FROM memories WHERE owner_id = ? AND project_id IS ? ORDER BY updated_at DESC, created_at DESC"
+            )
+            .bind(ownerId, projectId);
+    const { results } = await statement.all<MemoryRow>();
+    return results.map(toMemory);
+  }
+
+  /**
+   * List the memories extracted from one of a user's threads, oldest first
+   */
+  async listThreadMemories(ownerId: string, threadId: string): Promise<Memory[]> {
+    const { results } = await this.db
+      .prepare("SELECT * FROM memories WHERE owner_id = ? AND thread_id = ? ORDER BY created_at ASC")
+      .bind(ownerId, threadId)
+      .all<MemoryRow>();
+    return results.map(toMemory);
+  }
+
+  /**
+   * Get one of a user's memories
+   */
+  async getMemory(ownerId: string, memoryId: string): Promise<Memory | null> {
+    const row = await this.db
+      .prepare("SELECT * FROM memories WHERE id = ? AND owner_id = ?")
+      .bind(memoryId, ownerId)
+      .first<MemoryRow>();
+    return row ? toMemory(row) : null;
+  }
+
+  /**
+   * Remember new statements in a scope, skipping any that restate an
+   * existing memory there. Returns the memories that were added.
+   */
+  async addMemories(scope: MemoryScope, threadId: string | null, contents: string[]): Promise<Memory[]> {
+    if (contents.length === 0) {
+      return [];
+    }
+
+    const vectors = await this.embed(contents);
+    const added: Memory[] = [];
+
+    for (const [position, content] of contents.entries()) {
+      const vector = vectors[position];
+      const [nearest] = await this.index.query(scope, vector, 1);
+      if (nearest && nearest.score >= DUPLICATE_SCORE) {
+        continue;
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      const memory: Memory = {
+        id: crypto.randomUUID(),
+        owner_id: scope.ownerId,
+        thread_id: threadId,
+        project_id: scope.projectId,
+        content,
+        created_at: now,
+        updated_at: now,
+      };
+      await this.db
+        .prepare(
+          `INSERT INTO memories (id, owner_id, thread_id, project_id, content, embedding, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(memory.id, scope.ownerId, threadId, scope.projectId, content, JSON.stringify(vector), now, now)
+        .run();
+      await this.index.upsert(scope, memory.id, vector);
+      added.push(memory);
+    }
+
+    return added;
+  }
+
+  /**
+   * Rewrite a memory, re-embedding its new content
+   */
+  async updateMemory(ownerId: string, memoryId: string, content: string): Promise<Memory | null> {
+    const memory = await this.getMemory(ownerId, memoryId);
+    if (!memory) {
+      return null;
+    }
+
+    const [vector] = await this.embed([content]);
+    await this.db
+      .prepare("UPDATE memories SET content = ?, embedding = ?, updated_at = ? WHERE id = ?")
+      .bind(content, JSON.stringify(vector), Math.floor(Date.now() / 1000), memoryId)
+      .run();
+    await this.index.upsert({ ownerId, projectId: memory.project_id }, memoryId, vector);
+
+    return this.getMemory(ownerId, memoryId);
+  }
+
+  /**
+   * Index the memories extracted from one of a user's threads under the
+   * project they are now in, after the thread moved to another project
+   */
+  async reindexThreadMemories(ownerId: string, threadId: string): Promise<void> {
+    const { results } = await this.db
+      .prepare("SELECT * FROM memories WHERE owner_id = ? AND thread_id = ?")
+      .bind(ownerId, threadId)
+      .all<MemoryRow>();
+    for (const memory of results) {
+      await this.index.upsert({ ownerId, projectId: memory.project_id }, memory.id, JSON.parse(memory.embedding));
+    }
+  }
+
+  /**
+   * Forget a memory. Returns false if the user has no such memory.
+   */
+  async deleteMemory(ownerId: string, memoryId: string): Promise<boolean> {
+    const result = await this.db
+      .prepare("DELETE FROM memories WHERE id = ? AND owner_id = ?")
+      .bind(memoryId, ownerId)
+      .run();
+    if (result.meta.changes === 0) {
+      return false;
+    }
+    await this.index.delete([memoryId]);
+    return true;
+  }
+
+  /**
+   * Forget every memory of one of a user's projects
+   */
+  async deleteProjectMemories(ownerId: string, projectId: string): Promise<void> {
+    const memories = await this.listMemories(ownerId, projectId);
+    if (memories.length === 0) {
+      return;
+    }
+    await this.db
+      .prepare("DELETE FROM memories WHERE owner_id = ? AND project_id = ?")
+      .bind(ownerId, projectId)
+      .run();
+    await this.index.delete(memories.map((memory) => memory.id));
+  }
+
+  /**
+   * Find the memories in a scope most relevant to a piece of text
+   */
+  async recall(scope: MemoryScope, text: string, topK: number): Promise<RecalledMemory[]> {
+    const [vector] = await this.embed([text]);
+    const matches = (await this.index.query(scope, vector, topK)).filter(
+      (match) => match.score >= MIN_RECALL_SCORE
+    );
+    if (matches.length === 0) {
+      return [];
+    }
+
+    const { results } = await this.db
+      .prepare(
+        `SELECT * FROM memories WHERE owner_id = ? AND id IN (${matches.map(() => "?").join(", ")})`
+      )
+      .bind(scope.ownerId, ...matches.map((match) => match.id))
+      .all<MemoryRow>();
+    const byId = new Map(results.map((row) => [row.id, row]));
+
+    return matches.flatMap((match) => {
+      const row = byId.get(match.id);
+      return row ? [{ ...toMemory(row), score: match.score }] : [];
+    });
+  }
+}
+
+/**
+ * Build the memory store for an environment: Vectorize when MEMORY_INDEX is
+ * bound, otherwise the local index over D1
+ */
+export function createMemoryStore(env: MemoryEnv): MemoryStore {
+  return new MemoryStore(
+    env.DB,
+    env.MEMORY_INDEX ? new VectorizeMemoryIndex(env.MEMORY_INDEX) : new LocalMemoryIndex(env.DB),
+    () => createEmbeddingProvider(env, env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL)
+  );
+}
+
+/**
+ * Format recalled memories as a system message for the model
+ */
+export function formatMemories(memories: Memory[]): string {
+  return (
+    "Design decisions remembered from earlier conversations. Follow them unless the user changes them:\n" +
+    memories.map((memory) => `- ${memory.content}`).join("\n")
+  );
+}
+
+/**
+ * Build the request asking the model for the durable design decisions in
+ * the latest exchange
+ */
+export function buildMemoryExtractionRequest(exchange: Message[]): ChatMessageParam[] {
+  return [
+    {
+      role: "system",
+      content:
+        "Extract the durable design decisions from this exchange of a UX design conversation: choices that " +
+        "should carry over to future work, such as spacing grids, colors, typography, component conventions " +
+        "or target platforms. Ignore tentative ideas, questions and one-off requests. Answer with a JSON array " +
+        'of short, self-contained statements, e.g. ["Primary color is #4F46E5"], or [] if there are none.',
+    },
+    { role: "user", content: formatTranscript(exchange, TOOL_RESULT_TOKENS) },
+  ];
+}
+
+/**
+ * Read the statements from the model's answer to an extraction request,
+ * tolerating text around the JSON array
+ */
+export function parseExtractedMemories(answer: string): string[] {
+  const start = answer.indexOf("[");
+  const end = answer.lastIndexOf("]");
+  if (start === -1 || end < start) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(answer.slice(start, end + 1));
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  return parsed
+    .filter((item): item is string => typeof item === "string")
+    .map((item) => item.trim().slice(0, MAX_MEMORY_LENGTH))
+    .filter(Boolean)
+    .slice(0, MAX_MEMORIES_PER_TURN);
+}
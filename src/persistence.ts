@@ -0,0 +1,287 @@
+import type { Message, Thread } from "./agent";
+import { indexMessage, indexThreadTitle, unindexThread } from "./search";
+
+/**
+ * Message row as stored in the D1 messages table
+ */
+export interface MessageRow {
+  id: string;
+  thread_id: string;
+  role: Message["role"];
+  content: string;
+  tool_calls: string | null;
+  tool_call_id: string | null;
+  created_at: number;
+  metadata: string | null;
+  parent_id: string | null;
+}
+
+/**
+ * JSON stored in threads.metadata
+ */
+export interface ThreadMetadata {
+  /** Model reference (`provider:model`) used for this thread */
+  model?: string;
+  /** Persona pinned at thread creation */
+  personaId?: string;
+  /** Persona version the thread is pinned to */
+  personaVersion?: number;
+  /** Last message of the branch shown when the thread is opened */
+  activeLeafId?: string;
+  /** Per-server overrides of the MCP registry's enabled flag, keyed by server ID */
+  mcpServers?: Record<string, boolean>;
+  /** Short generated description of the conversation */
+  summary?: string;
+  /** Number of user turns the summary covers */
+  summaryTurns?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Parse a thread's metadata column, tolerating missing or malformed JSON
+ */
+export function parseThreadMetadata(raw: string | null): ThreadMetadata {
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * D1 stores timestamps in unix seconds while the agent works in milliseconds
+ */
+function toSeconds(ms: number): number {
+  return Math.floor(ms / 1000);
+}
+
+/**
+ * Canonical thread/message store backed by the D1 schema in schema.sql.
+ *
+ * Every write is idempotent so the agent can replay its Durable Object
+ * cache into D1 without producing duplicates.
+ */
+export class ThreadStore {
+  constructor(private readonly db: D1Database) {}
+
+  /**
+   * List a user's threads, most recently updated first, optionally only
+   * those in one project
+   */
+  async listThreads(ownerId: string, projectId?: string): Promise<Thread[]> {
+    const statement = projectId
+      ? this.db
+          .prepare("SELECT * FROM threads WHERE owner_id = ? AND project_id = ? ORDER BY updated_at DESC")
+          .bind(ownerId, projectId)
+      : this.db.prepare("SELECT * FROM threads WHERE owner_id = ? ORDER BY updated_at DESC").bind(ownerId);
+    const { results } = await statement.all<Thread>();
+    return results;
+  }
+
+  /**
+   * Get a single thread by ID
+   */
+  async getThread(threadId: string): Promise<Thread | null> {
+    return this.db
+      .prepare("SELECT * FROM threads WHERE id = ?")
+      .bind(threadId)
+      .first<Thread>();
+  }
+
+  /**
+   * Insert a thread if it does not exist yet. Timestamps are in milliseconds.
+   */
+  async ensureThread(thread: {
+    id: string;
+    title: string | null;
+    createdAt: number;
+    updatedAt?: number;
+    metadata?: ThreadMetadata;
+    ownerId?: string | null;
+    projectId?: string | null;
+  }): Promise<void> {
+    const metadata =
+      thread.metadata && Object.keys(thread.metadata).length > 0
+        ? JSON.stringify(thread.metadata)
+        : null;
+
+    const insert = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO threads (id, title, created_at, updated_at, metadata, owner_id, project_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        thread.id,
+        thread.title,
+        toSeconds(thread.createdAt),
+        toSeconds(thread.updatedAt ?? thread.createdAt),
+        metadata,
+        thread.ownerId ?? null,
+        thread.projectId ?? null
+      );
+
+    await this.db.batch(thread.title ? [insert, ...indexThreadTitle(this.db, thread.id)] : [insert]);
+  }
+
+  /**
+   * Read a thread's parsed metadata
+   */
+  async getThreadMetadata(threadId: string): Promise<ThreadMetadata> {
+    const row = await this.db
+      .prepare("SELECT metadata FROM threads WHERE id = ?")
+      .bind(threadId)
+      .first<{ metadata: string | null }>();
+    return parseThreadMetadata(row?.metadata ?? null);
+  }
+
+  /**
+   * Merge keys into a thread's metadata; `undefined` values remove a key
+   */
+  async updateThreadMetadata(threadId: string, patch: ThreadMetadata): Promise<ThreadMetadata> {
+    const metadata = { ...(await this.getThreadMetadata(threadId)), ...patch };
+    for (const key of Object.keys(metadata)) {
+      if (metadata[key] === undefined) {
+        delete metadata[key];
+      }
+    }
+
+    await this.db
+      .prepare("UPDATE threads SET metadata = ? WHERE id = ?")
+      .bind(JSON.stringify(metadata), threadId)
+      .run();
+    return metadata;
+  }
+
+  /**
+   * Rename a thread; null clears the title so it can be generated again
+   */
+  async updateThreadTitle(threadId: string, title: string | null): Promise<void> {
+    await this.db.batch([
+      this.db.prepare("UPDATE threads SET title = ? WHERE id = ?").bind(title, threadId),
+      ...indexThreadTitle(this.db, threadId),
+    ]);
+  }
+
+  /**
+   * Move a thread into a project, together with its decision records and the
+   * memories extracted from it; null leaves them unfiled
+   */
+  async updateThreadProject(threadId: string, projectId: string | null): Promise<void> {
+    await this.db.batch([
+      this.db.prepare("UPDATE threads SET project_id = ? WHERE id = ?").bind(projectId, threadId),
+      this.db.prepare("UPDATE decisions SET project_id = ? WHERE thread_id = ?").bind(projectId, threadId),
+      this.db.prepare("UPDATE memories SET project_id = ? WHERE thread_id = ?").bind(projectId, threadId),
+    ]);
+  }
+
+  /**
+   * Set a generated title unless the thread already has one, so a manual
+   * rename is never overwritten. Returns whether the title was set.
+   */
+  async setTitleIfUntitled(threadId: string, title: string): Promise<boolean> {
+    const [result] = await this.db.batch([
+      this.db.prepare("UPDATE threads SET title = ? WHERE id = ? AND title IS NULL").bind(title, threadId),
+      ...indexThreadTitle(this.db, threadId),
+    ]);
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * List the messages of a thread in insertion order
+   */
+  async listMessages(threadId: string): Promise<MessageRow[]> {
+    const { results } = await this.db
+      .prepare(
+        "SELECT * FROM messages WHERE thread_id = ? ORDER BY created_at ASC, rowid ASC"
+      )
+      .bind(threadId)
+      .all<MessageRow>();
+    return results;
+  }
+
+  /**
+   * List the IDs of all messages already stored for a thread
+   */
+  async listMessageIds(threadId: string): Promise<Set<string>> {
+    const { results } = await this.db
+      .prepare("SELECT id FROM messages WHERE thread_id = ?")
+      .bind(threadId)
+      .all<{ id: string }>();
+    return new Set(results.map((row) => row.id));
+  }
+
+  /**
+   * Persist a message and bump the thread's updated_at timestamp
+   */
+  async saveMessage(threadId: string, message: Message): Promise<void> {
+    await this.saveMessages(threadId, [message]);
+  }
+
+  /**
+   * Persist several messages in a single batch, adding them to the search index
+   */
+  async saveMessages(threadId: string, messages: Message[]): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    const insert = this.db.prepare(
+      `INSERT OR IGNORE INTO messages (id, thread_id, role, content, tool_calls, tool_call_id, created_at, metadata, parent_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const lastCreatedAt = Math.max(...messages.map((msg) => msg.createdAt));
+
+    await this.db.batch([
+      ...messages.map((msg) =>
+        insert.bind(
+          msg.id,
+          threadId,
+          msg.role,
+          msg.content,
+          msg.toolCalls ? JSON.stringify(msg.toolCalls) : null,
+          msg.toolCallId || null,
+          toSeconds(msg.createdAt),
+          msg.metadata ? JSON.stringify(msg.metadata) : null,
+          msg.parentId ?? null
+        )
+      ),
+      ...messages.map((msg) => indexMessage(this.db, msg.id)),
+      this.db
+        .prepare("UPDATE threads SET updated_at = MAX(updated_at, ?) WHERE id = ?")
+        .bind(toSeconds(lastCreatedAt), threadId),
+    ]);
+  }
+
+  /**
+   * Delete a thread with its messages, share links and decisions
+   */
+  async deleteThread(threadId: string): Promise<void> {
+    await this.db.batch([
+      ...unindexThread(this.db, threadId),
+      this.db.prepare("DELETE FROM messages WHERE thread_id = ?").bind(threadId),
+      this.db.prepare("DELETE FROM thread_shares WHERE thread_id = ?").bind(threadId),
+      this.db.prepare("DELETE FROM decisions WHERE thread_id = ?").bind(threadId),
+      this.db.prepare("DELETE FROM threads WHERE id = ?").bind(threadId),
+    ]);
+  }
+}
+
+/**
+ * Convert a D1 message row back into the agent's Message shape
+ */
+export function rowToMessage(row: MessageRow): Message {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    toolCalls: row.tool_calls ? JSON.parse(row.tool_calls) : undefined,
+    toolCallId: row.tool_call_id || undefined,
+    createdAt: row.created_at * 1000,
+    metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+    parentId: row.parent_id,
+  };
+}
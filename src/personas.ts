@@ -0,0 +1,142 @@
+/**
+ * Persona row joined with the system prompt of its current version
+ */
+export interface Persona {
+  id: string;
+  name: string;
+  description: string | null;
+  current_version: number;
+  system_prompt: string;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * A single revision of a persona's system prompt
+ */
+export interface PersonaVersion {
+  persona_id: string;
+  version: number;
+  system_prompt: string;
+  created_at: number;
+}
+
+const SELECT_PERSONA = `
+  SELECT p.*, v.system_prompt FROM personas p
+  JOIN persona_versions v ON v.persona_id = p.id AND v.version = p.current_version
+`;
+
+/**
+ * D1-backed persona registry. Editing a persona's prompt creates a new
+ * version so threads pinned to an older version keep their behavior.
+ */
+export class PersonaStore {
+  constructor(private readonly db: D1Database) {}
+
+  /**
+   * List all personas by name
+   */
+  async listPersonas(): Promise<Persona[]> {
+    const { results } = await this.db.prepare(`${SELECT_PERSONA} ORDER BY p.name ASC`).all<Persona>();
+    return results;
+  }
+
+  /**
+   * Get a persona with its current prompt
+   */
+  async getPersona(personaId: string): Promise<Persona | null> {
+    return this.db.prepare(`${SELECT_PERSONA} WHERE p.id = ?`).bind(personaId).first<Persona>();
+  }
+
+  /**
+   * List every version of a persona, newest first
+   */
+  async listVersions(personaId: string): Promise<PersonaVersion[]> {
+    const { results } = await this.db
+      .prepare("SELECT * FROM persona_versions WHERE persona_id = ? ORDER BY version DESC")
+      .bind(personaId)
+      .all<PersonaVersion>();
+    return results;
+  }
+
+  /**
+   * Get a specific version of a persona
+   */
+  async getVersion(personaId: string, version: number): Promise<PersonaVersion | null> {
+    return this.db
+      .prepare("SELECT * FROM persona_versions WHERE persona_id = ? AND version = ?")
+      .bind(personaId, version)
+      .first<PersonaVersion>();
+  }
+
+  /**
+   * Create a persona at version 1
+   */
+  async createPersona(input: {
+    name: string;
+    description?: string | null;
+    systemPrompt: string;
+  }): Promise<Persona> {
+    const personaId = crypto.randomUUID();
+    const now = Math.floor(Date.now() / 1000);
+
+    await this.db.batch([
+      this.db
+        .prepare(
+          "INSERT INTO personas (id, name, description, current_version, created_at, updated_at) VALUES (?, ?, ?, 1, ?, ?)"
+        )
+        .bind(personaId, input.name, input.description || null, now, now),
+      this.db
+        .prepare(
+          "INSERT INTO persona_versions (persona_id, version, system_prompt, created_at) VALUES (?, 1, ?, ?)"
+        )
+        .bind(personaId, input.systemPrompt, now),
+    ]);
+
+    return (await this.getPersona(personaId))!;
+  }
+
+  /**
+   * Update a persona's name or description, and add a new version when the prompt changes
+   */
+  async updatePersona(
+    personaId: string,
+    input: { name?: string; description?: string | null; systemPrompt?: string }
+  ): Promise<Persona | null> {
+    const persona = await this.getPersona(personaId);
+    if (!persona) {
+      return null;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const promptChanged =
+      input.systemPrompt !== undefined && input.systemPrompt !== persona.system_prompt;
+    const version = promptChanged ? persona.current_version + 1 : persona.current_version;
+    const statements = [
+      this.db
+        .prepare(
+          "UPDATE personas SET name = ?, description = ?, current_version = ?, updated_at = ? WHERE id = ?"
+        )
+        .bind(
+          input.name ?? persona.name,
+          input.description === undefined ? persona.description : input.description,
+          version,
+          now,
+          personaId
+        ),
+    ];
+
+    if (promptChanged) {
+      statements.unshift(
+        this.db
+          .prepare(
+            "INSERT INTO persona_versions (persona_id, version, system_prompt, created_at) VALUES (?, ?, ?, ?)"
+          )
+          .bind(personaId, version, input.systemPrompt!, now)
+      );
+    }
+
+    await this.db.batch(statements);
+    return this.getPersona(personaId);
+  }
+}
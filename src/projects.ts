@@ -0,0 +1,203 @@
+/**
+ * Longest project name accepted
+ */
+export const MAX_PROJECT_NAME_LENGTH = 80;
+
+/**
+ * A project grouping a user's threads and memories. Its defaults apply to
+ * the threads filed in it.
+ */
+export interface Project {
+  id: string;
+  owner_id: string;
+  name: string;
+  description: string | null;
+  /** Persona new threads in the project are pinned to */
+  persona_id: string | null;
+  /** MCP server overrides, keyed by server ID; a thread's own overrides win */
+  mcp_servers: Record<string, boolean>;
+  /** Stitch project holding the project's designs */
+  stitch_project_id: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+interface ProjectRow extends Omit<Project, "mcp_servers"> {
+  mcp_servers: string | null;
+}
+
+/**
+ * Fields accepted when creating or updating a project
+ */
+export interface ProjectInput {
+  name?: string;
+  description?: string | null;
+  personaId?: string | null;
+  mcpServers?: Record<string, boolean>;
+  stitchProjectId?: string | null;
+}
+
+function rowToProject(row: ProjectRow): Project {
+  let mcpServers: Record<string, boolean> = {};
+  try {
+    mcpServers = row.mcp_servers ? JSON.parse(row.mcp_servers) : {};
+  } catch {
+    console.warn(`Ignoring malformed MCP server overrides for project ${row.id}`);
+  }
+  return { ...row, mcp_servers: mcpServers };
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || value === null || typeof value === "string";
+}
+
+/**
+ * Check the shape of a create or update request, returning an error message
+ * if it is invalid. Creating requires a name; updates only check the fields
+ * they set. Whether the persona and MCP servers exist is checked separately.
+ */
+export function validateProjectInput(input: ProjectInput, creating: boolean): string | null {
+  if (creating && input.name === undefined) {
+    return "Name is required";
+  }
+  if (
+    input.name !== undefined &&
+    (typeof input.name !== "string" || !input.name.trim() || input.name.trim().length > MAX_PROJECT_NAME_LENGTH)
+  ) {
+    return `Name must be a non-empty string of at most ${MAX_PROJECT_NAME_LENGTH} characters`;
+  }
+  if (!isOptionalString(input.description)) {
+    return "description must be a string or null";
+  }
+  if (!isOptionalString(input.personaId)) {
+    return "personaId must be a string or null";
+  }
+  if (!isOptionalString(input.stitchProjectId)) {
+    return "stitchProjectId must be a string or null";
+  }
+  if (
+    input.mcpServers !== undefined &&
+    (!input.mcpServers ||
+      typeof input.mcpServers !== "object" ||
+      Array.isArray(input.mcpServers) ||
+      Object.values(input.mcpServers).some((value) => typeof value !== "boolean"))
+  ) {
+    return "mcpServers must map server IDs to booleans";
+  }
+  return null;
+}
+
+/**
+ * Describe a project for the system prompt of its threads
+ */
+export function describeProject(project: Project): string {
+  const lines = [`This conversation belongs to the project "${project.name}".`];
+  if (project.description) {
+    lines.push(project.description);
+  }
+  if (project.stitch_project_id) {
+    lines.push(
+      `The project's designs live in Stitch project ${project.stitch_project_id}; ` +
+        "use it with the Stitch tools unless the user names another project."
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * D1 store of projects. Ownership is checked by callers.
+ */
+export class ProjectStore {
+  constructor(private readonly db: D1Database) {}
+
+  /**
+   * List a user's projects by name
+   */
+  async listProjects(ownerId: string): Promise<Project[]> {
+    const { results } = await this.db
+      .prepare("SELECT * FROM projects WHERE owner_id = ? ORDER BY name COLLATE NOCASE ASC")
+      .bind(ownerId)
+      .all<ProjectRow>();
+    return results.map(rowToProject);
+  }
+
+  /**
+   * Get a single project by ID
+   */
+  async getProject(projectId: string): Promise<Project | null> {
+    const row = await this.db
+      .prepare("SELECT * FROM projects WHERE id = ?")
+      .bind(projectId)
+      .first<ProjectRow>();
+    return row ? rowToProject(row) : null;
+  }
+
+  /**
+   * Create a project; the input must already be validated
+   */
+  async createProject(ownerId: string, input: ProjectInput & { name: string }): Promise<Project> {
+    const projectId = crypto.randomUUID();
+    const now = Math.floor(Date.now() / 1000);
+
+    await this.db
+      .prepare(
+        `INSERT INTO projects (id, owner_id, name, description, persona_id, mcp_servers, stitch_project_id, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        projectId,
+        ownerId,
+        input.name.trim(),
+        input.description || null,
+        input.personaId || null,
+        JSON.stringify(input.mcpServers ?? {}),
+        input.stitchProjectId?.trim() || null,
+        now,
+        now
+      )
+      .run();
+
+    return (await this.getProject(projectId))!;
+  }
+
+  /**
+   * Update the fields set in the input; the input must already be validated.
+   * Null clears a default.
+   */
+  async updateProject(projectId: string, input: ProjectInput): Promise<Project | null> {
+    const project = await this.getProject(projectId);
+    if (!project) {
+      return null;
+    }
+
+    await this.db
+      .prepare(
+        `UPDATE projects SET name = ?, description = ?, persona_id = ?, mcp_servers = ?, stitch_project_id = ?,
+         updated_at = ? WHERE id = ?`
+      )
+      .bind(
+        input.name?.trim() ?? project.name,
+        input.description !== undefined ? input.description || null : project.description,
+        input.personaId !== undefined ? input.personaId || null : project.persona_id,
+        JSON.stringify(input.mcpServers ?? project.mcp_servers),
+        input.stitchProjectId !== undefined ? input.stitchProjectId?.trim() || null : project.stitch_project_id,
+        Math.floor(Date.now() / 1000),
+        projectId
+      )
+      .run();
+
+    return this.getProject(projectId);
+  }
+
+  /**
+   * Delete a project. Its threads and decisions are kept and become unfiled.
+   */
+  async deleteProject(projectId: string): Promise<boolean> {
+    const [, , result] = await this.db.batch([
+      this.db.prepare("UPDATE threads SET project_id = NULL WHERE project_id = ?").bind(projectId),
+      this.db.prepare("UPDATE decisions SET project_id = NULL WHERE project_id = ?").bind(projectId),
+      this.db.prepare("DELETE FROM projects WHERE id = ?").bind(projectId),
+    ]);
+    return result.meta.changes > 0;
+  }
+}
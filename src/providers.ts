@@ -0,0 +1,406 @@
+import OpenAI from "openai";
+
+/**
+ * Chat messages and tools use the OpenAI wire format as the common shape;
+ * adapters for other backends translate to and from it.
+ */
+export type ChatMessageParam = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+export type ChatTool = OpenAI.Chat.Completions.ChatCompletionTool;
+export type ChatToolCall = OpenAI.Chat.Completions.ChatCompletionMessageToolCall;
+
+/**
+ * A single completion request
+ */
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessageParam[];
+  tools?: ChatTool[];
+  /** Abort the request after this many milliseconds */
+  timeoutMs?: number;
+  /** When set, the response is streamed and each text chunk is reported here */
+  onTextDelta?: (delta: string) => void;
+}
+
+/**
+ * Token usage reported by the provider
+ */
+export interface CompletionUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * The assistant turn produced by a completion
+ */
+export interface CompletionResult {
+  content: string;
+  toolCalls: ChatToolCall[];
+  usage?: CompletionUsage;
+}
+
+/**
+ * A chat model backend capable of tool calling and streaming
+ */
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+/**
+ * A text embedding model backend
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  /** Embed each text as a vector, in the order given */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Thrown when a completion does not finish within its timeout
+ */
+export class ProviderTimeoutError extends Error {
+  constructor(provider: string) {
+    super(`${provider} completion timed out`);
+    this.name = "ProviderTimeoutError";
+  }
+}
+
+/**
+ * Provider for OpenAI and any server that speaks the OpenAI chat API
+ */
+export class OpenAIProvider implements LLMProvider {
+  private readonly client: OpenAI;
+
+  constructor(
+    readonly name: string,
+    options: { apiKey: string; baseURL?: string }
+  ) {
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const body = {
+      model: request.model,
+      messages: request.messages,
+      tools: request.tools && request.tools.length > 0 ? request.tools : undefined,
+      tool_choice: request.tools && request.tools.length > 0 ? ("auto" as const) : undefined,
+    };
+    const options = { timeout: request.timeoutMs };
+
+    try {
+      let completion: OpenAI.Chat.Completions.ChatCompletion;
+
+      if (request.onTextDelta) {
+        const onTextDelta = request.onTextDelta;
+        const stream = this.client.beta.chat.completions.stream(
+          { ...body, stream_options: { include_usage: true } },
+          options
+        );
+        stream.on("content", (delta) => onTextDelta(delta));
+        completion = await stream.finalChatCompletion();
+      } else {
+        completion = await this.client.chat.completions.create(body, options);
+      }
+
+      const message = completion.choices[0].message;
+      return {
+        content: message.content || "",
+        toolCalls: message.tool_calls || [],
+        usage: completion.usage
+          ? {
+              promptTokens: completion.usage.prompt_tokens,
+              completionTokens: completion.usage.completion_tokens,
+            }
+          : undefined,
+      };
+    } catch (error) {
+      if (error instanceof OpenAI.APIConnectionTimeoutError) {
+        throw new ProviderTimeoutError(this.name);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Embedding provider for OpenAI and OpenAI-compatible embedding endpoints
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  private readonly client: OpenAI;
+
+  constructor(
+    readonly name: string,
+    private readonly model: string,
+    options: { apiKey: string; baseURL?: string }
+  ) {
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({ model: this.model, input: texts });
+    return [...response.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+}
+
+/**
+ * Minimal view of the Workers AI binding used by the adapter
+ */
+interface WorkersAiBinding {
+  run(model: string, inputs: Record<string, unknown>): Promise<unknown>;
+}
+
+/**
+ * Output shape of Workers AI text generation models
+ */
+interface WorkersAiOutput {
+  response?: string;
+  tool_calls?: Array<{ name: string; arguments: Record<string, unknown> | string }>;
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+/**
+ * Provider for Cloudflare Workers AI text generation models
+ */
+export class WorkersAIProvider implements LLMProvider {
+  readonly name = "workers-ai";
+  private readonly ai: WorkersAiBinding;
+
+  constructor(ai: Ai) {
+    this.ai = ai as unknown as WorkersAiBinding;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const tools = request.tools?.map((tool) => ({
+      name: tool.function.name,
+      description: tool.function.description || "",
+      parameters: tool.function.parameters,
+    }));
+    // Workers AI does not stream tool calls, so only plain-text turns are streamed
+    const stream = Boolean(request.onTextDelta) && !(tools && tools.length > 0);
+
+    const run = this.ai.run(request.model, {
+      messages: request.messages.map(toWorkersAiMessage),
+      tools: tools && tools.length > 0 ? tools : undefined,
+      stream,
+    });
+    const output = await withTimeout(run, request.timeoutMs, this.name);
+
+    if (stream) {
+      return { content: await readWorkersAiStream(output as ReadableStream, request.onTextDelta!), toolCalls: [] };
+    }
+
+    const result = output as WorkersAiOutput;
+    const content = result.response || "";
+    if (content && request.onTextDelta) {
+      request.onTextDelta(content);
+    }
+
+    return {
+      content,
+      toolCalls: (result.tool_calls || []).map((call) => ({
+        id: `call_${crypto.randomUUID()}`,
+        type: "function" as const,
+        function: {
+          name: call.name,
+          arguments:
+            typeof call.arguments === "string" ? call.arguments : JSON.stringify(call.arguments),
+        },
+      })),
+      usage: result.usage
+        ? {
+            promptTokens: result.usage.prompt_tokens,
+            completionTokens: result.usage.completion_tokens,
+          }
+        : undefined,
+    };
+  }
+}
+
+/**
+ * Embedding provider for Workers AI text embedding models
+ */
+export class WorkersAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "workers-ai";
+  private readonly ai: WorkersAiBinding;
+
+  constructor(
+    ai: Ai,
+    private readonly model: string
+  ) {
+    this.ai = ai as unknown as WorkersAiBinding;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const output = (await this.ai.run(this.model, { text: texts })) as { data?: number[][] };
+    if (!output.data || output.data.length !== texts.length) {
+      throw new Error(`Workers AI returned no embeddings for ${this.model}`);
+    }
+    return output.data;
+  }
+}
+
+/**
+ * Flatten an OpenAI message into the role/content shape Workers AI accepts
+ */
+function toWorkersAiMessage(message: ChatMessageParam): { role: string; content: string } {
+  const content =
+    typeof message.content === "string"
+      ? message.content
+      : (message.content || [])
+          .map((part) => ("text" in part ? part.text : ""))
+          .join("\n");
+
+  if (message.role === "assistant" && message.tool_calls?.length) {
+    const calls = message.tool_calls
+      .map((call) => `${call.function.name}(${call.function.arguments})`)
+      .join(", ");
+    return { role: "assistant", content: `${content}\n[Called tools: ${calls}]`.trim() };
+  }
+
+  return { role: message.role === "developer" ? "system" : message.role, content };
+}
+
+/**
+ * Read a Workers AI SSE stream, reporting each text chunk
+ */
+async function readWorkersAiStream(
+  stream: ReadableStream,
+  onTextDelta: (delta: string) => void
+): Promise<string> {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let content = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      const data = line.startsWith("data: ") ? line.slice(6).trim() : "";
+      if (!data || data === "[DONE]") continue;
+
+      const chunk = JSON.parse(data) as { response?: string };
+      if (chunk.response) {
+        content += chunk.response;
+        onTextDelta(chunk.response);
+      }
+    }
+  }
+
+  return content;
+}
+
+/**
+ * Reject with a ProviderTimeoutError if the promise does not settle in time
+ */
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number | undefined, provider: string): Promise<T> {
+  if (!timeoutMs) {
+    return promise;
+  }
+
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ProviderTimeoutError(provider)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Model used when neither the thread nor the environment picks one
+ */
+export const FALLBACK_MODEL = "openai:gpt-4-turbo-preview";
+
+/**
+ * Embedding model used when the environment does not pick one
+ */
+export const DEFAULT_EMBEDDING_MODEL = "workers-ai:@cf/baai/bge-base-en-v1.5";
+
+/**
+ * Environment bindings the provider registry reads
+ */
+export interface ProviderEnv {
+  OPENAI_API_KEY: string;
+  OPENAI_COMPATIBLE_BASE_URL?: string;
+  OPENAI_COMPATIBLE_API_KEY?: string;
+  AI?: Ai;
+}
+
+/**
+ * Split a model reference of the form `provider:model`.
+ * A bare model name is treated as an OpenAI model.
+ */
+export function parseModelRef(ref: string): { provider: string; model: string } {
+  const separator = ref.indexOf(":");
+  if (separator === -1) {
+    return { provider: "openai", model: ref };
+  }
+  return { provider: ref.slice(0, separator), model: ref.slice(separator + 1) };
+}
+
+/**
+ * Provider names accepted in model references
+ */
+export const PROVIDER_NAMES = ["openai", "openai-compatible", "workers-ai"] as const;
+
+/**
+ * Check that a model reference names a known provider and a model
+ */
+export function isValidModelRef(ref: string): boolean {
+  const { provider, model } = parseModelRef(ref);
+  return (PROVIDER_NAMES as readonly string[]).includes(provider) && model.length > 0;
+}
+
+/**
+ * Build the provider for a model reference
+ */
+export function createProvider(env: ProviderEnv, providerName: string): LLMProvider {
+  switch (providerName) {
+    case "openai":
+      return new OpenAIProvider("openai", { apiKey: env.OPENAI_API_KEY });
+    case "openai-compatible":
+      if (!env.OPENAI_COMPATIBLE_BASE_URL) {
+        throw new Error("OPENAI_COMPATIBLE_BASE_URL environment variable is not set");
+      }
+      return new OpenAIProvider("openai-compatible", {
+        apiKey: env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+        baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+      });
+    case "workers-ai":
+      if (!env.AI) {
+        throw new Error("AI binding is not configured");
+      }
+      return new WorkersAIProvider(env.AI);
+    default:
+      throw new Error(`Unknown model provider: ${providerName}`);
+  }
+}
+
+/**
+ * Build the embedding provider for a model reference
+ */
+export function createEmbeddingProvider(env: ProviderEnv, modelRef: string): EmbeddingProvider {
+  const { provider, model } = parseModelRef(modelRef);
+  switch (provider) {
+    case "openai":
+      return new OpenAIEmbeddingProvider("openai", model, { apiKey: env.OPENAI_API_KEY });
+    case "openai-compatible":
+      if (!env.OPENAI_COMPATIBLE_BASE_URL) {
+        throw new Error("OPENAI_COMPATIBLE_BASE_URL environment variable is not set");
+      }
+      return new OpenAIEmbeddingProvider("openai-compatible", model, {
+        apiKey: env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+        baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+      });
+    case "workers-ai":
+      if (!env.AI) {
+        throw new Error("AI binding is not configured");
+      }
+      return new WorkersAIEmbeddingProvider(env.AI, model);
+    default:
+      throw new Error(`Unknown model provider: ${provider}`);
+  }
+}
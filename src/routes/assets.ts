@@ -0,0 +1,42 @@
+import { Hono } from "hono";
+import { AssetStore, getAssetResponseHeaders } from "../assets";
+import { authorizeThread, type AppEnv } from "../auth";
+
+/**
+ * Stored asset routes, mounted at /api/assets
+ */
+const assets = new Hono<AppEnv>();
+
+/**
+ * Serve an asset to the owner of the thread it belongs to; only images show
+ * inline. Asset IDs are never reused, so the content can be cached indefinitely.
+ */
+assets.get("/:assetId", async (c) => {
+  try {
+    const store = new AssetStore(c.env.DB, c.env.ASSETS_BUCKET);
+    const asset = await store.getAsset(c.req.param("assetId"));
+
+    if (!asset) {
+      return c.json({ error: "Asset not found" }, 404);
+    }
+
+    const denied = await authorizeThread(c, asset.thread_id);
+    if (denied) {
+      return denied;
+    }
+
+    const content = await store.getContent(asset.id);
+    if (!content) {
+      return c.json({ error: "Asset not found" }, 404);
+    }
+
+    return new Response(content.body, {
+      headers: getAssetResponseHeaders(asset, "private, max-age=31536000, immutable"),
+    });
+  } catch (error) {
+    console.error("Error fetching asset:", error);
+    return c.json({ error: "Failed to fetch asset" }, 500);
+  }
+});
+
+export default assets;
@@ -0,0 +1,63 @@
+import { Hono } from "hono";
+import { ATTACHMENT_MIME_TYPES, AssetStore, getAssetUrl, getAttachmentMaxBytes } from "../assets";
+import { authorizeThread, type AppEnv } from "../auth";
+
+/**
+ * Message attachment routes, mounted at /api/attachments
+ */
+const attachments = new Hono<AppEnv>();
+
+/**
+ * Upload a file to attach to a message in a thread the caller owns.
+ * Expects multipart form data with `file` and `threadId` fields; the returned
+ * ID goes in the `attachments` array of a chat request.
+ */
+attachments.post("/", async (c) => {
+  try {
+    const form = await c.req.parseBody();
+    const file = form.file;
+    const threadId = form.threadId;
+
+    if (!(file instanceof File) || typeof threadId !== "string" || !threadId) {
+      return c.json({ error: "A file and threadId are required" }, 400);
+    }
+    if (!ATTACHMENT_MIME_TYPES.includes(file.type)) {
+      return c.json({ error: `Unsupported attachment type: ${file.type || "unknown"}` }, 400);
+    }
+    const maxBytes = getAttachmentMaxBytes(c.env);
+    if (file.size > maxBytes) {
+      return c.json({ error: `Attachments are limited to ${maxBytes} bytes` }, 413);
+    }
+
+    const denied = await authorizeThread(c, threadId);
+    if (denied) {
+      return denied;
+    }
+
+    const asset = await new AssetStore(c.env.DB, c.env.ASSETS_BUCKET).putAsset({
+      threadId,
+      mimeType: file.type,
+      data: await file.arrayBuffer(),
+      source: "upload",
+      name: file.name,
+    });
+
+    return c.json(
+      {
+        attachment: {
+          id: asset.id,
+          name: file.name,
+          mimeType: asset.mime_type,
+          size: asset.size,
+          url: getAssetUrl(asset.id),
+        },
+      },
+      201
+    );
+  } catch (error) {
+    console.error("Error uploading attachment:", error);
+    return c.json({ error: "Failed to upload attachment" }, 500);
+  }
+});
+
+export default attachments;
@@ -0,0 +1,94 @@
+import { Hono } from "hono";
+import { deleteCookie, setCookie } from "hono/cookie";
+import {
+  DEFAULT_TOKEN_TTL_SECONDS,
+  SESSION_COOKIE,
+  secretsMatch,
+  signToken,
+  verifyToken,
+  type AppEnv,
+} from "../auth";
+
+/**
+ * Authentication routes, mounted at /api/auth
+ */
+const auth = new Hono<AppEnv>();
+
+/**
+ * Issue a signed token for a user (requires the admin token)
+ */
+auth.post("/tokens", async (c) => {
+  try {
+    if (!c.env.AUTH_SECRET || !c.env.AUTH_ADMIN_TOKEN) {
+      return c.json({ error: "Token issuing is not configured" }, 500);
+    }
+
+    const header = c.req.header("Authorization") || "";
+    if (!header.startsWith("Bearer ") || !secretsMatch(header.slice("Bearer ".length), c.env.AUTH_ADMIN_TOKEN)) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const body = await c.req.json<{ userId?: string; ttlSeconds?: number }>();
+
+    if (!body.userId?.trim()) {
+      return c.json({ error: "userId is required" }, 400);
+    }
+
+    const ttlSeconds = Number(body.ttlSeconds) > 0 ? Number(body.ttlSeconds) : DEFAULT_TOKEN_TTL_SECONDS;
+    const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds;
+    const token = await signToken(c.env.AUTH_SECRET, { sub: body.userId.trim(), exp: expiresAt });
+
+    return c.json({ token, userId: body.userId.trim(), expiresAt }, 201);
+  } catch (error) {
+    console.error("Error issuing token:", error);
+    return c.json({ error: "Failed to issue token" }, 500);
+  }
+});
+
+/**
+ * Exchange a token for an HTTP-only session cookie (used by the browser)
+ */
+auth.post("/session", async (c) => {
+  try {
+    if (!c.env.AUTH_SECRET) {
+      return c.json({ error: "Authentication is not configured" }, 500);
+    }
+
+    const body = await c.req.json<{ token?: string }>();
+    const claims = body.token ? await verifyToken(c.env.AUTH_SECRET, body.token) : null;
+
+    if (!claims) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    setCookie(c, SESSION_COOKIE, body.token!, {
+      httpOnly: true,
+      secure: true,
+      sameSite: "Lax",
+      path: "/",
+      maxAge: claims.exp - Math.floor(Date.now() / 1000),
+    });
+
+    return c.json({ userId: claims.sub });
+  } catch (error) {
+    console.error("Error creating session:", error);
+    return c.json({ error: "Failed to create session" }, 500);
+  }
+});
+
+/**
+ * Sign out by clearing the session cookie
+ */
+auth.delete("/session", (c) => {
+  deleteCookie(c, SESSION_COOKIE, { path: "/", secure: true });
+  return c.json({ success: true });
+});
+
+/**
+ * Return the authenticated user
+ */
+auth.get("/me", (c) => {
+  return c.json({ userId: c.get("userId") });
+});
+
+export default auth;
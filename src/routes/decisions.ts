@@ -0,0 +1,105 @@
+import { Hono, type Context } from "hono";
+import type { AppEnv } from "../auth";
+import {
+  DECISION_EXPORT_FORMATS,
+  DecisionStore,
+  renderDecisionLog,
+  type DecisionExportFormat,
+  type DecisionFilter,
+} from "../decisions";
+
+/**
+ * Routes for the caller's design decision log, mounted at /api/decisions
+ */
+const decisions = new Hono<AppEnv>();
+
+/**
+ * The list filters in the request's query: `threadId`, `projectId`, `tag` and `q`
+ */
+function getDecisionFilter(c: Context<AppEnv>): DecisionFilter {
+  return {
+    threadId: c.req.query("threadId") || undefined,
+    projectId: c.req.query("projectId") || undefined,
+    tag: c.req.query("tag") || undefined,
+    query: c.req.query("q") || undefined,
+  };
+}
+
+/**
+ * List the caller's decisions, newest first, optionally filtered
+ */
+decisions.get("/", async (c) => {
+  try {
+    const list = await new DecisionStore(c.env.DB).listDecisions(c.get("userId"), getDecisionFilter(c));
+    return c.json({ decisions: list });
+  } catch (error) {
+    console.error("Error listing decisions:", error);
+    return c.json({ error: "Failed to list decisions" }, 500);
+  }
+});
+
+/**
+ * Download the filtered decision log as a Markdown ADR document (default) or JSON
+ */
+decisions.get("/export", async (c) => {
+  const format = (c.req.query("format") || "markdown") as DecisionExportFormat;
+  if (!DECISION_EXPORT_FORMATS.includes(format)) {
+    return c.json({ error: `format must be one of ${DECISION_EXPORT_FORMATS.join(", ")}` }, 400);
+  }
+
+  try {
+    const list = await new DecisionStore(c.env.DB).listDecisions(c.get("userId"), getDecisionFilter(c));
+    const [body, contentType, extension] =
+      format === "json"
+        ? [JSON.stringify({ decisions: list }, null, 2), "application/json; charset=utf-8", "json"]
+        : [renderDecisionLog(list), "text/markdown; charset=utf-8", "md"];
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="design-decisions.${extension}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting decisions:", error);
+    return c.json({ error: "Failed to export decisions" }, 500);
+  }
+});
+
+/**
+ * Get one of the caller's decisions
+ */
+decisions.get("/:decisionId", async (c) => {
+  try {
+    const decision = await new DecisionStore(c.env.DB).getDecision(c.req.param("decisionId"));
+    if (!decision || decision.owner_id !== c.get("userId")) {
+      return c.json({ error: "Decision not found" }, 404);
+    }
+
+    return c.json({ decision });
+  } catch (error) {
+    console.error("Error fetching decision:", error);
+    return c.json({ error: "Failed to fetch decision" }, 500);
+  }
+});
+
+/**
+ * Delete one of the caller's decisions
+ */
+decisions.delete("/:decisionId", async (c) => {
+  try {
+    const store = new DecisionStore(c.env.DB);
+    const decision = await store.getDecision(c.req.param("decisionId"));
+    if (!decision || decision.owner_id !== c.get("userId")) {
+      return c.json({ error: "Decision not found" }, 404);
+    }
+
+    await store.deleteDecision(decision.id);
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting decision:", error);
+    return c.json({ error: "Failed to delete decision" }, 500);
+  }
+});
+
+export default decisions;
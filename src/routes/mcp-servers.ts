@@ -0,0 +1,124 @@
+import { Hono } from "hono";
+import { requireAdmin, type AppEnv } from "../auth";
+import {
+  McpServerStore,
+  getAllowedSecretNames,
+  validateMcpServerInput,
+  type McpServerInput,
+} from "../mcp-servers";
+
+/**
+ * MCP server registry routes, mounted at /api/mcp-servers. The registry is
+ * shared by every user and decides which hosts receive the Worker's secrets,
+ * so only administrators can change it.
+ */
+const mcpServers = new Hono<AppEnv>();
+
+/**
+ * List all registered MCP servers
+ */
+mcpServers.get("/", async (c) => {
+  try {
+    const servers = await new McpServerStore(c.env.DB).listServers();
+    return c.json({ servers });
+  } catch (error) {
+    console.error("Error listing MCP servers:", error);
+    return c.json({ error: "Failed to list MCP servers" }, 500);
+  }
+});
+
+/**
+ * Register an MCP server (administrators only)
+ */
+mcpServers.post("/", requireAdmin(), async (c) => {
+  try {
+    const body = await c.req.json<McpServerInput>();
+
+    const invalid = validateMcpServerInput(body, getAllowedSecretNames(c.env), true);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+
+    const store = new McpServerStore(c.env.DB);
+    if (await store.getServerByName(body.name!)) {
+      return c.json({ error: "An MCP server with this name already exists" }, 409);
+    }
+
+    const server = await store.createServer({ ...body, name: body.name!, url: body.url! });
+    return c.json({ server }, 201);
+  } catch (error) {
+    console.error("Error creating MCP server:", error);
+    return c.json({ error: "Failed to create MCP server" }, 500);
+  }
+});
+
+/**
+ * Get a registered MCP server
+ */
+mcpServers.get("/:serverId", async (c) => {
+  try {
+    const server = await new McpServerStore(c.env.DB).getServer(c.req.param("serverId"));
+
+    if (!server) {
+      return c.json({ error: "MCP server not found" }, 404);
+    }
+
+    return c.json({ server });
+  } catch (error) {
+    console.error("Error fetching MCP server:", error);
+    return c.json({ error: "Failed to fetch MCP server" }, 500);
+  }
+});
+
+/**
+ * Update a registered MCP server (administrators only); agents pick up the
+ * change on their next turn
+ */
+mcpServers.patch("/:serverId", requireAdmin(), async (c) => {
+  try {
+    const body = await c.req.json<McpServerInput>();
+
+    const invalid = validateMcpServerInput(body, getAllowedSecretNames(c.env), false);
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+
+    const store = new McpServerStore(c.env.DB);
+    const serverId = c.req.param("serverId");
+    if (body.name !== undefined) {
+      const existing = await store.getServerByName(body.name);
+      if (existing && existing.id !== serverId) {
+        return c.json({ error: "An MCP server with this name already exists" }, 409);
+      }
+    }
+
+    const server = await store.updateServer(serverId, body);
+
+    if (!server) {
+      return c.json({ error: "MCP server not found" }, 404);
+    }
+
+    return c.json({ server });
+  } catch (error) {
+    console.error("Error updating MCP server:", error);
+    return c.json({ error: "Failed to update MCP server" }, 500);
+  }
+});
+
+/**
+ * Remove an MCP server from the registry (administrators only)
+ */
+mcpServers.delete("/:serverId", requireAdmin(), async (c) => {
+  try {
+    if (!(await new McpServerStore(c.env.DB).deleteServer(c.req.param("serverId")))) {
+      return c.json({ error: "MCP server not found" }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting MCP server:", error);
+    return c.json({ error: "Failed to delete MCP server" }, 500);
+  }
+});
+
+export default mcpServers;
@@ -0,0 +1,109 @@
+import { Hono } from "hono";
+import { getAgentByName } from "agents";
+import { auth as authorizeMcp } from "@modelcontextprotocol/sdk/client/auth.js";
+import { authorizeThread, type AppEnv } from "../auth";
+import {
+  McpOAuthProvider,
+  deletePendingAuthorization,
+  getOAuthRedirectUrl,
+  getPendingAuthorization,
+} from "../mcp-oauth";
+import { McpServerStore } from "../mcp-servers";
+
+/**
+ * MCP connection routes, mounted at /api/mcp
+ */
+const mcp = new Hono<AppEnv>();
+
+/**
+ * Page shown in the authorization popup; it tells the opener and closes itself
+ */
+function callbackPage(title: string, detail: string, serverId?: string): string {
+  const notify = serverId
+    ? `window.opener?.postMessage(${JSON.stringify({ type: "mcp-authorized", serverId })}, location.origin);`
+    : "";
+  return `<!doctype html>
+<html>
+  <head><title>${title}</title></head>
+  <body>
+    <h1>${title}</h1>
+    <p>${detail}</p>
+    <script>${notify}window.close();</script>
+  </body>
+</html>`;
+}
+
+/**
+ * Report the state and tool count of each MCP server a thread uses,
+ * including the URL to open for servers awaiting authorization
+ */
+mcp.get("/status", async (c) => {
+  const threadId = c.req.query("threadId");
+
+  if (!threadId) {
+    return c.json({ error: "threadId is required" }, 400);
+  }
+
+  try {
+    const denied = await authorizeThread(c, threadId);
+    if (denied) {
+      return denied;
+    }
+
+    const agent = await getAgentByName(c.env.UX_ARCHITECT_AGENT, threadId);
+    const agentResponse = await agent.fetch(new Request("https://agent/mcp/status"));
+
+    return c.json(await agentResponse.json());
+  } catch (error) {
+    console.error("Error fetching MCP status:", error);
+    return c.json({ error: "Failed to fetch MCP status" }, 500);
+  }
+});
+
+/**
+ * OAuth redirect target: exchange the code for tokens and store them for the
+ * user who started the authorization. Public, since the `state` identifies the
+ * attempt and the popup may not carry the user's credentials.
+ */
+mcp.get("/callback", async (c) => {
+  const code = c.req.query("code");
+  const state = c.req.query("state");
+
+  if (!code || !state) {
+    return c.html(callbackPage("Authorization failed", "The authorization server did not return a code."), 400);
+  }
+
+  try {
+    const pending = await getPendingAuthorization(c.env.DB, state);
+    if (!pending) {
+      return c.html(
+        callbackPage("Authorization expired", "Start the connection again from the chat."),
+        400
+      );
+    }
+
+    const server = await new McpServerStore(c.env.DB).getServer(pending.server_id);
+    if (!server) {
+      return c.html(callbackPage("Authorization failed", "This MCP server is no longer registered."), 404);
+    }
+
+    const provider = new McpOAuthProvider(
+      c.env.DB,
+      pending.user_id,
+      server.id,
+      getOAuthRedirectUrl(c.env),
+      state
+    );
+    await authorizeMcp(provider, { serverUrl: server.url, authorizationCode: code });
+    await deletePendingAuthorization(c.env.DB, state);
+
+    return c.html(
+      callbackPage(`Connected to ${server.name}`, "You can close this window and return to the chat.", server.id)
+    );
+  } catch (error) {
+    console.error("Error completing MCP authorization:", error);
+    return c.html(callbackPage("Authorization failed", "The MCP server did not accept the authorization."), 500);
+  }
+});
+
+export default mcp;
@@ -0,0 +1,64 @@
+import { Hono } from "hono";
+import type { AppEnv } from "../auth";
+import { MAX_MEMORY_LENGTH, createMemoryStore } from "../memory";
+
+/**
+ * Routes for the caller's remembered design decisions, mounted at /api/memories
+ */
+const memories = new Hono<AppEnv>();
+
+/**
+ * List the caller's memories, most recently updated first, or only those
+ * of `projectId`
+ */
+memories.get("/", async (c) => {
+  try {
+    const list = await createMemoryStore(c.env).listMemories(c.get("userId"), c.req.query("projectId") || undefined);
+    return c.json({ memories: list });
+  } catch (error) {
+    console.error("Error listing memories:", error);
+    return c.json({ error: "Failed to list memories" }, 500);
+  }
+});
+
+/**
+ * Rewrite a memory; its embedding is recomputed from the new content
+ */
+memories.patch("/:memoryId", async (c) => {
+  try {
+    const body = await c.req.json<{ content?: unknown }>();
+    const content = typeof body.content === "string" ? body.content.trim() : "";
+    if (!content || content.length > MAX_MEMORY_LENGTH) {
+      return c.json({ error: `content must be a non-empty string of at most ${MAX_MEMORY_LENGTH} characters` }, 400);
+    }
+
+    const memory = await createMemoryStore(c.env).updateMemory(c.get("userId"), c.req.param("memoryId"), content);
+    if (!memory) {
+      return c.json({ error: "Memory not found" }, 404);
+    }
+
+    return c.json({ memory });
+  } catch (error) {
+    console.error("Error updating memory:", error);
+    return c.json({ error: "Failed to update memory" }, 500);
+  }
+});
+
+/**
+ * Forget a memory
+ */
+memories.delete("/:memoryId", async (c) => {
+  try {
+    const deleted = await createMemoryStore(c.env).deleteMemory(c.get("userId"), c.req.param("memoryId"));
+    if (!deleted) {
+      return c.json({ error: "Memory not found" }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting memory:", error);
+    return c.json({ error: "Failed to delete memory" }, 500);
+  }
+});
+
+export default memories;
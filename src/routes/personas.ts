@@ -0,0 +1,118 @@
+import { Hono } from "hono";
+import type { Env } from "../agent";
+import { PersonaStore } from "../personas";
+
+/**
+ * Persona registry routes, mounted at /api/personas
+ */
+const personas = new Hono<{ Bindings: Env }>();
+
+/**
+ * List all personas with their current system prompt
+ */
+personas.get("/", async (c) => {
+  try {
+    const list = await new PersonaStore(c.env.DB).listPersonas();
+    return c.json({ personas: list });
+  } catch (error) {
+    console.error("Error listing personas:", error);
+    return c.json({ error: "Failed to list personas" }, 500);
+  }
+});
+
+/**
+ * Create a new persona
+ */
+personas.post("/", async (c) => {
+  try {
+    const body = await c.req.json<{ name?: string; description?: string; systemPrompt?: string }>();
+
+    if (!body.name?.trim() || !body.systemPrompt?.trim()) {
+      return c.json({ error: "Name and systemPrompt are required" }, 400);
+    }
+
+    const persona = await new PersonaStore(c.env.DB).createPersona({
+      name: body.name.trim(),
+      description: body.description,
+      systemPrompt: body.systemPrompt,
+    });
+    return c.json({ persona }, 201);
+  } catch (error) {
+    console.error("Error creating persona:", error);
+    return c.json({ error: "Failed to create persona" }, 500);
+  }
+});
+
+/**
+ * Get a persona with its current system prompt
+ */
+personas.get("/:personaId", async (c) => {
+  try {
+    const persona = await new PersonaStore(c.env.DB).getPersona(c.req.param("personaId"));
+
+    if (!persona) {
+      return c.json({ error: "Persona not found" }, 404);
+    }
+
+    return c.json({ persona });
+  } catch (error) {
+    console.error("Error fetching persona:", error);
+    return c.json({ error: "Failed to fetch persona" }, 500);
+  }
+});
+
+/**
+ * Update a persona; changing the system prompt creates a new version
+ */
+personas.patch("/:personaId", async (c) => {
+  try {
+    const body = await c.req.json<{
+      name?: string;
+      description?: string | null;
+      systemPrompt?: string;
+    }>();
+
+    if (body.name !== undefined && !body.name.trim()) {
+      return c.json({ error: "Name cannot be empty" }, 400);
+    }
+    if (body.systemPrompt !== undefined && !body.systemPrompt.trim()) {
+      return c.json({ error: "systemPrompt cannot be empty" }, 400);
+    }
+
+    const persona = await new PersonaStore(c.env.DB).updatePersona(c.req.param("personaId"), {
+      name: body.name?.trim(),
+      description: body.description,
+      systemPrompt: body.systemPrompt,
+    });
+
+    if (!persona) {
+      return c.json({ error: "Persona not found" }, 404);
+    }
+
+    return c.json({ persona });
+  } catch (error) {
+    console.error("Error updating persona:", error);
+    return c.json({ error: "Failed to update persona" }, 500);
+  }
+});
+
+/**
+ * List every version of a persona's system prompt
+ */
+personas.get("/:personaId/versions", async (c) => {
+  try {
+    const store = new PersonaStore(c.env.DB);
+    const personaId = c.req.param("personaId");
+
+    if (!(await store.getPersona(personaId))) {
+      return c.json({ error: "Persona not found" }, 404);
+    }
+
+    return c.json({ versions: await store.listVersions(personaId) });
+  } catch (error) {
+    console.error("Error listing persona versions:", error);
+    return c.json({ error: "Failed to list persona versions" }, 500);
+  }
+});
+
+export default personas;
@@ -0,0 +1,129 @@
+import { Hono, type Context } from "hono";
+import { getOwnedProject, type AppEnv } from "../auth";
+import { McpServerStore } from "../mcp-servers";
+import { createMemoryStore } from "../memory";
+import { PersonaStore } from "../personas";
+import { ProjectStore, validateProjectInput, type ProjectInput } from "../projects";
+
+/**
+ * Project routes, mounted at /api/projects. Projects are private to their owner.
+ */
+const projects = new Hono<AppEnv>();
+
+/**
+ * Check that the persona and MCP servers a project refers to exist,
+ * returning an error message if one does not
+ */
+async function checkProjectReferences(c: Context<AppEnv>, input: ProjectInput): Promise<string | null> {
+  if (input.personaId && !(await new PersonaStore(c.env.DB).getPersona(input.personaId))) {
+    return "Persona not found";
+  }
+  if (input.mcpServers) {
+    const registered = new Set((await new McpServerStore(c.env.DB).listServers()).map((server) => server.id));
+    const unknown = Object.keys(input.mcpServers).find((serverId) => !registered.has(serverId));
+    if (unknown) {
+      return `MCP server not found: ${unknown}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * List the caller's projects
+ */
+projects.get("/", async (c) => {
+  try {
+    const list = await new ProjectStore(c.env.DB).listProjects(c.get("userId"));
+    return c.json({ projects: list });
+  } catch (error) {
+    console.error("Error listing projects:", error);
+    return c.json({ error: "Failed to list projects" }, 500);
+  }
+});
+
+/**
+ * Create a project with defaults for its threads
+ */
+projects.post("/", async (c) => {
+  try {
+    const body = await c.req.json<ProjectInput>();
+
+    const invalid = validateProjectInput(body, true) ?? (await checkProjectReferences(c, body));
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+
+    const project = await new ProjectStore(c.env.DB).createProject(c.get("userId"), { ...body, name: body.name! });
+    return c.json({ project }, 201);
+  } catch (error) {
+    console.error("Error creating project:", error);
+    return c.json({ error: "Failed to create project" }, 500);
+  }
+});
+
+/**
+ * Get one of the caller's projects
+ */
+projects.get("/:projectId", async (c) => {
+  try {
+    const project = await getOwnedProject(c, c.req.param("projectId"));
+
+    if (!project) {
+      return c.json({ error: "Project not found" }, 404);
+    }
+
+    return c.json({ project });
+  } catch (error) {
+    console.error("Error fetching project:", error);
+    return c.json({ error: "Failed to fetch project" }, 500);
+  }
+});
+
+/**
+ * Update a project; defaults set to null are cleared. New persona defaults
+ * apply to threads created afterwards, MCP server overrides and the Stitch
+ * project to every thread in the project.
+ */
+projects.patch("/:projectId", async (c) => {
+  try {
+    const body = await c.req.json<ProjectInput>();
+
+    const invalid = validateProjectInput(body, false) ?? (await checkProjectReferences(c, body));
+    if (invalid) {
+      return c.json({ error: invalid }, 400);
+    }
+
+    if (!(await getOwnedProject(c, c.req.param("projectId")))) {
+      return c.json({ error: "Project not found" }, 404);
+    }
+
+    const project = await new ProjectStore(c.env.DB).updateProject(c.req.param("projectId"), body);
+    return c.json({ project });
+  } catch (error) {
+    console.error("Error updating project:", error);
+    return c.json({ error: "Failed to update project" }, 500);
+  }
+});
+
+/**
+ * Delete a project and its memories. Its threads are kept and become unfiled.
+ */
+projects.delete("/:projectId", async (c) => {
+  const projectId = c.req.param("projectId");
+
+  try {
+    if (!(await getOwnedProject(c, projectId))) {
+      return c.json({ error: "Project not found" }, 404);
+    }
+
+    await createMemoryStore(c.env).deleteProjectMemories(c.get("userId"), projectId);
+    await new ProjectStore(c.env.DB).deleteProject(projectId);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting project:", error);
+    return c.json({ error: "Failed to delete project" }, 500);
+  }
+});
+
+export default projects;
@@ -0,0 +1,35 @@
+import { Hono } from "hono";
+import type { AppEnv } from "../auth";
+import { DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT, SearchStore } from "../search";
+
+/**
+ * Full-text search routes, mounted at /api/search
+ */
+const search = new Hono<AppEnv>();
+
+/**
+ * Search the caller's thread titles and messages for `q`, returning
+ * snippets with the offsets of each match. A `limit` that is not a positive
+ * integer falls back to the default.
+ */
+search.get("/", async (c) => {
+  const query = c.req.query("q")?.trim();
+  if (!query) {
+    return c.json({ error: "q is required" }, 400);
+  }
+  const limit = Number(c.req.query("limit"));
+
+  try {
+    const results = await new SearchStore(c.env.DB).search(
+      c.get("userId"),
+      query,
+      Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_SEARCH_LIMIT) : DEFAULT_SEARCH_LIMIT
+    );
+    return c.json({ results });
+  } catch (error) {
+    console.error("Error searching threads:", error);
+    return c.json({ error: "Failed to search threads" }, 500);
+  }
+});
+
+export default search;
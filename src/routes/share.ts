@@ -0,0 +1,100 @@
+import { Hono, type Context } from "hono";
+import { ASSET_ROUTE_PREFIX, AssetStore, getAssetResponseHeaders } from "../assets";
+import type { AppEnv } from "../auth";
+import { DecisionStore } from "../decisions";
+import { buildThreadExport, getActiveBranch } from "../export";
+import { createMemoryStore } from "../memory";
+import { ThreadStore } from "../persistence";
+import { ShareStore, isShareActive, type ThreadShare } from "../shares";
+
+/**
+ * Public routes for read-only share links, mounted at /api/share. The token
+ * in the path is the only credential; these routes need no sign-in.
+ */
+const share = new Hono<AppEnv>();
+
+/**
+ * Look up a live share link, or the error response to send for a missing,
+ * expired or revoked one
+ */
+async function getLiveShare(c: Context<AppEnv>, token: string): Promise<ThreadShare | Response> {
+  const found = await new ShareStore(c.env.DB).getShare(token);
+  if (!found) {
+    return c.json({ error: "Share link not found" }, 404);
+  }
+  if (!isShareActive(found)) {
+    return c.json({ error: "Share link has expired or been revoked" }, 410);
+  }
+  return found;
+}
+
+/**
+ * Get the shared thread's active branch, decision records and remembered
+ * notes. Asset URLs point at this link's asset route so images load without
+ * signing in.
+ */
+share.get("/:token", async (c) => {
+  const token = c.req.param("token");
+
+  try {
+    const found = await getLiveShare(c, token);
+    if (found instanceof Response) {
+      return found;
+    }
+
+    const store = new ThreadStore(c.env.DB);
+    const [thread, rows, records, memories] = await Promise.all([
+      store.getThread(found.thread_id),
+      store.listMessages(found.thread_id),
+      new DecisionStore(c.env.DB).listDecisions(found.owner_id, { threadId: found.thread_id }),
+      createMemoryStore(c.env).listThreadMemories(found.owner_id, found.thread_id),
+    ]);
+    if (!thread) {
+      return c.json({ error: "Share link not found" }, 404);
+    }
+
+    const exported = buildThreadExport(thread, rows, records, memories.map((memory) => memory.content));
+    const messages = JSON.parse(
+      JSON.stringify(getActiveBranch(exported)).replaceAll(ASSET_ROUTE_PREFIX, `/api/share/${token}/assets/`)
+    );
+
+    return c.json({
+      thread: { title: exported.thread.title, createdAt: exported.thread.createdAt },
+      messages,
+      decisions: exported.decisions,
+      notes: exported.notes,
+      expiresAt: found.expires_at,
+    });
+  } catch (error) {
+    console.error("Error fetching shared thread:", error);
+    return c.json({ error: "Failed to fetch shared thread" }, 500);
+  }
+});
+
+/**
+ * Serve an asset of the shared thread, such as an attached image or a screen
+ * returned by a tool. Only images show inline, as anyone with the link can
+ * open it. Not cached for long, so revoking the link takes effect.
+ */
+share.get("/:token/assets/:assetId", async (c) => {
+  try {
+    const found = await getLiveShare(c, c.req.param("token"));
+    if (found instanceof Response) {
+      return found;
+    }
+
+    const store = new AssetStore(c.env.DB, c.env.ASSETS_BUCKET);
+    const asset = await store.getAsset(c.req.param("assetId"));
+    const content = asset?.thread_id === found.thread_id ? await store.getContent(asset.id) : null;
+    if (!asset || !content) {
+      return c.json({ error: "Asset not found" }, 404);
+    }
+
+    return new Response(content.body, { headers: getAssetResponseHeaders(asset, "private, max-age=300") });
+  } catch (error) {
+    console.error("Error fetching shared asset:", error);
+    return c.json({ error: "Failed to fetch asset" }, 500);
+  }
+});
+
+export default share;
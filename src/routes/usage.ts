@@ -0,0 +1,23 @@
+import { Hono } from "hono";
+import type { AppEnv } from "../auth";
+import { UsageStore, getUsageLimits } from "../usage";
+
+/**
+ * Usage and quota routes, mounted at /api/usage
+ */
+const usage = new Hono<AppEnv>();
+
+/**
+ * Get the caller's request rate and today's token spend against their limits
+ */
+usage.get("/", async (c) => {
+  try {
+    const summary = await new UsageStore(c.env.DB).getUsage(c.get("userId"), getUsageLimits(c.env));
+    return c.json(summary);
+  } catch (error) {
+    console.error("Error fetching usage:", error);
+    return c.json({ error: "Failed to fetch usage" }, 500);
+  }
+});
+
+export default usage;
@@ -0,0 +1,168 @@
+/**
+ * Default and largest number of search results returned at once
+ */
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+/**
+ * Markers FTS5 puts around matches in snippets; stripped before returning
+ */
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+/**
+ * Words of context FTS5 keeps around matches in a snippet
+ */
+const SNIPPET_TOKENS = 16;
+
+/**
+ * A message or thread title matching a search
+ */
+export interface SearchResult {
+  threadId: string;
+  threadTitle: string | null;
+  /** Matching message, or null when the thread title matched */
+  messageId: string | null;
+  role: "user" | "assistant" | null;
+  /** Text around the matches */
+  snippet: string;
+  /** Start and end offsets of each match within the snippet */
+  highlights: Array<[number, number]>;
+  createdAt: number;
+}
+
+/**
+ * Turn free text into an FTS5 query: every word must match, as a prefix.
+ * Quoting each word keeps FTS5 operators and punctuation from being parsed.
+ * Returns null when the text has no searchable words.
+ */
+export function buildMatchQuery(text: string): string | null {
+  const terms = text
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, ""))
+    .filter(Boolean);
+  return terms.length > 0 ? terms.map((term) => `"${term}"*`).join(" ") : null;
+}
+
+/**
+ * Strip the match markers from an FTS5 snippet, recording where they were
+ */
+export function parseSnippet(raw: string): { snippet: string; highlights: Array<[number, number]> } {
+  const highlights: Array<[number, number]> = [];
+  let snippet = "";
+  let start = -1;
+
+  for (const char of raw) {
+    if (char === MATCH_START) {
+      start = snippet.length;
+    } else if (char === MATCH_END) {
+      if (start !== -1) {
+        highlights.push([start, snippet.length]);
+      }
+      start = -1;
+    } else {
+      snippet += char;
+    }
+  }
+
+  return { snippet, highlights };
+}
+
+/**
+ * Statement adding a stored message to the index, unless it is already
+ * indexed or is not a user or assistant message with text
+ */
+export function indexMessage(db: D1Database, messageId: string): D1PreparedStatement {
+  return db
+    .prepare(
+      `INSERT INTO messages_fts (rowid, content, thread_id, message_id)
+       SELECT rowid, content, thread_id, id FROM messages
+       WHERE id = ? AND role IN ('user', 'assistant') AND content != ''
+         AND NOT EXISTS (SELECT 1 FROM messages_fts WHERE messages_fts.rowid = messages.rowid)`
+    )
+    .bind(messageId);
+}
+
+/**
+ * Statements replacing a thread's indexed title with its current one
+ */
+export function indexThreadTitle(db: D1Database, threadId: string): D1PreparedStatement[] {
+  return [
+    db.prepare("DELETE FROM threads_fts WHERE rowid = (SELECT rowid FROM threads WHERE id = ?)").bind(threadId),
+    db
+      .prepare(
+        "INSERT INTO threads_fts (rowid, title, thread_id) SELECT rowid, title, id FROM threads WHERE id = ? AND title IS NOT NULL"
+      )
+      .bind(threadId),
+  ];
+}
+
+/**
+ * Statements removing a thread's title and messages from the index; run
+ * them before the thread's rows are deleted
+ */
+export function unindexThread(db: D1Database, threadId: string): D1PreparedStatement[] {
+  return [
+    db
+      .prepare("DELETE FROM messages_fts WHERE rowid IN (SELECT rowid FROM messages WHERE thread_id = ?)")
+      .bind(threadId),
+    db.prepare("DELETE FROM threads_fts WHERE rowid = (SELECT rowid FROM threads WHERE id = ?)").bind(threadId),
+  ];
+}
+
+/**
+ * Full-text search over the threads a user owns
+ */
+export class SearchStore {
+  constructor(private readonly db: D1Database) {}
+
+  /**
+   * Find messages and thread titles matching `text`, best matches first.
+   * Title matches rank ahead of message matches.
+   */
+  async search(ownerId: string, text: string, limit = DEFAULT_SEARCH_LIMIT): Promise<SearchResult[]> {
+    const query = buildMatchQuery(text);
+    if (!query) {
+      return [];
+    }
+
+    const [titles, messages] = await this.db.batch<{
+      thread_id: string;
+      thread_title: string | null;
+      message_id: string | null;
+      role: "user" | "assistant" | null;
+      snippet: string;
+      created_at: number;
+    }>([
+      this.db
+        .prepare(
+          `SELECT t.id AS thread_id, t.title AS thread_title, NULL AS message_id, NULL AS role,
+             highlight(threads_fts, 0, ?, ?) AS snippet, t.updated_at AS created_at
+           FROM threads_fts JOIN threads t ON t.rowid = threads_fts.rowid
+           WHERE threads_fts MATCH ? AND t.owner_id = ?
+           ORDER BY bm25(threads_fts) LIMIT ?`
+        )
+        .bind(MATCH_START, MATCH_END, query, ownerId, limit),
+      this.db
+        .prepare(
+          `SELECT m.thread_id, t.title AS thread_title, m.id AS message_id, m.role,
+             snippet(messages_fts, 0, ?, ?, '…', ?) AS snippet, m.created_at
+           FROM messages_fts
+           JOIN messages m ON m.rowid = messages_fts.rowid
+           JOIN threads t ON t.id = m.thread_id
+           WHERE messages_fts MATCH ? AND t.owner_id = ?
+           ORDER BY bm25(messages_fts) LIMIT ?`
+        )
+        .bind(MATCH_START, MATCH_END, SNIPPET_TOKENS, query, ownerId, limit),
+    ]);
+
+    return [...titles.results, ...messages.results].slice(0, limit).map((row) => ({
+      threadId: row.thread_id,
+      threadTitle: row.thread_title,
+      messageId: row.message_id,
+      role: row.role,
+      ...parseSnippet(row.snippet),
+      createdAt: row.created_at,
+    }));
+  }
+}
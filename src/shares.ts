@@ -0,0 +1,115 @@
+import { base64UrlEncode } from "./auth";
+
+/**
+ * Random bytes in a share token; 24 bytes make a 32-character token
+ */
+const SHARE_TOKEN_BYTES = 24;
+
+/**
+ * Longest lifetime a share link can be given, in seconds (one year)
+ */
+export const MAX_SHARE_TTL_SECONDS = 60 * 60 * 24 * 365;
+
+/**
+ * A read-only link to a thread. Anyone holding the token can view the thread
+ * until the link expires or is revoked.
+ */
+export interface ThreadShare {
+  token: string;
+  thread_id: string;
+  owner_id: string;
+  created_at: number;
+  /** When the link stops working, or null if it never expires */
+  expires_at: number | null;
+  /** When the owner revoked the link, or null if it is still live */
+  revoked_at: number | null;
+}
+
+/**
+ * Whether a share link can still be used at `now` (seconds)
+ */
+export function isShareActive(share: ThreadShare, now = Math.floor(Date.now() / 1000)): boolean {
+  return share.revoked_at === null && (share.expires_at === null || share.expires_at > now);
+}
+
+/**
+ * Validate the lifetime requested for a new share link, returning an error
+ * message if it is invalid. Omitted or null means the link never expires.
+ */
+export function validateShareTtl(expiresInSeconds: unknown): string | null {
+  if (expiresInSeconds === undefined || expiresInSeconds === null) {
+    return null;
+  }
+  if (
+    typeof expiresInSeconds !== "number" ||
+    !Number.isInteger(expiresInSeconds) ||
+    expiresInSeconds <= 0 ||
+    expiresInSeconds > MAX_SHARE_TTL_SECONDS
+  ) {
+    return `expiresInSeconds must be a whole number of seconds between 1 and ${MAX_SHARE_TTL_SECONDS}`;
+  }
+  return null;
+}
+
+/**
+ * D1 store of share links
+ */
+export class ShareStore {
+  constructor(private readonly db: D1Database) {}
+
+  /**
+   * Create a share link for a thread with an unguessable token
+   */
+  async createShare(threadId: string, ownerId: string, expiresInSeconds?: number | null): Promise<ThreadShare> {
+    const now = Math.floor(Date.now() / 1000);
+    const share: ThreadShare = {
+      token: base64UrlEncode(crypto.getRandomValues(new Uint8Array(SHARE_TOKEN_BYTES))),
+      thread_id: threadId,
+      owner_id: ownerId,
+      created_at: now,
+      expires_at: expiresInSeconds ? now + expiresInSeconds : null,
+      revoked_at: null,
+    };
+
+    await this.db
+      .prepare(
+        "INSERT INTO thread_shares (token, thread_id, owner_id, created_at, expires_at, revoked_at) VALUES (?, ?, ?, ?, ?, ?)"
+      )
+      .bind(share.token, share.thread_id, share.owner_id, share.created_at, share.expires_at, share.revoked_at)
+      .run();
+
+    return share;
+  }
+
+  /**
+   * Get a share link by token, whether or not it is still active
+   */
+  async getShare(token: string): Promise<ThreadShare | null> {
+    return this.db.prepare("SELECT * FROM thread_shares WHERE token = ?").bind(token).first<ThreadShare>();
+  }
+
+  /**
+   * List a thread's share links, newest first, including expired and revoked ones
+   */
+  async listShares(threadId: string): Promise<ThreadShare[]> {
+    const { results } = await this.db
+      .prepare("SELECT * FROM thread_shares WHERE thread_id = ? ORDER BY created_at DESC")
+      .bind(threadId)
+      .all<ThreadShare>();
+    return results;
+  }
+
+  /**
+   * Revoke one of a thread's share links. Returns the revoked link, or null
+   * if the thread has no link with this token.
+   */
+  async revokeShare(threadId: string, token: string): Promise<ThreadShare | null> {
+    await this.db
+      .prepare("UPDATE thread_shares SET revoked_at = ? WHERE token = ? AND thread_id = ? AND revoked_at IS NULL")
+      .bind(Math.floor(Date.now() / 1000), token, threadId)
+      .run();
+
+    const share = await this.getShare(token);
+    return share?.thread_id === threadId ? share : null;
+  }
+}
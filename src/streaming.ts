@@ -0,0 +1,79 @@
+import type { ChatResult } from "./agent";
+
+/**
+ * Typed events emitted while a chat turn is in progress.
+ * Sent as SSE events over HTTP and as JSON frames over the agent WebSocket.
+ */
+export type ChatEvent =
+  | { type: "text-delta"; delta: string }
+  | {
+      type: "tool-call-start";
+      toolCallId: string;
+      toolName: string;
+      arguments: string;
+    }
+  | {
+      type: "tool-result";
+      toolCallId: string;
+      toolName: string;
+      result: string;
+      isError: boolean;
+      /** How long the call ran; absent for calls that were denied or rejected */
+      durationMs?: number;
+    }
+  | {
+      type: "tool-approval-required";
+      toolCallId: string;
+      toolName: string;
+      arguments: string;
+    }
+  | ({ type: "message-complete" } & ChatResult)
+  | { type: "error"; error: string; retryAfter?: number };
+
+/**
+ * Callback used by the agent to publish chat events
+ */
+export type ChatEventHandler = (event: ChatEvent) => void;
+
+/**
+ * Encode a chat event as a Server-Sent Events frame
+ */
+export function encodeSseEvent(event: ChatEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Run a producer and stream the events it emits as an SSE response.
+ * Errors thrown by the producer are reported as a final `error` event.
+ */
+export function streamSse(
+  produce: (emit: ChatEventHandler) => Promise<void>
+): Response {
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+
+  const emit: ChatEventHandler = (event) => {
+    // A disconnected client must not abort the turn, which keeps persisting
+    writer.write(encoder.encode(encodeSseEvent(event))).catch(() => {});
+  };
+
+  produce(emit)
+    .catch((error) => {
+      emit({
+        type: "error",
+        error: error instanceof Error ? error.message : "Failed to process chat message",
+      });
+    })
+    .finally(() => {
+      writer.close().catch(() => {});
+    });
+
+  return new Response(readable, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
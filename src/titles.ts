@@ -0,0 +1,103 @@
+import type { Message } from "./agent";
+import { formatTranscript, isSummary, selectActiveWindow } from "./context";
+import type { ChatMessageParam } from "./providers";
+
+/**
+ * Default number of user turns between thread summary refreshes
+ */
+const DEFAULT_SUMMARY_INTERVAL_TURNS = 5;
+
+/**
+ * Longest title kept from the model's answer or a manual rename
+ */
+export const MAX_TITLE_LENGTH = 80;
+
+/**
+ * Estimated tokens of each tool result included in titling prompts
+ */
+const TOOL_RESULT_TOKENS = 200;
+
+/**
+ * How threads are titled and summarized in the background after a turn
+ */
+export interface TitlingSettings {
+  /** Whether titles and summaries are generated at all */
+  enabled: boolean;
+  /** User turns between summary refreshes */
+  summaryIntervalTurns: number;
+}
+
+/**
+ * Read the titling settings from the environment
+ */
+export function getTitlingSettings(env: {
+  AUTO_TITLE_THREADS?: string;
+  THREAD_SUMMARY_INTERVAL_TURNS?: string;
+}): TitlingSettings {
+  const summaryIntervalTurns = Number(env.THREAD_SUMMARY_INTERVAL_TURNS);
+  return {
+    enabled: env.AUTO_TITLE_THREADS !== "false",
+    summaryIntervalTurns: summaryIntervalTurns > 0 ? summaryIntervalTurns : DEFAULT_SUMMARY_INTERVAL_TURNS,
+  };
+}
+
+/**
+ * Number of user turns in a branch
+ */
+export function countTurns(history: Message[]): number {
+  return history.filter((message) => message.role === "user").length;
+}
+
+/**
+ * Trim a generated or user-provided title to a single clean line
+ */
+export function cleanTitle(text: string): string {
+  const title = text
+    .split("\n")[0]
+    .replace(/^title:\s*/i, "")
+    .replace(/^["'“”]+|["'“”.]+$/g, "")
+    .trim();
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : title;
+}
+
+/**
+ * Build the request asking the model for a short title of a conversation
+ */
+export function buildTitleRequest(history: Message[]): ChatMessageParam[] {
+  const transcript = formatTranscript(
+    history.filter((message) => !isSummary(message)),
+    TOOL_RESULT_TOKENS
+  );
+
+  return [
+    {
+      role: "system",
+      content:
+        "Write a concise title of at most six words for this UX design conversation. " +
+        "Answer with the title only, without quotes or trailing punctuation.",
+    },
+    { role: "user", content: transcript },
+  ];
+}
+
+/**
+ * Build the request asking the model for a short summary of a conversation,
+ * starting from the rolling summary of older turns if there is one
+ */
+export function buildThreadSummaryRequest(history: Message[]): ChatMessageParam[] {
+  const { summary, messages } = selectActiveWindow(history);
+  const transcript = formatTranscript(messages, TOOL_RESULT_TOKENS);
+
+  return [
+    {
+      role: "system",
+      content:
+        "Summarize this UX design conversation in two or three sentences for a list of conversations. " +
+        "Mention what is being designed and the main decisions so far.",
+    },
+    {
+      role: "user",
+      content: summary ? `Earlier conversation:\n${summary.content}\n\nRecent messages:\n${transcript}` : transcript,
+    },
+  ];
+}
@@ -0,0 +1,255 @@
+import type { Env } from "./agent";
+
+/**
+ * Default chat requests a user may send per minute
+ */
+const DEFAULT_USER_REQUESTS_PER_MINUTE = 20;
+
+/**
+ * Default chat requests a single thread may receive per minute
+ */
+const DEFAULT_THREAD_REQUESTS_PER_MINUTE = 10;
+
+/**
+ * Default prompt + completion tokens a user may spend per UTC day
+ */
+const DEFAULT_USER_DAILY_TOKEN_LIMIT = 500_000;
+
+/**
+ * Default prompt + completion tokens a single thread may spend per UTC day
+ */
+const DEFAULT_THREAD_DAILY_TOKEN_LIMIT = 200_000;
+
+const SECONDS_PER_DAY = 86_400;
+
+/**
+ * Request-rate and token limits enforced on chat turns
+ */
+export interface UsageLimits {
+  userRequestsPerMinute: number;
+  threadRequestsPerMinute: number;
+  userDailyTokens: number;
+  threadDailyTokens: number;
+}
+
+/**
+ * Token totals over a period
+ */
+export interface TokenTotals {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * A user's current usage against their limits
+ */
+export interface UsageSummary {
+  userId: string;
+  limits: UsageLimits;
+  requestsLastMinute: number;
+  today: TokenTotals;
+  /** Unix seconds at which the daily token counters reset */
+  resetsAt: number;
+  threads: Array<{ threadId: string } & TokenTotals>;
+}
+
+/**
+ * Thrown when a chat turn would exceed a rate limit or token quota
+ */
+export class QuotaExceededError extends Error {
+  constructor(
+    message: string,
+    readonly retryAfterSeconds: number
+  ) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+/**
+ * Read the usage limits from the environment
+ */
+export function getUsageLimits(env: Env): UsageLimits {
+  const userRequestsPerMinute = Number(env.USER_REQUESTS_PER_MINUTE);
+  const threadRequestsPerMinute = Number(env.THREAD_REQUESTS_PER_MINUTE);
+  const userDailyTokens = Number(env.USER_DAILY_TOKEN_LIMIT);
+  const threadDailyTokens = Number(env.THREAD_DAILY_TOKEN_LIMIT);
+
+  return {
+    userRequestsPerMinute:
+      userRequestsPerMinute > 0 ? userRequestsPerMinute : DEFAULT_USER_REQUESTS_PER_MINUTE,
+    threadRequestsPerMinute:
+      threadRequestsPerMinute > 0 ? threadRequestsPerMinute : DEFAULT_THREAD_REQUESTS_PER_MINUTE,
+    userDailyTokens: userDailyTokens > 0 ? userDailyTokens : DEFAULT_USER_DAILY_TOKEN_LIMIT,
+    threadDailyTokens: threadDailyTokens > 0 ? threadDailyTokens : DEFAULT_THREAD_DAILY_TOKEN_LIMIT,
+  };
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function startOfDay(seconds: number): number {
+  return seconds - (seconds % SECONDS_PER_DAY);
+}
+
+/**
+ * Build a 429 response carrying a Retry-After hint
+ */
+export function quotaExceededResponse(error: QuotaExceededError): Response {
+  return Response.json(
+    { error: error.message, retryAfter: error.retryAfterSeconds },
+    { status: 429, headers: { "Retry-After": String(error.retryAfterSeconds) } }
+  );
+}
+
+/**
+ * Chat request and token usage ledger backed by D1.
+ *
+ * Users are identified by the thread owner; threads without an owner are
+ * only subject to the per-thread limits.
+ */
+export class UsageStore {
+  constructor(private readonly db: D1Database) {}
+
+  /**
+   * Record that a chat turn was started
+   */
+  async recordRequest(userId: string | null, threadId: string): Promise<void> {
+    await this.db
+      .prepare("INSERT INTO chat_requests (user_id, thread_id, created_at) VALUES (?, ?, ?)")
+      .bind(userId, threadId, nowSeconds())
+      .run();
+  }
+
+  /**
+   * Record the tokens spent by a single completion
+   */
+  async recordCompletion(usage: {
+    userId: string | null;
+    threadId: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+  }): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO token_usage (user_id, thread_id, model, prompt_tokens, completion_tokens, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        usage.userId,
+        usage.threadId,
+        usage.model,
+        usage.promptTokens,
+        usage.completionTokens,
+        nowSeconds()
+      )
+      .run();
+  }
+
+  /**
+   * Throw a QuotaExceededError if another chat turn would exceed any limit
+   */
+  async assertWithinQuota(
+    userId: string | null,
+    threadId: string,
+    limits: UsageLimits
+  ): Promise<void> {
+    const now = nowSeconds();
+    const dayEnd = startOfDay(now) + SECONDS_PER_DAY;
+
+    const rates: Array<[string, "user_id" | "thread_id", string, number]> = [
+      ["Rate limit exceeded for this thread", "thread_id", threadId, limits.threadRequestsPerMinute],
+    ];
+    const quotas: Array<[string, "user_id" | "thread_id", string, number]> = [
+      ["Daily token quota exceeded for this thread", "thread_id", threadId, limits.threadDailyTokens],
+    ];
+    if (userId) {
+      rates.unshift(["Rate limit exceeded", "user_id", userId, limits.userRequestsPerMinute]);
+      quotas.unshift(["Daily token quota exceeded", "user_id", userId, limits.userDailyTokens]);
+    }
+
+    for (const [message, column, id, limit] of rates) {
+      const window = await this.db
+        .prepare(
+          `SELECT COUNT(*) AS count, MIN(created_at) AS oldest FROM chat_requests
+           WHERE ${column} = ? AND created_at > ?`
+        )
+        .bind(id, now - 60)
+        .first<{ count: number; oldest: number | null }>();
+
+      if (window && window.count >= limit) {
+        throw new QuotaExceededError(message, Math.max(1, (window.oldest ?? now) + 60 - now));
+      }
+    }
+
+    for (const [message, column, id, limit] of quotas) {
+      const totals = await this.getTokenTotals(column, id, startOfDay(now));
+      if (totals.totalTokens >= limit) {
+        throw new QuotaExceededError(message, dayEnd - now);
+      }
+    }
+  }
+
+  /**
+   * Summarize a user's usage for the current minute and UTC day
+   */
+  async getUsage(userId: string, limits: UsageLimits): Promise<UsageSummary> {
+    const now = nowSeconds();
+    const dayStart = startOfDay(now);
+
+    const requests = await this.db
+      .prepare("SELECT COUNT(*) AS count FROM chat_requests WHERE user_id = ? AND created_at > ?")
+      .bind(userId, now - 60)
+      .first<{ count: number }>();
+
+    const { results } = await this.db
+      .prepare(
+        `SELECT thread_id, SUM(prompt_tokens) AS prompt_tokens, SUM(completion_tokens) AS completion_tokens
+         FROM token_usage WHERE user_id = ? AND created_at >= ?
+         GROUP BY thread_id ORDER BY SUM(prompt_tokens + completion_tokens) DESC`
+      )
+      .bind(userId, dayStart)
+      .all<{ thread_id: string; prompt_tokens: number; completion_tokens: number }>();
+
+    const threads = results.map((row) => ({
+      threadId: row.thread_id,
+      promptTokens: row.prompt_tokens,
+      completionTokens: row.completion_tokens,
+      totalTokens: row.prompt_tokens + row.completion_tokens,
+    }));
+
+    return {
+      userId,
+      limits,
+      requestsLastMinute: requests?.count ?? 0,
+      today: {
+        promptTokens: threads.reduce((sum, thread) => sum + thread.promptTokens, 0),
+        completionTokens: threads.reduce((sum, thread) => sum + thread.completionTokens, 0),
+        totalTokens: threads.reduce((sum, thread) => sum + thread.totalTokens, 0),
+      },
+      resetsAt: dayStart + SECONDS_PER_DAY,
+      threads,
+    };
+  }
+
+  private async getTokenTotals(
+    column: "user_id" | "thread_id",
+    id: string,
+    since: number
+  ): Promise<TokenTotals> {
+    const row = await this.db
+      .prepare(
+        `SELECT COALESCE(SUM(prompt_tokens), 0) AS prompt_tokens, COALESCE(SUM(completion_tokens), 0) AS completion_tokens
+         FROM token_usage WHERE ${column} = ? AND created_at >= ?`
+      )
+      .bind(id, since)
+      .first<{ prompt_tokens: number; completion_tokens: number }>();
+
+    const promptTokens = row?.prompt_tokens ?? 0;
+    const completionTokens = row?.completion_tokens ?? 0;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+}
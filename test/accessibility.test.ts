@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { auditAccessibilityTool } from "../src/accessibility";
+import { runLocalTool, type LocalToolContext } from "../src/local-tools";
+
+const context = {} as LocalToolContext;
+
+interface ColorVisionCheck {
+  deficiency: string;
+  colors: { name: string; color: string; simulated: string }[];
+  confusablePairs: { a: string; b: string; deltaE: number }[];
+  pass: boolean;
+}
+
+describe("accessibility audit", () => {
+  it("reports contrast, color vision and touch target checks", async () => {
+    const report = (await runLocalTool(
+      auditAccessibilityTool,
+      {
+        colorPairs: [
+          { label: "Body text", foreground: "#777777", background: "#FFFFFF" },
+          { label: "Heading", foreground: "#777777", background: "#FFFFFF", largeText: true },
+          { foreground: "#000", background: "#fff" },
+        ],
+        palette: [
+          { name: "Error", color: "#D62728" },
+          { name: "Success", color: "#2CA02C" },
+          { name: "Info", color: "#1F77B4" },
+        ],
+        touchTargets: [
+          { label: "Close button", width: 20, height: 20 },
+          { label: "Tab", width: 120, height: 32 },
+          { width: 48, height: 48 },
+        ],
+      },
+      context
+    )) as { colorVision: ColorVisionCheck[]; summary: unknown };
+
+    expect(report).toMatchObject({
+      contrast: [
+        { label: "Body text", ratio: 4.48, largeText: false, aa: false, aaa: false },
+        { label: "Heading", ratio: 4.48, largeText: true, aa: true, aaa: false },
+        { label: "#000 on #fff", ratio: 21, aa: true, aaa: true },
+      ],
+      touchTargets: [
+        { label: "Close button", aa: false, aaa: false },
+        { label: "Tab", aa: true, aaa: false },
+        { label: "48×48", aa: true, aaa: true },
+      ],
+    });
+
+    const colorVision = Object.fromEntries(report.colorVision.map((check) => [check.deficiency, check]));
+    expect(Object.keys(colorVision)).toEqual(["protanopia", "deuteranopia", "tritanopia", "achromatopsia"]);
+    expect(colorVision.deuteranopia.confusablePairs).toEqual([{ a: "Error", b: "Success", deltaE: 7.3 }]);
+    expect(colorVision.deuteranopia.colors[0]).toEqual({
+      name: "Error",
+      color: "#D62728",
+      simulated: expect.stringMatching(/^#[0-9a-f]{6}$/),
+    });
+    // Simulating monochromacy keeps only luminance
+    const [grey] = colorVision.achromatopsia.colors;
+    expect(grey.simulated.slice(1, 3).repeat(3)).toBe(grey.simulated.slice(1));
+
+    expect(colorVision.achromatopsia.confusablePairs.map((pair) => [pair.a, pair.b])).toEqual([
+      ["Error", "Info"],
+      ["Success", "Info"],
+    ]);
+    expect(report.colorVision.filter((check) => check.pass).map((check) => check.deficiency)).toEqual([
+      "protanopia",
+      "tritanopia",
+    ]);
+
+    // Body text contrast, the close button and two deficiencies fail
+    expect(report.summary).toEqual({ checks: 10, passed: 6, failed: 4 });
+  });
+
+  it("rejects an empty audit", async () => {
+    await expect(runLocalTool(auditAccessibilityTool, {}, context)).rejects.toThrow(
+      "Invalid arguments for audit_accessibility: arguments: Provide at least one color pair, palette color or touch target"
+    );
+  });
+});
@@ -0,0 +1,192 @@
+import { env } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import type { ChatEvent } from "../src/streaming";
+import { FakeMcpServer, textResult } from "./fakes/fake-mcp-server";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { LOCAL_TOOL_NAMES, apiFetch, getD1Messages, withAgent } from "./helpers";
+
+function stitchServer() {
+  return new FakeMcpServer([
+    {
+      name: "list_projects",
+      description: "List Stitch projects",
+      handler: () => textResult(JSON.stringify([{ id: "p1", name: "Checkout" }])),
+    },
+    {
+      name: "get_screen",
+      description: "Get a screen",
+      inputSchema: {
+        type: "object",
+        properties: { projectId: { type: "string" } },
+        required: ["projectId"],
+      },
+      handler: (args) => textResult(`screen for ${args.projectId}`),
+    },
+  ]);
+}
+
+const USER = "agent-user";
+
+async function createThread(): Promise<string> {
+  const response = await apiFetch(
+    "/api/threads",
+    { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({}) },
+    USER
+  );
+  const { threadId } = await response.json<{ threadId: string }>();
+  return threadId;
+}
+
+describe("UXArchitectAgent.chat", () => {
+  it("chains tool calls until the model answers and persists every step", async () => {
+    const threadId = crypto.randomUUID();
+
+    const result = await withAgent(threadId, async (agent) => {
+      agent.fakeMcp = stitchServer();
+      agent.llm = new ScriptedProvider([
+        { toolCalls: [{ name: "stitch__list_projects" }] },
+        { toolCalls: [{ name: "stitch__get_screen", arguments: { projectId: "p1" } }] },
+        { content: "The checkout screen uses a two-column layout." },
+      ]);
+
+      const result = await agent.chat("Review the checkout screen");
+
+      expect(agent.fakeMcp.calls).toEqual([
+        { name: "list_projects", arguments: {} },
+        { name: "get_screen", arguments: { projectId: "p1" } },
+      ]);
+      // Tools stay available on every step, not just the first one, next to
+      // the local tools
+      const toolCount = 2 + LOCAL_TOOL_NAMES.length;
+      expect(agent.llm.requests.map((request) => request.tools?.length)).toEqual([toolCount, toolCount, toolCount]);
+
+      const cached = agent.sql<{ role: string }>`
+        SELECT role FROM agent_messages WHERE thread_id = ${threadId} ORDER BY created_at, rowid
+      `;
+      expect(cached.map((row) => row.role)).toEqual([
+        "user",
+        "assistant",
+        "tool",
+        "assistant",
+        "tool",
+        "assistant",
+      ]);
+
+      return result;
+    });
+
+    expect(result).toEqual({
+      response: "The checkout screen uses a two-column layout.",
+      threadId,
+      steps: 3,
+      finishReason: "completed",
+    });
+
+    const messages = await getD1Messages(threadId);
+    expect(messages.map((msg) => msg.role)).toEqual([
+      "user",
+      "assistant",
+      "tool",
+      "assistant",
+      "tool",
+      "assistant",
+    ]);
+    expect(JSON.parse(messages[1].tool_calls!)[0].function.name).toBe("stitch__list_projects");
+    expect(messages[2].tool_call_id).toBe(JSON.parse(messages[1].tool_calls!)[0].id);
+    // Tool messages carry how long their call ran, for the UI's tool cards
+    expect(JSON.parse(messages[2].metadata!).durationMs).toBeGreaterThanOrEqual(0);
+
+    const thread = await env.DB.prepare("SELECT id FROM threads WHERE id = ?")
+      .bind(threadId)
+      .first();
+    expect(thread).not.toBeNull();
+  });
+
+  it("ends the turn with a terminal message when the step budget is exhausted", async () => {
+    const threadId = crypto.randomUUID();
+
+    const result = await withAgent(threadId, async (agent) => {
+      agent.fakeMcp = stitchServer();
+      agent.llm = new ScriptedProvider(
+        Array.from({ length: 8 }, () => ({ toolCalls: [{ name: "stitch__list_projects" }] }))
+      );
+      return agent.chat("Keep looking");
+    });
+
+    expect(result.finishReason).toBe("max_steps");
+    expect(result.steps).toBe(8);
+    expect(result.response).toContain("step limit: 8");
+
+    const messages = await getD1Messages(threadId);
+    expect(messages.at(-1)).toMatchObject({ role: "assistant", content: result.response });
+  });
+
+  it("emits typed events while the turn runs", async () => {
+    const threadId = crypto.randomUUID();
+    const events: ChatEvent[] = [];
+
+    await withAgent(threadId, async (agent) => {
+      agent.fakeMcp = stitchServer();
+      agent.llm = new ScriptedProvider([
+        { toolCalls: [{ name: "stitch__get_screen", arguments: { projectId: "p1" }, id: "call_a" }] },
+        { content: "Looks good to me" },
+      ]);
+      await agent.chat("Check it", (event) => events.push(event));
+    });
+
+    expect(events.map((event) => event.type)).toEqual([
+      "tool-call-start",
+      "tool-result",
+      "text-delta",
+      "text-delta",
+      "text-delta",
+      "text-delta",
+      "message-complete",
+    ]);
+    expect(events[1]).toMatchObject({
+      toolCallId: "call_a",
+      toolName: "stitch__get_screen",
+      isError: false,
+      durationMs: expect.any(Number),
+    });
+    expect(
+      events
+        .filter((event) => event.type === "text-delta")
+        .map((event) => (event.type === "text-delta" ? event.delta : ""))
+        .join("")
+    ).toBe("Looks good to me");
+  });
+
+  it("backfills D1 with messages that only exist in the DO cache", async () => {
+    const threadId = await createThread();
+
+    const backfilled = await withAgent(threadId, async (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Hello" }]);
+      await agent.chat("Hi");
+
+      await env.DB.prepare("DELETE FROM messages WHERE thread_id = ?").bind(threadId).run();
+      await env.DB.prepare("DELETE FROM threads WHERE id = ?").bind(threadId).run();
+
+      return agent.reconcileThreads();
+    });
+
+    expect(backfilled).toEqual({ threads: 1, messages: 2 });
+    expect((await getD1Messages(threadId)).map((msg) => msg.content)).toEqual(["Hi", "Hello"]);
+    // The backfilled thread still belongs to its owner
+    expect((await apiFetch(`/api/threads/${threadId}`, {}, USER)).status).toBe(200);
+  });
+
+  it("does not bring back deleted threads", async () => {
+    const threadId = await createThread();
+    await withAgent(threadId, async (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Hello" }]);
+      await agent.chat("Hi");
+    });
+
+    expect((await apiFetch(`/api/threads/${threadId}`, { method: "DELETE" }, USER)).status).toBe(200);
+
+    const backfilled = await withAgent(threadId, (agent) => agent.reconcileThreads());
+    expect(backfilled).toEqual({ threads: 0, messages: 0 });
+    expect((await apiFetch(`/api/threads/${threadId}`, {}, USER)).status).toBe(404);
+  });
+});
@@ -0,0 +1,141 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { REJECTED_TOOL_RESULT, type PendingToolCall } from "../src/approvals";
+import type { McpServer } from "../src/mcp-servers";
+import { FakeMcpServer, textResult } from "./fakes/fake-mcp-server";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { ADMIN_USER, apiFetch, withAgent } from "./helpers";
+
+function send(path: string, method: string, body: unknown, userId = "test-user") {
+  return apiFetch(
+    path,
+    {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    },
+    userId
+  );
+}
+
+async function createThread(): Promise<string> {
+  const response = await send("/api/threads", "POST", {});
+  const { threadId } = await response.json<{ threadId: string }>();
+  return threadId;
+}
+
+function stitchServer() {
+  return new FakeMcpServer([
+    { name: "list_projects", handler: () => textResult("[]") },
+    { name: "generate_screen", handler: (args) => textResult(`screen for ${args.prompt}`) },
+    { name: "delete_project", handler: () => textResult("deleted") },
+  ]);
+}
+
+describe("tool call approval", () => {
+  beforeAll(async () => {
+    await send(
+      "/api/mcp-servers/stitch",
+      "PATCH",
+      { toolPolicies: { generate_screen: "require-approval", delete_project: "deny" } },
+      ADMIN_USER
+    );
+  });
+
+  afterAll(async () => {
+    await send("/api/mcp-servers/stitch", "PATCH", { toolPolicies: {} }, ADMIN_USER);
+  });
+
+  it("pauses the turn on a call that needs approval and resumes it once approved", async () => {
+    const threadId = await createThread();
+
+    await withAgent(threadId, async (agent) => {
+      agent.fakeMcp = stitchServer();
+      agent.llm = new ScriptedProvider([
+        {
+          toolCalls: [
+            { name: "stitch__list_projects" },
+            { name: "stitch__generate_screen", arguments: { prompt: "login" }, id: "call_generate" },
+          ],
+        },
+        { content: "Here is your login screen." },
+      ]);
+
+      const result = await agent.chat("Design a login screen");
+
+      expect(result.finishReason).toBe("awaiting_approval");
+      expect(result.pendingToolCalls?.map((call) => call.toolCallId)).toEqual(["call_generate"]);
+      // Auto calls still run; the gated one waits
+      expect(agent.fakeMcp.calls).toEqual([{ name: "list_projects", arguments: {} }]);
+
+      await expect(agent.chat("Never mind")).rejects.toMatchObject({ status: 409 });
+    });
+
+    const listed = await apiFetch(`/api/threads/${threadId}/approvals`);
+    const { approvals } = await listed.json<{ approvals: PendingToolCall[] }>();
+    expect(approvals).toMatchObject([
+      { toolCallId: "call_generate", toolName: "stitch__generate_screen", arguments: '{"prompt":"login"}' },
+    ]);
+
+    const resolved = await send(`/api/threads/${threadId}/approvals/call_generate`, "POST", {
+      approved: true,
+    });
+    expect(resolved.status).toBe(200);
+    const stream = await resolved.text();
+    expect(stream).toContain("screen for login");
+    expect(stream).toContain("Here is your login screen.");
+
+    await withAgent(threadId, (agent) => {
+      expect(agent.fakeMcp.calls.map((call) => call.name)).toEqual(["list_projects", "generate_screen"]);
+      // The resumed model call sees a result for every tool call
+      const messages = agent.llm.requests[1].messages;
+      expect(messages.filter((msg) => msg.role === "tool")).toHaveLength(2);
+      expect(agent.state.conversationHistory.at(-1)?.content).toBe("Here is your login screen.");
+    });
+
+    const after = await apiFetch(`/api/threads/${threadId}/approvals`);
+    expect(await after.json()).toEqual({ approvals: [] });
+    const again = await send(`/api/threads/${threadId}/approvals/call_generate`, "POST", { approved: true });
+    expect(again.status).toBe(404);
+  });
+
+  it("records denied and rejected calls as errors without running them", async () => {
+    const threadId = await createThread();
+
+    await withAgent(threadId, async (agent) => {
+      agent.fakeMcp = stitchServer();
+      agent.llm = new ScriptedProvider([
+        {
+          toolCalls: [
+            { name: "stitch__delete_project", id: "call_delete" },
+            { name: "stitch__generate_screen", id: "call_generate" },
+          ],
+        },
+        { content: "Okay, I won't generate it." },
+      ]);
+
+      await agent.chat("Clean up and design");
+      const result = await agent.resolveToolCall("call_generate", false);
+
+      expect(result.finishReason).toBe("completed");
+      expect(agent.fakeMcp.calls).toEqual([]);
+      const toolMessages = agent.state.conversationHistory.filter((msg) => msg.role === "tool");
+      expect(toolMessages.map((msg) => [msg.toolCallId, msg.content])).toEqual([
+        ["call_delete", JSON.stringify({ error: "Tool stitch__delete_project is not allowed" })],
+        ["call_generate", REJECTED_TOOL_RESULT],
+      ]);
+    });
+
+    expect(
+      (await send(`/api/threads/${threadId}/approvals/call_generate`, "POST", { approved: "yes" })).status
+    ).toBe(400);
+  });
+
+  it("lets only administrators change tool policies", async () => {
+    // A policy covers every user's threads, so loosening it would skip everyone's approvals
+    const loosened = await send("/api/mcp-servers/stitch", "PATCH", { toolPolicies: { "*": "auto" } });
+    expect(loosened.status).toBe(403);
+
+    const { server } = await (await apiFetch("/api/mcp-servers/stitch")).json<{ server: McpServer }>();
+    expect(server.tool_policies).toEqual({ generate_screen: "require-approval", delete_project: "deny" });
+  });
+});
@@ -0,0 +1,87 @@
+import { env } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import type { ChatMessageParam } from "../src/providers";
+import { FakeMcpServer, textResult } from "./fakes/fake-mcp-server";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { apiFetch, getD1Messages, withAgent } from "./helpers";
+
+// A 1x1 PNG
+const PIXEL =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+const SCRIPT_PAGE = "<script>fetch('/api/threads')</script>";
+
+async function createThread(): Promise<string> {
+  const response = await apiFetch("/api/threads", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({}),
+  });
+  const { threadId } = await response.json<{ threadId: string }>();
+  return threadId;
+}
+
+describe("tool result assets", () => {
+  it("stores images in R2, sends them to the model as vision inputs and serves them to the owner", async () => {
+    const threadId = await createThread();
+
+    const requests = await withAgent(threadId, async (agent) => {
+      agent.fakeMcp = new FakeMcpServer([
+        {
+          name: "generate_screen",
+          handler: () => ({
+            content: [
+              { type: "text", text: "Generated the login screen" },
+              { type: "image", data: PIXEL, mimeType: "image/png" },
+              {
+                type: "resource",
+                resource: { uri: "stitch://screens/login.html", mimeType: "text/html", blob: btoa(SCRIPT_PAGE) },
+              },
+            ],
+          }),
+        },
+        { name: "list_projects", handler: () => textResult("[]") },
+      ]);
+      agent.llm = new ScriptedProvider([
+        { toolCalls: [{ name: "stitch__generate_screen" }] },
+        { content: "Here it is." },
+      ]);
+      await agent.chat("Design a login screen");
+      return agent.llm.requests;
+    });
+
+    const toolMessage = (await getD1Messages(threadId)).find((msg) => msg.role === "tool")!;
+    expect(toolMessage.content).not.toContain(PIXEL);
+    const [, image, page] = JSON.parse(toolMessage.content).content;
+    expect(image).toMatchObject({ type: "image", mimeType: "image/png", url: `/api/assets/${image.assetId}` });
+
+    // The tool message stays text; the image follows it as a user vision input
+    const followUp = requests[1].messages;
+    expect(followUp.map((msg) => msg.role)).toEqual(["system", "user", "assistant", "tool", "user"]);
+    const vision = followUp.at(-1) as Extract<ChatMessageParam, { role: "user" }>;
+    expect(vision.content).toContainEqual({
+      type: "image_url",
+      image_url: { url: `data:image/png;base64,${PIXEL}` },
+    });
+
+    const served = await apiFetch(`/api/assets/${image.assetId}`);
+    expect(served.status).toBe(200);
+    expect(served.headers.get("Content-Type")).toBe("image/png");
+    expect(served.headers.get("Content-Disposition")).toBeNull();
+    expect(new Uint8Array(await served.arrayBuffer()).length).toBe(atob(PIXEL).length);
+
+    // Anything but an image downloads in a sandbox rather than running on the app's origin
+    const html = await apiFetch(page.resource.url);
+    expect(html.headers.get("Content-Disposition")).toBe(`attachment; filename="${page.resource.assetId}"`);
+    expect(html.headers.get("Content-Security-Policy")).toBe("sandbox");
+    expect(html.headers.get("X-Content-Type-Options")).toBe("nosniff");
+    expect(await html.text()).toBe(SCRIPT_PAGE);
+
+    expect((await apiFetch(`/api/assets/${image.assetId}`, {}, "someone-else")).status).toBe(403);
+    expect((await apiFetch("/api/assets/missing")).status).toBe(404);
+
+    // Deleting the thread removes its assets
+    await apiFetch(`/api/threads/${threadId}`, { method: "DELETE" });
+    expect(await env.ASSETS_BUCKET.get(image.assetId)).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import { env } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import { AssetStore } from "../src/assets";
+import type { ThreadExport } from "../src/export";
+import type { ChatMessageParam } from "../src/providers";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { apiFetch, getD1Messages, withAgent } from "./helpers";
+
+// A 1x1 PNG
+const PIXEL =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+const PDF = "%PDF-1.4\n%%EOF\n";
+
+const USER = "attachment-user";
+
+function send(path: string, body: unknown, userId = USER) {
+  return apiFetch(
+    path,
+    { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) },
+    userId
+  );
+}
+
+async function createThread(userId = USER): Promise<string> {
+  const response = await send("/api/threads", {}, userId);
+  const { threadId } = await response.json<{ threadId: string }>();
+  return threadId;
+}
+
+function upload(threadId: string, file: File, userId = USER) {
+  const form = new FormData();
+  form.set("threadId", threadId);
+  form.set("file", file);
+  return apiFetch("/api/attachments", { method: "POST", body: form }, userId);
+}
+
+interface UploadedAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  url: string;
+}
+
+describe("message attachments", () => {
+  it("uploads files and sends them to the model with the message", async () => {
+    const threadId = await createThread();
+
+    const image = await upload(
+      threadId,
+      new File([Uint8Array.from(atob(PIXEL), (char) => char.charCodeAt(0))], "wireframe.png", { type: "image/png" })
+    );
+    expect(image.status).toBe(201);
+    const { attachment: png } = await image.json<{ attachment: UploadedAttachment }>();
+    expect(png).toMatchObject({ name: "wireframe.png", mimeType: "image/png", url: `/api/assets/${png.id}` });
+
+    const pdfResponse = await upload(threadId, new File([PDF], "brief.pdf", { type: "application/pdf" }));
+    const { attachment: pdf } = await pdfResponse.json<{ attachment: UploadedAttachment }>();
+
+    await withAgent(threadId, (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Nice wireframe." }]);
+    });
+    const chat = await send("/api/chat", { threadId, message: "Review this", attachments: [png.id, pdf.id] });
+    expect(chat.status).toBe(200);
+
+    const requests = await withAgent(threadId, (agent) => agent.llm.requests);
+    const userMessage = requests[0].messages.at(-1) as Extract<ChatMessageParam, { role: "user" }>;
+    expect(userMessage.content).toEqual([
+      { type: "text", text: "Review this" },
+      { type: "image_url", image_url: { url: `data:image/png;base64,${PIXEL}` } },
+      { type: "file", file: { filename: "brief.pdf", file_data: `data:application/pdf;base64,${btoa(PDF)}` } },
+    ]);
+
+    // The message keeps references to its attachments, never their content
+    const [stored] = await getD1Messages(threadId);
+    expect(JSON.parse(stored.metadata!).attachments).toEqual([
+      { id: png.id, name: "wireframe.png", mimeType: "image/png", size: png.size },
+      { id: pdf.id, name: "brief.pdf", mimeType: "application/pdf", size: PDF.length },
+    ]);
+  });
+
+  it("rejects unsupported files and attachments from other threads", async () => {
+    const threadId = await createThread();
+    const otherThreadId = await createThread("someone-else");
+
+    const text = await upload(threadId, new File(["hi"], "notes.txt", { type: "text/plain" }));
+    expect(text.status).toBe(400);
+
+    const foreignThread = await upload(otherThreadId, new File([PDF], "brief.pdf", { type: "application/pdf" }));
+    expect(foreignThread.status).toBe(403);
+
+    const uploaded = await upload(
+      otherThreadId,
+      new File([PDF], "brief.pdf", { type: "application/pdf" }),
+      "someone-else"
+    );
+    const { attachment } = await uploaded.json<{ attachment: UploadedAttachment }>();
+
+    const chat = await send("/api/chat/stream", { threadId, message: "Look", attachments: [attachment.id] });
+    expect(chat.status).toBe(400);
+    expect(await chat.json()).toEqual({ error: `Attachment ${attachment.id} not found in this thread` });
+
+    expect((await send("/api/chat", { threadId, attachments: "nope" })).status).toBe(400);
+    expect(await getD1Messages(threadId)).toEqual([]);
+  });
+
+  it("copies attachments into imported threads and loads only a thread's own assets", async () => {
+    const threadId = await createThread();
+    const uploaded = await upload(threadId, new File([PDF], "brief.pdf", { type: "application/pdf" }));
+    const { attachment } = await uploaded.json<{ attachment: UploadedAttachment }>();
+    await withAgent(threadId, (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Read it." }]);
+    });
+    await send("/api/chat", { threadId, message: "Summarize", attachments: [attachment.id] });
+
+    const store = new AssetStore(env.DB, env.ASSETS_BUCKET);
+    const otherThreadId = await createThread();
+    expect(await store.getDataUrl(otherThreadId, attachment.id)).toBeNull();
+    expect(await store.getDataUrl(threadId, attachment.id)).toBe(`data:application/pdf;base64,${btoa(PDF)}`);
+
+    const response = await apiFetch(`/api/threads/${threadId}/export?format=json`, {}, USER);
+    const exported = await response.json<ThreadExport>();
+
+    // Another user cannot pull the asset into a thread of theirs
+    const foreign = await send("/api/threads/import", exported, "someone-else");
+    expect(foreign.status).toBe(400);
+    expect(await foreign.json()).toEqual({ error: `Asset ${attachment.id} not found` });
+
+    const imported = await send("/api/threads/import", exported);
+    expect(imported.status).toBe(201);
+    const { threadId: importedId } = await imported.json<{ threadId: string }>();
+    const [message] = await getD1Messages(importedId);
+    const [copy] = JSON.parse(message.metadata!).attachments;
+    expect(copy).toEqual({ id: expect.any(String), name: "brief.pdf", mimeType: "application/pdf", size: PDF.length });
+    expect(copy.id).not.toBe(attachment.id);
+    expect(await store.getAsset(copy.id)).toMatchObject({ thread_id: importedId, source: "upload" });
+
+    await withAgent(importedId, async (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Still here." }]);
+      await agent.chat("Again");
+      const file = agent.llm.requests[0].messages[1] as Extract<ChatMessageParam, { role: "user" }>;
+      expect(file.content).toContainEqual({
+        type: "file",
+        file: { filename: "brief.pdf", file_data: `data:application/pdf;base64,${btoa(PDF)}` },
+      });
+    });
+  });
+});
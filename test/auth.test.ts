@@ -0,0 +1,135 @@
+import { SELF } from "cloudflare:test";
+import { describe, expect, it, vi } from "vitest";
+import { apiFetch, tokenFor, withAgent } from "./helpers";
+
+async function createThread(userId: string): Promise<string> {
+  const response = await apiFetch(
+    "/api/threads",
+    { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({}) },
+    userId
+  );
+  const { threadId } = await response.json<{ threadId: string }>();
+  return threadId;
+}
+
+describe("authentication", () => {
+  it("rejects API calls without a valid token", async () => {
+    const missing = await SELF.fetch("https://example.com/api/threads");
+    expect(missing.status).toBe(401);
+    expect(await missing.json()).toEqual({ error: "Unauthorized" });
+
+    const forged = await SELF.fetch("https://example.com/api/threads", {
+      headers: { Authorization: `Bearer ${(await tokenFor("alice")).slice(0, -2)}xx` },
+    });
+    expect(forged.status).toBe(401);
+
+    const health = await SELF.fetch("https://example.com/api/health");
+    expect(health.status).toBe(200);
+  });
+
+  it("issues tokens only to the admin and accepts them as a session cookie", async () => {
+    const denied = await SELF.fetch("https://example.com/api/auth/tokens", {
+      method: "POST",
+      headers: { Authorization: "Bearer wrong", "Content-Type": "application/json" },
+      body: JSON.stringify({ userId: "carol" }),
+    });
+    expect(denied.status).toBe(401);
+
+    const issued = await SELF.fetch("https://example.com/api/auth/tokens", {
+      method: "POST",
+      headers: { Authorization: "Bearer test-admin-token", "Content-Type": "application/json" },
+      body: JSON.stringify({ userId: "carol" }),
+    });
+    expect(issued.status).toBe(201);
+    const { token } = await issued.json<{ token: string }>();
+
+    const session = await SELF.fetch("https://example.com/api/auth/session", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token }),
+    });
+    const cookie = session.headers.get("Set-Cookie")!;
+    expect(cookie).toContain("HttpOnly");
+
+    const me = await SELF.fetch("https://example.com/api/auth/me", {
+      headers: { Cookie: cookie.split(";")[0] },
+    });
+    expect(await me.json()).toEqual({ userId: "carol" });
+  });
+});
+
+describe("thread ownership", () => {
+  it("only lists the caller's threads", async () => {
+    const aliceThread = await createThread("alice");
+    const bobThread = await createThread("bob");
+
+    const response = await apiFetch("/api/threads", {}, "alice");
+    const { threads } = await response.json<{ threads: Array<{ id: string }> }>();
+    const ids = threads.map((thread) => thread.id);
+
+    expect(ids).toContain(aliceThread);
+    expect(ids).not.toContain(bobThread);
+  });
+
+  it("forbids access to another user's thread and its agent", async () => {
+    const threadId = await createThread("alice");
+
+    const read = await apiFetch(`/api/threads/${threadId}`, {}, "bob");
+    expect(read.status).toBe(403);
+    expect(await read.json()).toEqual({ error: "Forbidden" });
+
+    const remove = await apiFetch(`/api/threads/${threadId}`, { method: "DELETE" }, "bob");
+    expect(remove.status).toBe(403);
+
+    const chat = await apiFetch(
+      "/api/chat",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ threadId, message: "Let me in" }),
+      },
+      "bob"
+    );
+    expect(chat.status).toBe(403);
+
+    const agent = await apiFetch(`/api/agent/${threadId}/threads`, {}, "bob");
+    expect(agent.status).toBe(403);
+
+    // Unknown threads are not claimed by whoever asks first
+    const unknownThread = crypto.randomUUID();
+    expect((await apiFetch(`/api/agent/${unknownThread}`, { headers: { Upgrade: "websocket" } }, "bob")).status).toBe(
+      404
+    );
+    expect((await apiFetch(`/api/threads/${unknownThread}`, {}, "bob")).status).toBe(404);
+  });
+
+  it("keeps an agent connection on its own thread", async () => {
+    const aliceThread = await createThread("alice");
+    const bobThread = await createThread("bob");
+
+    const upgrade = await apiFetch(`/api/agent/${bobThread}`, { headers: { Upgrade: "websocket" } }, "bob");
+    expect(upgrade.status).toBe(101);
+    const socket = upgrade.webSocket!;
+    const errors: string[] = [];
+    socket.addEventListener("message", (event) => {
+      const data = JSON.parse(event.data as string);
+      if (data.type === "error") errors.push(data.error);
+    });
+    socket.accept();
+
+    socket.send(JSON.stringify({ type: "load_thread", threadId: aliceThread }));
+    socket.send(
+      JSON.stringify({
+        type: "cf_agent_state",
+        state: { threadId: aliceThread, systemPrompt: "", conversationHistory: [] },
+      })
+    );
+    await vi.waitFor(() => expect(errors).toEqual(["Thread not found"]));
+
+    await withAgent(bobThread, async (agent) => {
+      await vi.waitFor(() => expect(agent.state.threadId).toBeNull());
+      expect(await agent.loadThread(aliceThread)).toBe(false);
+    });
+    socket.close();
+  });
+});
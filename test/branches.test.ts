@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { BranchError } from "../src/branches";
+import { FakeMcpServer, textResult } from "./fakes/fake-mcp-server";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { apiFetch, getD1Messages, withAgent } from "./helpers";
+
+const USER = "branch-user";
+
+function send(path: string, method: string, body: unknown) {
+  return apiFetch(
+    path,
+    { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) },
+    USER
+  );
+}
+
+async function createThread(): Promise<string> {
+  const response = await send("/api/threads", "POST", {});
+  const { threadId } = await response.json<{ threadId: string }>();
+  return threadId;
+}
+
+function contents(messages: Array<{ content: string }>): string[] {
+  return messages.map((msg) => msg.content);
+}
+
+describe("conversation branching", () => {
+  it("forks a new branch when an earlier message is edited", async () => {
+    const threadId = crypto.randomUUID();
+
+    await withAgent(threadId, async (agent) => {
+      agent.llm = new ScriptedProvider([
+        { content: "Use a card grid." },
+        { content: "Make cards 320px wide." },
+        { content: "Make cards 280px wide." },
+      ]);
+
+      await agent.chat("How should I lay out products?");
+      await agent.chat("How wide should cards be?");
+      const firstReply = agent.state.conversationHistory[1];
+
+      await agent.chat("How wide should cards be on mobile?", undefined, { parentId: firstReply.id });
+
+      expect(contents(agent.state.conversationHistory)).toEqual([
+        "How should I lay out products?",
+        "Use a card grid.",
+        "How wide should cards be on mobile?",
+        "Make cards 280px wide.",
+      ]);
+      // The edited branch never sees the replaced question
+      const sent = JSON.stringify(agent.llm.requests.at(-1)!.messages);
+      expect(sent).not.toContain("How wide should cards be?");
+    });
+
+    const stored = await getD1Messages(threadId);
+    expect(stored).toHaveLength(6);
+    const edited = stored.find((row) => row.content === "How wide should cards be on mobile?")!;
+    const original = stored.find((row) => row.content === "How wide should cards be?")!;
+    expect(edited.parent_id).toBe(original.parent_id);
+  });
+
+  it("regenerates a reply as a sibling of the original", async () => {
+    const threadId = crypto.randomUUID();
+
+    await withAgent(threadId, async (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Blue" }, { content: "Teal" }]);
+
+      await agent.chat("Pick a primary color");
+      const question = agent.state.conversationHistory[0];
+      await agent.regenerate(question.id);
+
+      expect(contents(agent.state.conversationHistory)).toEqual(["Pick a primary color", "Teal"]);
+      await expect(agent.regenerate(agent.state.conversationHistory[1].id)).rejects.toThrow(BranchError);
+    });
+
+    const replies = (await getD1Messages(threadId)).filter((row) => row.role === "assistant");
+    expect(contents(replies)).toEqual(["Blue", "Teal"]);
+    expect(new Set(replies.map((row) => row.parent_id)).size).toBe(1);
+  });
+
+  it("continues the branch selected through the API", async () => {
+    const threadId = await createThread();
+    await withAgent(threadId, async (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Serif" }, { content: "Sans-serif" }]);
+      await agent.chat("Pick a typeface");
+      await agent.regenerate(agent.state.conversationHistory[0].id);
+    });
+
+    const serif = (await getD1Messages(threadId)).find((row) => row.content === "Serif")!;
+    const patch = await send(`/api/threads/${threadId}`, "PATCH", { activeLeafId: serif.id });
+    expect(patch.status).toBe(200);
+
+    await withAgent(threadId, async (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Georgia works well." }]);
+      await agent.chat("Which one exactly?");
+      expect(contents(agent.state.conversationHistory)).toEqual([
+        "Pick a typeface",
+        "Serif",
+        "Which one exactly?",
+        "Georgia works well.",
+      ]);
+    });
+  });
+
+  it("rejects regenerating a message from another thread", async () => {
+    const threadId = await createThread();
+
+    const response = await send("/api/chat", "POST", { threadId, regenerateFrom: crypto.randomUUID() });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects edits that would follow a tool call", async () => {
+    const threadId = await createThread();
+    await withAgent(threadId, async (agent) => {
+      agent.fakeMcp = new FakeMcpServer([{ name: "list_projects", handler: () => textResult("[]") }]);
+      agent.llm = new ScriptedProvider([
+        { toolCalls: [{ name: "stitch__list_projects" }] },
+        { content: "You have no projects yet." },
+      ]);
+      await agent.chat("Which projects do we have?");
+    });
+    const [question, call, result] = await getD1Messages(threadId);
+    expect([call.role, result.role]).toEqual(["assistant", "tool"]);
+
+    const edit = (parentId: string | null) =>
+      send("/api/chat", "POST", { threadId, message: "Which screens do we have?", parentId });
+    for (const parentId of [call.id, result.id, question.id]) {
+      const response = await edit(parentId);
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: `Message ${parentId} does not precede a user message that can be edited`,
+      });
+    }
+    expect(await getD1Messages(threadId)).toHaveLength(4);
+
+    await withAgent(threadId, (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "None yet." }]);
+    });
+    expect((await edit(null)).status).toBe(200);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import type { Message } from "../src/agent";
+import {
+  estimateTokens,
+  planSummary,
+  selectActiveWindow,
+  truncateToTokens,
+} from "../src/context";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { getD1Messages, withAgent } from "./helpers";
+
+let counter = 0;
+function msg(role: Message["role"], content: string, extra: Partial<Message> = {}): Message {
+  counter++;
+  return { id: `m${counter}`, role, content, createdAt: counter, ...extra };
+}
+
+describe("token estimation", () => {
+  it("counts content and tool call arguments", () => {
+    const plain = msg("assistant", "x".repeat(400));
+    const withCall = msg("assistant", "x".repeat(400), {
+      toolCalls: [{ id: "c1", type: "function", function: { name: "get_screen", arguments: "y".repeat(400) } }],
+    });
+
+    expect(estimateTokens(plain)).toBe(104);
+    expect(estimateTokens(withCall)).toBeGreaterThan(estimateTokens(plain) + 100);
+  });
+
+  it("truncates long text keeping head and tail", () => {
+    const text = `HEAD${"x".repeat(10_000)}TAIL`;
+    const truncated = truncateToTokens(text, 100);
+
+    expect(truncated.length).toBeLessThan(500);
+    expect(truncated.startsWith("HEAD")).toBe(true);
+    expect(truncated.endsWith("TAIL")).toBe(true);
+    expect(truncated).toContain("characters truncated");
+    expect(truncateToTokens("short", 100)).toBe("short");
+  });
+});
+
+describe("planSummary", () => {
+  it("returns null while the window is under the threshold", () => {
+    expect(planSummary([msg("user", "hi"), msg("assistant", "hello")], 1000, 500)).toBeNull();
+  });
+
+  it("cuts at a user message so tool calls stay with their results", () => {
+    const big = "x".repeat(2000);
+    const history = [
+      msg("user", big),
+      msg("assistant", "", {
+        toolCalls: [{ id: "c1", type: "function", function: { name: "list_projects", arguments: "{}" } }],
+      }),
+      msg("tool", big, { toolCallId: "c1" }),
+      msg("assistant", big),
+      msg("user", "next question"),
+      msg("assistant", big),
+      msg("user", "latest"),
+    ];
+
+    const plan = planSummary(history, 1000, 600);
+
+    expect(plan?.toSummarize.map((m) => m.role)).toEqual(["user", "assistant", "tool", "assistant"]);
+  });
+
+  it("only considers messages after the latest summary", () => {
+    const first = msg("user", "x".repeat(8000));
+    const summary = msg("system", "summary", {
+      metadata: { type: "summary", summarizedUntil: first.id },
+    });
+    const recent = msg("user", "recent");
+    const history = [first, summary, recent];
+
+    expect(selectActiveWindow(history)).toEqual({ summary, messages: [recent] });
+    expect(planSummary(history, 1000, 500)).toBeNull();
+  });
+});
+
+describe("rolling summaries in chat", () => {
+  it("persists a summary and stops sending the summarized turns", async () => {
+    const threadId = crypto.randomUUID();
+    const long = "detail ".repeat(700);
+
+    const request = await withAgent(threadId, async (agent) => {
+      agent.llm = new ScriptedProvider([
+        { content: long },
+        { content: long },
+        { content: "Primary color is #4F46E5; spacing grid is 8px." },
+        { content: "Noted." },
+      ]);
+      await agent.chat("What primary color?");
+      await agent.chat("What spacing grid?");
+      await agent.chat("Summarize our decisions");
+
+      return agent.llm.requests.at(-1)!;
+    });
+
+    expect(request.messages.map((m) => m.role)).toEqual(["system", "system", "user"]);
+    expect(request.messages[1].content).toContain("#4F46E5");
+
+    const stored = await getD1Messages(threadId);
+    const summary = stored.find((row) => row.role === "system");
+    expect(JSON.parse(summary!.metadata!)).toMatchObject({ type: "summary" });
+  });
+});
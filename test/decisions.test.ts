@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { Decision } from "../src/decisions";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { apiFetch, getD1Messages, withAgent } from "./helpers";
+
+const USER = "decision-user";
+
+const SPACING_DECISION = {
+  title: "Use an 8px spacing grid",
+  context: "Screens mix 5px, 6px and 10px gaps.",
+  options: ["4px grid", "8px grid"],
+  decision: "All spacing is a multiple of 8px.",
+  rationale: "Matches the platform guidelines and halves the number of spacing tokens.",
+  tags: ["Spacing", "tokens"],
+};
+
+function send(path: string, method: string, body?: unknown, userId = USER) {
+  return apiFetch(
+    path,
+    {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    },
+    userId
+  );
+}
+
+async function createThread(): Promise<string> {
+  const response = await send("/api/threads", "POST", {});
+  return (await response.json<{ threadId: string }>()).threadId;
+}
+
+async function listDecisions(query = ""): Promise<Decision[]> {
+  const response = await send(`/api/decisions${query}`, "GET");
+  return (await response.json<{ decisions: Decision[] }>()).decisions;
+}
+
+describe("decision log", () => {
+  it("records decisions through the built-in tool and lists, filters and exports them", async () => {
+    const threadId = await createThread();
+
+    await withAgent(threadId, async (agent) => {
+      agent.llm = new ScriptedProvider([
+        { toolCalls: [{ name: "record_decision", arguments: SPACING_DECISION }] },
+        { content: "Recorded: all spacing uses the 8px grid." },
+      ]);
+      await agent.chat("Let's go with the 8px grid");
+    });
+
+    const messages = await getD1Messages(threadId);
+    const callMessage = messages.find((message) => message.tool_calls)!;
+    const toolMessage = messages.find((message) => message.role === "tool")!;
+    const { decisionId } = JSON.parse(toolMessage.content);
+    expect(JSON.parse(toolMessage.content)).toEqual({ recorded: true, decisionId: expect.any(String) });
+
+    const [decision] = await listDecisions();
+    expect(decision).toMatchObject({
+      id: decisionId,
+      owner_id: USER,
+      thread_id: threadId,
+      message_id: callMessage.id,
+      title: "Use an 8px spacing grid",
+      options: ["4px grid", "8px grid"],
+      tags: ["spacing", "tokens"],
+    });
+
+    expect(await listDecisions(`?threadId=${threadId}&tag=spacing`)).toHaveLength(1);
+    expect(await listDecisions("?tag=color")).toEqual([]);
+    expect(await listDecisions("?q=platform%20guidelines")).toHaveLength(1);
+    // LIKE wildcards in the query match only themselves
+    expect(await listDecisions("?q=%25")).toEqual([]);
+    expect(await listDecisions("?q=8px_spacing")).toEqual([]);
+
+    const markdown = await send(`/api/decisions/export?threadId=${threadId}`, "GET");
+    expect(markdown.headers.get("Content-Disposition")).toBe('attachment; filename="design-decisions.md"');
+    const text = await markdown.text();
+    expect(text).toContain("## 1. Use an 8px spacing grid");
+    expect(text).toContain("### Options considered\n\n- 4px grid\n- 8px grid");
+    expect(text).toContain("### Rationale\n\nMatches the platform guidelines");
+    const json = await (await send("/api/decisions/export?format=json", "GET")).json<{ decisions: Decision[] }>();
+    expect(json.decisions.map((record) => record.id)).toEqual([decisionId]);
+    expect((await send("/api/decisions/export?format=pdf", "GET")).status).toBe(400);
+
+    // Decisions are private to their owner
+    expect((await send(`/api/decisions/${decisionId}`, "GET", undefined, "someone-else")).status).toBe(404);
+    expect((await send(`/api/decisions/${decisionId}`, "DELETE", undefined, "someone-else")).status).toBe(404);
+    expect((await send(`/api/decisions/${decisionId}`, "DELETE")).status).toBe(200);
+    expect(await listDecisions()).toEqual([]);
+  });
+
+  it("returns invalid records to the model as tool errors", async () => {
+    const threadId = await createThread();
+
+    await withAgent(threadId, async (agent) => {
+      agent.llm = new ScriptedProvider([
+        { toolCalls: [{ name: "record_decision", arguments: { ...SPACING_DECISION, decision: " " } }] },
+        { content: "I could not record that decision." },
+      ]);
+      await agent.chat("Record the spacing decision");
+    });
+
+    const toolMessage = (await getD1Messages(threadId)).find((message) => message.role === "tool")!;
+    expect(JSON.parse(toolMessage.content).error).toMatch(/^Invalid arguments for record_decision: decision: /);
+    expect(JSON.parse(toolMessage.metadata!).isError).toBe(true);
+    expect(await listDecisions(`?threadId=${threadId}`)).toEqual([]);
+  });
+});
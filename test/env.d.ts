@@ -0,0 +1,10 @@
+import type { Env } from "../src/agent";
+import type { UXArchitectAgent } from "./worker";
+
+declare module "cloudflare:test" {
+  interface ProvidedEnv extends Omit<Env, "UX_ARCHITECT_AGENT"> {
+    UX_ARCHITECT_AGENT: DurableObjectNamespace<UXArchitectAgent>;
+    /** The D1 migrations, read by vitest.config.ts */
+    TEST_MIGRATIONS: D1Migration[];
+  }
+}
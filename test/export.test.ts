@@ -0,0 +1,175 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Decision } from "../src/decisions";
+import type { ThreadExport } from "../src/export";
+import type { MessageRow } from "../src/persistence";
+import { FakeMcpServer, textResult } from "./fakes/fake-mcp-server";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { apiFetch, getD1Messages, withAgent } from "./helpers";
+
+const USER = "export-user";
+
+function send(path: string, method: string, body?: unknown, userId = USER) {
+  return apiFetch(
+    path,
+    {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    },
+    userId
+  );
+}
+
+async function createThread(title: string): Promise<string> {
+  const response = await send("/api/threads", "POST", { title });
+  return (await response.json<{ threadId: string }>()).threadId;
+}
+
+const STEPPER_DECISION = {
+  title: "Use a stepper for onboarding",
+  context: "Onboarding has four steps",
+  options: ["Stepper", "Single long form"],
+  decision: "Use a <Stepper> component",
+  rationale: "It shows progress through the steps",
+  tags: ["navigation"],
+};
+
+/**
+ * A thread with a tool call, a recorded decision, a remembered note and an
+ * HTML-looking message
+ */
+async function createDesignThread(): Promise<string> {
+  const threadId = await createThread("Onboarding <flow>");
+  await withAgent(threadId, async (agent) => {
+    agent.memory = { extraction: true, topK: 5 };
+    agent.fakeMcp = new FakeMcpServer([{ name: "list_projects", handler: () => textResult('{"projects":["Onboarding"]}') }]);
+    agent.llm = new ScriptedProvider([
+      { toolCalls: [{ name: "stitch__list_projects" }] },
+      { toolCalls: [{ name: "record_decision", arguments: STEPPER_DECISION }] },
+      { content: "Found the Onboarding project. Screens use a <Stepper> component." },
+      { content: '["Onboarding screens use a Stepper component"]' },
+    ]);
+    await agent.chat("Which projects do we have?");
+  });
+  await vi.waitFor(async () => {
+    const response = await send("/api/memories", "GET");
+    expect((await response.json<{ memories: unknown[] }>()).memories).toHaveLength(1);
+  });
+  return threadId;
+}
+
+describe("thread export and import", () => {
+  it("renders Markdown and HTML with tool calls and decisions", async () => {
+    const threadId = await createDesignThread();
+
+    const markdown = await send(`/api/threads/${threadId}/export?format=markdown`, "GET");
+    expect(markdown.status).toBe(200);
+    expect(markdown.headers.get("Content-Type")).toBe("text/markdown; charset=utf-8");
+    expect(markdown.headers.get("Content-Disposition")).toBe('attachment; filename="onboarding-flow.md"');
+    const text = await markdown.text();
+    expect(text).toContain("# Onboarding <flow>");
+    expect(text).toContain("## Design decisions\n\n### 1. Use a stepper for onboarding\n");
+    expect(text).toContain("#### Decision\n\nUse a <Stepper> component\n");
+    expect(text).toContain("## Remembered design notes\n\n- Onboarding screens use a Stepper component");
+    expect(text).toContain("### User\n\nWhich projects do we have?");
+    expect(text).toContain("**Tool call:** `stitch__list_projects`");
+    expect(text).toContain("**Tool result:** `stitch__list_projects`\n\n```\n{\n");
+    expect(text).toContain('"text": "{\\"projects\\":[\\"Onboarding\\"]}"');
+
+    const html = await (await send(`/api/threads/${threadId}/export?format=html`, "GET")).text();
+    expect(html).toContain("<title>Onboarding &lt;flow&gt;</title>");
+    expect(html).toContain("Screens use a &lt;Stepper&gt; component.");
+    expect(html).toContain("<summary>Tool call: stitch__list_projects</summary>");
+    expect(html).toContain("<h3>Use a stepper for onboarding</h3>");
+    expect(html).toContain('<div class="content">Use a &lt;Stepper&gt; component</div>');
+    expect(html).toContain("<h2>Remembered design notes</h2>");
+    expect(html).not.toContain("<Stepper>");
+
+    expect((await send(`/api/threads/${threadId}/export?format=pdf`, "GET")).status).toBe(400);
+    expect((await send(`/api/threads/${threadId}/export`, "GET", undefined, "someone-else")).status).toBe(403);
+  });
+
+  it("round-trips the JSON export through import", async () => {
+    const threadId = await createDesignThread();
+
+    const response = await send(`/api/threads/${threadId}/export?format=json`, "GET");
+    const exported = await response.json<ThreadExport>();
+    expect(exported).toMatchObject({ version: 1, thread: { id: threadId, title: "Onboarding <flow>" } });
+    expect(exported.messages.map((message) => message.role)).toEqual([
+      "user",
+      "assistant",
+      "tool",
+      "assistant",
+      "tool",
+      "assistant",
+    ]);
+    expect(exported.decisions).toEqual([
+      { ...STEPPER_DECISION, message_id: exported.messages[3].id, created_at: expect.any(Number) },
+    ]);
+
+    const imported = await send("/api/threads/import", "POST", exported);
+    expect(imported.status).toBe(201);
+    const { threadId: importedId } = await imported.json<{ threadId: string }>();
+    expect(importedId).not.toBe(threadId);
+
+    // Messages are copied with new IDs and the same branch structure
+    const original = await getD1Messages(threadId);
+    const copy = await getD1Messages(importedId);
+    const shape = (rows: MessageRow[]) =>
+      rows.map((row) => [row.role, row.content, row.tool_call_id, rows.findIndex((r) => r.id === row.parent_id)]);
+    expect(shape(copy)).toEqual(shape(original));
+    expect(copy.some((row) => original.some((other) => other.id === row.id))).toBe(false);
+
+    // Decision records are recreated for the copy, linked to its messages
+    const listDecisions = async (id: string) =>
+      (await (await send(`/api/decisions?threadId=${id}`, "GET")).json<{ decisions: Decision[] }>()).decisions;
+    const [decision] = await listDecisions(importedId);
+    expect(decision).toMatchObject({
+      ...STEPPER_DECISION,
+      owner_id: USER,
+      thread_id: importedId,
+      message_id: copy[3].id,
+      created_at: exported.decisions[0].created_at,
+    });
+    expect(await listDecisions(threadId)).toHaveLength(1);
+
+    // The imported thread continues from its last message in the agent
+    await withAgent(importedId, async (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Picking up where we left off." }]);
+      await agent.loadThread(importedId);
+      await agent.chat("Continue");
+      const contents = agent.llm.requests[0].messages.map((message) => message.content);
+      expect(contents).toContain("Which projects do we have?");
+      expect(contents.at(-1)).toBe("Continue");
+    });
+
+    const exportedAgain = await (await send(`/api/threads/${importedId}/export?format=json`, "GET")).json<ThreadExport>();
+    expect(exportedAgain.thread.title).toBe("Onboarding <flow>");
+
+    expect((await send("/api/threads/import", "POST", { ...exported, version: 2 })).status).toBe(400);
+    const orphan = { ...exported, messages: [{ ...exported.messages[1], parentId: "missing" }] };
+    expect((await send("/api/threads/import", "POST", orphan)).status).toBe(400);
+
+    // Tool calls and their results must pair up
+    const [user, assistant, tool] = exported.messages;
+    const unanswered = await send("/api/threads/import", "POST", { ...exported, messages: [user, assistant] });
+    expect(unanswered.status).toBe(400);
+    expect(await unanswered.json()).toEqual({
+      error:
+        `messages[1] has tool calls without results: ${assistant.toolCalls![0].id}. ` +
+        "Approve or reject tool calls awaiting approval before exporting the thread.",
+    });
+    const misdirected = { ...exported, messages: [user, assistant, { ...tool, toolCallId: "call_other" }] };
+    expect(await (await send("/api/threads/import", "POST", misdirected)).json()).toEqual({
+      error: "messages[2] must answer a tool call of the assistant message it follows",
+    });
+    const stray = { ...exported, decisions: [{ ...exported.decisions[0], message_id: "missing" }] };
+    expect(await (await send("/api/threads/import", "POST", stray)).json()).toEqual({
+      error: "decisions[0] must have the message_id of an exported message",
+    });
+    const repeated = { ...exported, messages: [user, assistant, tool, { ...tool, id: "again" }] };
+    expect(await (await send("/api/threads/import", "POST", repeated)).json()).toEqual({
+      error: `messages[3] answers tool call ${tool.toolCallId} again`,
+    });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Dimensions of the fake embeddings
+ */
+const DIMENSIONS = 64;
+
+/**
+ * Hash a word to one of the embedding dimensions
+ */
+function bucketOf(word: string): number {
+  let hash = 0;
+  for (const char of word) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return hash % DIMENSIONS;
+}
+
+/**
+ * Embed text as a bag of words, so texts sharing words are similar
+ */
+export function embedWords(text: string): number[] {
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9#]+/g) ?? []) {
+    vector[bucketOf(word)] += 1;
+  }
+  return vector;
+}
+
+/**
+ * Stand-in for the Workers AI binding that answers embedding requests
+ * deterministically. Every request is recorded.
+ */
+export class FakeAi {
+  readonly requests: Array<{ model: string; inputs: Record<string, unknown> }> = [];
+
+  async run(model: string, inputs: Record<string, unknown>): Promise<unknown> {
+    this.requests.push({ model, inputs });
+    if (!Array.isArray(inputs.text)) {
+      throw new Error(`FakeAi only serves embedding requests, got one for ${model}`);
+    }
+    return { shape: [inputs.text.length, DIMENSIONS], data: inputs.text.map((text: string) => embedWords(text)) };
+  }
+}
+
+/**
+ * Shared instance used by the test Worker and agents
+ */
+export const fakeAi = new FakeAi();
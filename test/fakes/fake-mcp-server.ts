@@ -0,0 +1,102 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  type CallToolResult,
+  type Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * A tool exposed by the fake server
+ */
+export interface FakeTool {
+  name: string;
+  description?: string;
+  inputSchema?: Tool["inputSchema"];
+  handler: (args: Record<string, unknown>) => CallToolResult | Promise<CallToolResult>;
+}
+
+/**
+ * In-process MCP server with configurable tools.
+ * The agent talks to it through a real MCP client over an in-memory transport.
+ */
+export class FakeMcpServer {
+  readonly calls: Array<{ name: string; arguments: Record<string, unknown> }> = [];
+  private readonly tools = new Map<string, FakeTool>();
+  private client: Client | null = null;
+
+  constructor(tools: FakeTool[] = []) {
+    for (const tool of tools) {
+      this.tools.set(tool.name, tool);
+    }
+  }
+
+  /**
+   * Connect a client to the server; safe to call repeatedly
+   */
+  async connect(): Promise<Client> {
+    if (this.client) {
+      return this.client;
+    }
+
+    const server = new Server(
+      { name: "fake-mcp", version: "1.0.0" },
+      { capabilities: { tools: {} } }
+    );
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [...this.tools.values()].map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema ?? { type: "object" as const, properties: {} },
+      })),
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const args = request.params.arguments ?? {};
+      this.calls.push({ name: request.params.name, arguments: args });
+
+      const tool = this.tools.get(request.params.name);
+      if (!tool) {
+        return {
+          content: [{ type: "text", text: `Unknown tool: ${request.params.name}` }],
+          isError: true,
+        };
+      }
+      return tool.handler(args);
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: "fake-mcp-client", version: "1.0.0" });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    this.client = client;
+    return client;
+  }
+
+  /**
+   * List the tools the server currently advertises
+   */
+  async listTools(): Promise<Tool[]> {
+    const client = await this.connect();
+    const { tools } = await client.listTools();
+    return tools;
+  }
+
+  /**
+   * Call a tool through the MCP client
+   */
+  async callTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+    const client = await this.connect();
+    return client.callTool({ name, arguments: args });
+  }
+}
+
+/**
+ * Shorthand for a tool result with a single text block
+ */
+export function textResult(text: string): CallToolResult {
+  return { content: [{ type: "text", text }] };
+}
@@ -0,0 +1,69 @@
+import type {
+  ChatToolCall,
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+} from "../../src/providers";
+
+/**
+ * One canned model turn: plain text, tool calls, or both
+ */
+export interface ScriptedTurn {
+  content?: string;
+  toolCalls?: Array<{ name: string; arguments?: Record<string, unknown>; id?: string }>;
+  usage?: CompletionResult["usage"];
+}
+
+/**
+ * Deterministic LLM provider that replays a fixed sequence of turns.
+ * Every request is recorded so tests can assert on what the agent sent.
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = "scripted";
+  readonly requests: CompletionRequest[] = [];
+  private turns: ScriptedTurn[];
+  private callCounter = 0;
+
+  constructor(turns: ScriptedTurn[] = []) {
+    this.turns = [...turns];
+  }
+
+  /**
+   * Queue more turns after the current script
+   */
+  enqueue(...turns: ScriptedTurn[]): void {
+    this.turns.push(...turns);
+  }
+
+  get remaining(): number {
+    return this.turns.length;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    this.requests.push(structuredClone({ ...request, onTextDelta: undefined }));
+
+    const turn = this.turns.shift();
+    if (!turn) {
+      throw new Error("ScriptedProvider script exhausted");
+    }
+
+    const content = turn.content ?? "";
+    if (content && request.onTextDelta) {
+      // Stream word by word so consumers see multiple deltas
+      for (const chunk of content.match(/\S+\s*/g) ?? []) {
+        request.onTextDelta(chunk);
+      }
+    }
+
+    const toolCalls: ChatToolCall[] = (turn.toolCalls ?? []).map((call) => ({
+      id: call.id ?? `call_${++this.callCounter}`,
+      type: "function",
+      function: {
+        name: call.name,
+        arguments: JSON.stringify(call.arguments ?? {}),
+      },
+    }));
+
+    return { content, toolCalls, usage: turn.usage };
+  }
+}
@@ -0,0 +1,64 @@
+import { SELF, env, runInDurableObject } from "cloudflare:test";
+import { getAgentByName } from "agents";
+import { auditAccessibilityTool } from "../src/accessibility";
+import { signToken } from "../src/auth";
+import { recordDecisionTool } from "../src/decisions";
+import { DESIGN_TOOLS } from "../src/design-tools";
+import type { MessageRow } from "../src/persistence";
+import type { UXArchitectAgent } from "./worker";
+
+/**
+ * Names of the local tools every thread offers after its MCP tools
+ */
+export const LOCAL_TOOL_NAMES = [recordDecisionTool, ...DESIGN_TOOLS, auditAccessibilityTool].map((tool) => tool.name);
+
+/**
+ * Get the agent stub for a thread, named the same way the Worker routes do
+ */
+export function getAgent(threadId: string) {
+  return getAgentByName(env.UX_ARCHITECT_AGENT, threadId);
+}
+
+/**
+ * Run a callback against the live agent instance for a thread
+ */
+export async function withAgent<T>(
+  threadId: string,
+  callback: (agent: UXArchitectAgent) => T | Promise<T>
+): Promise<T> {
+  const stub = await getAgent(threadId);
+  return runInDurableObject(stub, (instance: UXArchitectAgent) => callback(instance));
+}
+
+/**
+ * Read a thread's messages straight from D1
+ */
+export async function getD1Messages(threadId: string): Promise<MessageRow[]> {
+  const { results } = await env.DB.prepare(
+    "SELECT * FROM messages WHERE thread_id = ? ORDER BY created_at ASC, rowid ASC"
+  )
+    .bind(threadId)
+    .all<MessageRow>();
+  return results;
+}
+
+/**
+ * User listed in the test Worker's `ADMIN_USER_IDS`
+ */
+export const ADMIN_USER = "admin-user";
+
+/**
+ * Sign a token for a test user
+ */
+export function tokenFor(userId: string): Promise<string> {
+  return signToken(env.AUTH_SECRET!, { sub: userId, exp: Math.floor(Date.now() / 1000) + 3600 });
+}
+
+/**
+ * Call the Worker's API as a signed-in user
+ */
+export async function apiFetch(path: string, init: RequestInit = {}, userId = "test-user"): Promise<Response> {
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", `Bearer ${await tokenFor(userId)}`);
+  return SELF.fetch(`https://example.com${path}`, { ...init, headers });
+}
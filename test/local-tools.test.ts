@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod/v4";
+import {
+  calculateSpacingTokens,
+  checkColorContrast,
+  contrastRatio,
+  generateTypeScale,
+  lookupDesignToken,
+} from "../src/design-tools";
+import { defineLocalTool, mergeTools, runLocalTool, type LocalToolContext } from "../src/local-tools";
+import { namespaceToolName } from "../src/mcp-servers";
+import { FakeMcpServer, textResult } from "./fakes/fake-mcp-server";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { getD1Messages, withAgent } from "./helpers";
+
+const context = {} as LocalToolContext;
+
+describe("local tools", () => {
+  it("describes their arguments to the model from the zod schema", () => {
+    expect(checkColorContrast.definition).toEqual({
+      type: "function",
+      function: {
+        name: "check_color_contrast",
+        description: expect.stringContaining("WCAG 2 contrast ratio"),
+        parameters: {
+          type: "object",
+          properties: {
+            foreground: expect.objectContaining({ type: "string", description: "Text or foreground color, e.g. #1F2937" }),
+            background: expect.objectContaining({ type: "string" }),
+          },
+          required: ["foreground", "background"],
+        },
+      },
+    });
+    // Arguments with defaults are optional for the model
+    expect(generateTypeScale.definition.function.parameters).not.toHaveProperty("required");
+
+    expect(() =>
+      defineLocalTool({ name: "stitch__list_projects", description: "", schema: z.object({}), run: () => null })
+    ).toThrow(/Invalid local tool name/);
+  });
+
+  it("computes contrast, type scales, spacing tokens and token lookups", async () => {
+    expect(contrastRatio("#000", "#FFFFFF")).toBe(21);
+    expect(await runLocalTool(checkColorContrast, { foreground: "#767676", background: "#fff" }, context)).toEqual({
+      foreground: "#767676",
+      background: "#fff",
+      ratio: 4.54,
+      aa: { normalText: true, largeText: true },
+      aaa: { normalText: false, largeText: true },
+      uiComponents: true,
+    });
+
+    const scale = (await runLocalTool(generateTypeScale, { ratio: "perfect-fourth", stepsUp: 2, stepsDown: 1 }, context)) as {
+      steps: unknown[];
+    };
+    expect(scale.steps).toEqual([
+      { step: 2, name: "xl", px: 28.43, rem: 1.777 },
+      { step: 1, name: "lg", px: 21.33, rem: 1.333 },
+      { step: 0, name: "base", px: 16, rem: 1 },
+      { step: -1, name: "sm", px: 12, rem: 0.75 },
+    ]);
+
+    const spacing = (await runLocalTool(calculateSpacingTokens, { baseUnit: 4, multipliers: [2, 0.5, 1] }, context)) as {
+      css: string;
+    };
+    expect(spacing.css).toBe(":root {\n  --space-0_5: 0.125rem;\n  --space-1: 0.25rem;\n  --space-2: 0.5rem;\n}");
+
+    expect(await runLocalTool(lookupDesignToken, { query: "color.blue.500" }, context)).toEqual({
+      tokens: [{ name: "color.blue.500", value: "#3b82f6" }],
+      total: 1,
+    });
+    expect(await runLocalTool(lookupDesignToken, { query: "radius", limit: 2 }, context)).toMatchObject({ total: 6 });
+
+    await expect(runLocalTool(checkColorContrast, { foreground: "blue" }, context)).rejects.toThrow(
+      "Invalid arguments for check_color_contrast: foreground: Expected a hex color such as #1A2B3C or #FFF; " +
+        "background: Invalid input: expected string, received undefined"
+    );
+  });
+
+  it("leaves out MCP tools whose namespaced names the provider would reject", () => {
+    const mcpTool = (toolName: string) => ({
+      type: "function" as const,
+      function: { name: namespaceToolName("design-system", toolName), parameters: {} },
+    });
+    const merged = mergeTools(
+      [checkColorContrast],
+      [
+        mcpTool("list_components"),
+        mcpTool("generate_component_variants_for_every_breakpoint_and_theme"),
+        mcpTool("tokens.export"),
+      ]
+    );
+    expect(merged.map((tool) => tool.function.name)).toEqual([
+      "design-system__list_components",
+      "check_color_contrast",
+    ]);
+    expect(merged[1]).toBe(checkColorContrast.definition);
+  });
+
+  it("runs local tools in the agent loop and reports invalid arguments as tool errors", async () => {
+    const threadId = crypto.randomUUID();
+
+    await withAgent(threadId, async (agent) => {
+      agent.fakeMcp = new FakeMcpServer([{ name: "list_projects", handler: () => textResult("[]") }]);
+      agent.llm = new ScriptedProvider([
+        { toolCalls: [{ name: "check_color_contrast", arguments: { foreground: "#777", background: "white" } }] },
+        { toolCalls: [{ name: "check_color_contrast", arguments: { foreground: "#777", background: "#FFF" } }] },
+        { content: "#777 on white is 4.48:1, just short of AA for body text." },
+      ]);
+      await agent.chat("Is #777 on white accessible?");
+      expect(agent.fakeMcp.calls).toEqual([]);
+    });
+
+    const results = (await getD1Messages(threadId)).filter((message) => message.role === "tool");
+    expect(JSON.parse(results[0].content)).toEqual({
+      error: "Invalid arguments for check_color_contrast: background: Expected a hex color such as #1A2B3C or #FFF",
+    });
+    expect(JSON.parse(results[0].metadata!).isError).toBe(true);
+    expect(JSON.parse(results[1].content)).toMatchObject({ ratio: 4.48, aa: { normalText: false, largeText: true } });
+  });
+});
@@ -0,0 +1,117 @@
+import { SELF, env, fetchMock } from "cloudflare:test";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { McpServer, McpServerStatus } from "../src/mcp-servers";
+import { FakeMcpServer, textResult } from "./fakes/fake-mcp-server";
+import { ADMIN_USER, apiFetch, withAgent } from "./helpers";
+
+const AUTH_ORIGIN = "https://mcp.example.com";
+
+async function createThread(userId = "test-user"): Promise<string> {
+  const response = await apiFetch(
+    "/api/threads",
+    { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({}) },
+    userId
+  );
+  const { threadId } = await response.json<{ threadId: string }>();
+  return threadId;
+}
+
+describe("MCP connection status", () => {
+  it("reports each server's state and tool count for the caller's thread", async () => {
+    const threadId = await createThread();
+    await withAgent(threadId, (agent) => {
+      agent.fakeMcp = new FakeMcpServer([
+        { name: "list_projects", handler: () => textResult("[]") },
+        { name: "get_screen", handler: () => textResult("{}") },
+      ]);
+    });
+
+    const response = await apiFetch(`/api/mcp/status?threadId=${threadId}`);
+    expect(response.status).toBe(200);
+    const { servers } = await response.json<{ servers: McpServerStatus[] }>();
+    expect(servers).toEqual([
+      { serverId: "stitch", name: "stitch", state: "ready", toolCount: 2, authUrl: null, error: null },
+    ]);
+
+    expect((await apiFetch(`/api/mcp/status?threadId=${threadId}`, {}, "someone-else")).status).toBe(403);
+  });
+});
+
+describe("MCP OAuth callback", () => {
+  let server: McpServer;
+
+  beforeAll(async () => {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+
+    const created = await apiFetch(
+      "/api/mcp-servers",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "oauth-demo", url: `${AUTH_ORIGIN}/sse`, enabled: false }),
+      },
+      ADMIN_USER
+    );
+    ({ server } = await created.json<{ server: McpServer }>());
+  });
+
+  afterAll(async () => {
+    fetchMock.deactivate();
+    await apiFetch(`/api/mcp-servers/${server.id}`, { method: "DELETE" }, ADMIN_USER);
+  });
+
+  it("exchanges the code and stores the tokens for the user who started it", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    await env.DB.batch([
+      env.DB.prepare(
+        "INSERT INTO mcp_oauth_sessions (user_id, server_id, client_info) VALUES ('oauth-user', ?, ?)"
+      ).bind(server.id, JSON.stringify({ client_id: "client-1" })),
+      env.DB.prepare(
+        "INSERT INTO mcp_oauth_states (state, user_id, server_id, code_verifier, created_at) VALUES ('state-1', 'oauth-user', ?, 'verifier-1', ?)"
+      ).bind(server.id, now),
+    ]);
+
+    const origin = fetchMock.get(AUTH_ORIGIN);
+    origin
+      .intercept({ path: "/.well-known/oauth-authorization-server" })
+      .reply(200, {
+        issuer: AUTH_ORIGIN,
+        authorization_endpoint: `${AUTH_ORIGIN}/authorize`,
+        token_endpoint: `${AUTH_ORIGIN}/token`,
+        response_types_supported: ["code"],
+        code_challenge_methods_supported: ["S256"],
+      });
+    let tokenRequest = "";
+    origin
+      .intercept({ path: "/token", method: "POST" })
+      .reply(200, (request) => {
+        tokenRequest = String(request.body);
+        return { access_token: "access-1", refresh_token: "refresh-1", token_type: "Bearer" };
+      });
+    origin.intercept({ path: () => true }).reply(404, "").persist();
+
+    const response = await SELF.fetch(
+      "https://example.com/api/mcp/callback?code=code-1&state=state-1"
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain("Connected to oauth-demo");
+    expect(tokenRequest).toContain("code_verifier=verifier-1");
+
+    const session = await env.DB.prepare(
+      "SELECT tokens FROM mcp_oauth_sessions WHERE user_id = 'oauth-user' AND server_id = ?"
+    )
+      .bind(server.id)
+      .first<{ tokens: string }>();
+    expect(JSON.parse(session!.tokens)).toMatchObject({ access_token: "access-1" });
+
+    const state = await env.DB.prepare("SELECT * FROM mcp_oauth_states WHERE state = 'state-1'").first();
+    expect(state).toBeNull();
+  });
+
+  it("rejects unknown or expired states", async () => {
+    const response = await SELF.fetch("https://example.com/api/mcp/callback?code=code-1&state=bogus");
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import type { McpServer } from "../src/mcp-servers";
+import { FakeMcpServer, textResult } from "./fakes/fake-mcp-server";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { ADMIN_USER, LOCAL_TOOL_NAMES, apiFetch, withAgent } from "./helpers";
+
+function send(path: string, method: string, body: unknown, userId = "test-user") {
+  return apiFetch(
+    path,
+    {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    },
+    userId
+  );
+}
+
+async function createThread(): Promise<string> {
+  const response = await send("/api/threads", "POST", {});
+  const { threadId } = await response.json<{ threadId: string }>();
+  return threadId;
+}
+
+describe("MCP server registry", () => {
+  it("registers servers with secret references and rejects unknown secrets", async () => {
+    const created = await send(
+      "/api/mcp-servers",
+      "POST",
+      {
+        name: "figma",
+        url: "https://figma.example.com/mcp",
+        authHeaders: { "X-Api-Key": "STITCH_API_KEY" },
+        enabled: false,
+      },
+      ADMIN_USER
+    );
+    expect(created.status).toBe(201);
+    const { server } = await created.json<{ server: McpServer }>();
+    expect(server).toMatchObject({
+      name: "figma",
+      transport: "sse",
+      auth_headers: { "X-Api-Key": "STITCH_API_KEY" },
+      enabled: false,
+    });
+
+    const leak = await send(
+      `/api/mcp-servers/${server.id}`,
+      "PATCH",
+      { authHeaders: { Authorization: "AUTH_SECRET" } },
+      ADMIN_USER
+    );
+    expect(leak.status).toBe(400);
+    expect((await send("/api/mcp-servers", "POST", { name: "figma", url: "https://x.test" }, ADMIN_USER)).status).toBe(
+      409
+    );
+
+    const list = await (await apiFetch("/api/mcp-servers")).json<{ servers: McpServer[] }>();
+    expect(list.servers.map((entry) => entry.name)).toEqual(["figma", "stitch"]);
+
+    expect((await apiFetch(`/api/mcp-servers/${server.id}`, { method: "DELETE" }, ADMIN_USER)).status).toBe(200);
+    expect((await apiFetch(`/api/mcp-servers/${server.id}`)).status).toBe(404);
+  });
+
+  it("lets only administrators change the registry", async () => {
+    // Pointing a server at another host, or adding one, would send it the Worker's secrets
+    const hijack = await send("/api/mcp-servers/stitch", "PATCH", { url: "https://attacker.example.com/sse" });
+    expect(hijack.status).toBe(403);
+    const added = await send("/api/mcp-servers", "POST", {
+      name: "exfiltrate",
+      url: "https://attacker.example.com/sse",
+      authHeaders: { "X-Goog-Api-Key": "STITCH_API_KEY" },
+    });
+    expect(added.status).toBe(403);
+    expect((await apiFetch("/api/mcp-servers/stitch", { method: "DELETE" })).status).toBe(403);
+
+    const { server } = await (await apiFetch("/api/mcp-servers/stitch")).json<{ server: McpServer }>();
+    expect(server.url).not.toContain("attacker");
+    const list = await (await apiFetch("/api/mcp-servers")).json<{ servers: McpServer[] }>();
+    expect(list.servers.map((entry) => entry.name)).toEqual(["stitch"]);
+  });
+
+  it("namespaces tools per server and honors thread opt-ins and opt-outs", async () => {
+    const created = await send(
+      "/api/mcp-servers",
+      "POST",
+      { name: "figma", url: "https://figma.example.com/mcp", enabled: false },
+      ADMIN_USER
+    );
+    const { server: figma } = await created.json<{ server: McpServer }>();
+    const threadId = await createThread();
+
+    // Opt in to the disabled server and out of Stitch
+    const patch = await send(`/api/threads/${threadId}`, "PATCH", {
+      mcpServers: { [figma.id]: true, stitch: false },
+    });
+    expect(patch.status).toBe(200);
+
+    await withAgent(threadId, async (agent) => {
+      agent.fakeMcp = new FakeMcpServer([
+        { name: "list_projects", handler: () => textResult("stitch projects") },
+      ]);
+      agent.fakeMcpServers = {
+        figma: new FakeMcpServer([
+          { name: "list_projects", handler: () => textResult("figma projects") },
+        ]),
+      };
+      agent.llm = new ScriptedProvider([
+        { toolCalls: [{ name: "figma__list_projects" }] },
+        { content: "Found your Figma projects." },
+      ]);
+
+      await agent.chat("What projects do I have?");
+
+      const tools = agent.llm.requests[0].tools!.map((tool) => tool.function.name);
+      expect(tools).toEqual(["figma__list_projects", ...LOCAL_TOOL_NAMES]);
+      expect(agent.fakeMcp.calls).toHaveLength(0);
+      expect(agent.fakeMcpServers.figma.calls).toEqual([{ name: "list_projects", arguments: {} }]);
+
+      // Opting Stitch back in exposes both same-named tools side by side
+      agent.llm = new ScriptedProvider([{ content: "Both are connected." }]);
+      await send(`/api/threads/${threadId}`, "PATCH", { mcpServers: { stitch: true } });
+      await agent.chat("And now?");
+      expect(agent.llm.requests[0].tools!.map((tool) => tool.function.name)).toEqual([
+        "figma__list_projects",
+        "stitch__list_projects",
+        ...LOCAL_TOOL_NAMES,
+      ]);
+    });
+
+    expect((await apiFetch(`/api/mcp-servers/${figma.id}`, { method: "DELETE" }, ADMIN_USER)).status).toBe(200);
+  });
+
+  it("rejects thread overrides for unknown servers", async () => {
+    const threadId = await createThread();
+    const response = await send(`/api/threads/${threadId}`, "PATCH", {
+      mcpServers: { [crypto.randomUUID()]: true },
+    });
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,115 @@
+import { env } from "cloudflare:test";
+import { describe, expect, it, vi } from "vitest";
+import type { Memory } from "../src/memory";
+import { createMemoryStore, parseExtractedMemories } from "../src/memory";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { apiFetch, withAgent } from "./helpers";
+
+const USER = "memory-user";
+
+function send(path: string, method: string, body?: unknown, userId = USER) {
+  return apiFetch(
+    path,
+    {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    },
+    userId
+  );
+}
+
+async function createThread(): Promise<string> {
+  const response = await send("/api/threads", "POST", {});
+  const { threadId } = await response.json<{ threadId: string }>();
+  return threadId;
+}
+
+async function listMemories(): Promise<Memory[]> {
+  const response = await send("/api/memories", "GET");
+  expect(response.status).toBe(200);
+  return (await response.json<{ memories: Memory[] }>()).memories;
+}
+
+describe("parseExtractedMemories", () => {
+  it("reads the JSON array out of the model's answer", () => {
+    expect(parseExtractedMemories('Here you go:\n["Use an 8px grid", 3, "  "]')).toEqual(["Use an 8px grid"]);
+    expect(parseExtractedMemories("No decisions.")).toEqual([]);
+    expect(parseExtractedMemories("[not json]")).toEqual([]);
+  });
+});
+
+describe("memories", () => {
+  it("remembers decisions from one thread and recalls them in another", async () => {
+    const firstThreadId = await createThread();
+    await withAgent(firstThreadId, async (agent) => {
+      agent.memory = { extraction: true, topK: 5 };
+      agent.llm = new ScriptedProvider([
+        { content: "Agreed, everything snaps to an 8px spacing grid." },
+        { content: '["Layouts use an 8px spacing grid", "Layouts use an 8px spacing grid."]' },
+      ]);
+      await agent.chat("Let's settle on an 8px spacing grid for layouts");
+    });
+
+    // Near-duplicates are remembered once
+    await vi.waitFor(async () =>
+      expect((await listMemories()).map((memory) => memory.content)).toEqual(["Layouts use an 8px spacing grid"])
+    );
+    const [memory] = await listMemories();
+    expect(memory.thread_id).toBe(firstThreadId);
+
+    const secondThreadId = await createThread();
+    await withAgent(secondThreadId, async (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Cards get 16px padding." }]);
+      await agent.chat("What spacing grid do the card layouts use?");
+
+      const [request] = agent.llm.requests;
+      expect(request.messages[1]).toEqual({
+        role: "system",
+        content:
+          "Design decisions remembered from earlier conversations. Follow them unless the user changes them:\n" +
+          "- Layouts use an 8px spacing grid",
+      });
+    });
+  });
+
+  it("edits and forgets only the caller's memories", async () => {
+    const threadId = await createThread();
+    await withAgent(threadId, async (agent) => {
+      agent.memory = { extraction: true, topK: 5 };
+      agent.llm = new ScriptedProvider([{ content: "Noted." }, { content: '["Buttons use sentence case labels"]' }]);
+      await agent.chat("Button labels are sentence case");
+    });
+
+    let memory: Memory | undefined;
+    await vi.waitFor(async () => {
+      memory = (await listMemories()).find((item) => item.content === "Buttons use sentence case labels");
+      expect(memory).toBeDefined();
+    });
+    const path = `/api/memories/${memory!.id}`;
+
+    expect((await send(path, "PATCH", { content: "Buttons use title case labels" }, "someone-else")).status).toBe(404);
+    expect((await send(path, "DELETE", undefined, "someone-else")).status).toBe(404);
+    expect((await send(path, "PATCH", { content: "  " })).status).toBe(400);
+
+    const edited = await send(path, "PATCH", { content: "Buttons use title case labels" });
+    expect(edited.status).toBe(200);
+    expect((await edited.json<{ memory: Memory }>()).memory.content).toBe("Buttons use title case labels");
+
+    // Listing needs no embedding provider; the test bindings have no AI binding
+    const listed = await createMemoryStore(env).listThreadMemories(USER, threadId);
+    expect(listed.map((item) => item.content)).toEqual(["Buttons use title case labels"]);
+
+    // Recall follows the edited content
+    const recallThreadId = await createThread();
+    await withAgent(recallThreadId, async (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Title case it is." }]);
+      await agent.chat("Which case do button labels use?");
+      expect(JSON.stringify(agent.llm.requests[0].messages[1])).toContain("Buttons use title case labels");
+    });
+
+    expect((await send(path, "DELETE")).status).toBe(200);
+    expect((await listMemories()).some((item) => item.id === memory!.id)).toBe(false);
+    expect((await send(path, "DELETE")).status).toBe(404);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import type { Persona, PersonaVersion } from "../src/personas";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { apiFetch, withAgent } from "./helpers";
+
+function send(path: string, method: string, body: unknown) {
+  return apiFetch(path, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+async function createPersona(name: string, systemPrompt: string): Promise<Persona> {
+  const response = await send("/api/personas", "POST", { name, systemPrompt });
+  expect(response.status).toBe(201);
+  return (await response.json<{ persona: Persona }>()).persona;
+}
+
+describe("persona routes", () => {
+  it("validates required fields", async () => {
+    const response = await send("/api/personas", "POST", { name: "No prompt" });
+    expect(response.status).toBe(400);
+  });
+
+  it("creates a new version only when the prompt changes", async () => {
+    const persona = await createPersona("UX Writer", "You write microcopy.");
+
+    const renamed = await send(`/api/personas/${persona.id}`, "PATCH", { name: "UX Writer v2" });
+    expect((await renamed.json<{ persona: Persona }>()).persona).toMatchObject({
+      name: "UX Writer v2",
+      current_version: 1,
+    });
+
+    const reprompted = await send(`/api/personas/${persona.id}`, "PATCH", {
+      systemPrompt: "You write concise, friendly microcopy.",
+    });
+    expect((await reprompted.json<{ persona: Persona }>()).persona).toMatchObject({
+      current_version: 2,
+      system_prompt: "You write concise, friendly microcopy.",
+    });
+
+    const versions = await apiFetch(`/api/personas/${persona.id}/versions`);
+    const body = await versions.json<{ versions: PersonaVersion[] }>();
+    expect(body.versions.map((v) => v.version)).toEqual([2, 1]);
+  });
+
+  it("pins a thread to the persona version current at creation", async () => {
+    const persona = await createPersona("Accessibility Auditor", "You audit for WCAG 2.2 AA.");
+
+    const created = await send("/api/threads", "POST", { personaId: persona.id });
+    const { threadId } = await created.json<{ threadId: string }>();
+
+    await send(`/api/personas/${persona.id}`, "PATCH", { systemPrompt: "Changed later." });
+
+    const systemPrompt = await withAgent(threadId, async (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Contrast fails AA." }]);
+      await agent.chat("Check my button colors");
+      return agent.llm.requests[0].messages[0].content;
+    });
+
+    expect(systemPrompt).toBe("You audit for WCAG 2.2 AA.");
+  });
+
+  it("rejects threads pinned to unknown personas", async () => {
+    const response = await send("/api/threads", "POST", { personaId: "missing" });
+    expect(response.status).toBe(400);
+  });
+});
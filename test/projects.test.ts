@@ -0,0 +1,199 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Thread } from "../src/agent";
+import type { Decision } from "../src/decisions";
+import type { Memory } from "../src/memory";
+import { parseThreadMetadata } from "../src/persistence";
+import type { Persona } from "../src/personas";
+import type { Project } from "../src/projects";
+import { FakeMcpServer, textResult } from "./fakes/fake-mcp-server";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { LOCAL_TOOL_NAMES, apiFetch, withAgent } from "./helpers";
+
+const USER = "project-user";
+
+function send(path: string, method: string, body?: unknown, userId = USER) {
+  return apiFetch(
+    path,
+    {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    },
+    userId
+  );
+}
+
+async function createProject(body: Record<string, unknown>): Promise<Project> {
+  const response = await send("/api/projects", "POST", body);
+  expect(response.status).toBe(201);
+  return (await response.json<{ project: Project }>()).project;
+}
+
+async function createThread(body: Record<string, unknown> = {}): Promise<string> {
+  const response = await send("/api/threads", "POST", body);
+  expect(response.status).toBe(201);
+  return (await response.json<{ threadId: string }>()).threadId;
+}
+
+async function listThreadIds(query = ""): Promise<string[]> {
+  const response = await send(`/api/threads${query}`, "GET");
+  return (await response.json<{ threads: Thread[] }>()).threads.map((thread) => thread.id);
+}
+
+describe("projects", () => {
+  it("files threads in projects and applies the project's defaults", async () => {
+    const personaResponse = await send("/api/personas", "POST", {
+      name: "Mobile Designer",
+      systemPrompt: "You design mobile apps.",
+    });
+    const { persona } = await personaResponse.json<{ persona: Persona }>();
+
+    const project = await createProject({
+      name: "Banking app",
+      description: "A retail banking app for iOS and Android.",
+      personaId: persona.id,
+      mcpServers: { stitch: false },
+      stitchProjectId: "stitch-123",
+    });
+    expect(project).toMatchObject({ owner_id: USER, persona_id: persona.id, mcp_servers: { stitch: false } });
+
+    const threadId = await createThread({ projectId: project.id });
+    const unfiledThreadId = await createThread();
+    expect(await listThreadIds(`?projectId=${project.id}`)).toEqual([threadId]);
+    expect(await listThreadIds()).toEqual(expect.arrayContaining([threadId, unfiledThreadId]));
+
+    const thread = await (await send(`/api/threads/${threadId}`, "GET")).json<{ thread: Thread }>();
+    expect(thread.thread.project_id).toBe(project.id);
+    expect(parseThreadMetadata(thread.thread.metadata)).toMatchObject({ personaId: persona.id, personaVersion: 1 });
+
+    await withAgent(threadId, async (agent) => {
+      agent.fakeMcp = new FakeMcpServer([{ name: "list_projects", handler: () => textResult("projects") }]);
+      agent.llm = new ScriptedProvider([{ content: "Let's start with the account overview." }]);
+      await agent.chat("Where do we start?");
+
+      const [request] = agent.llm.requests;
+      expect(request.messages[0].content).toBe(
+        "You design mobile apps.\n\n" +
+          'This conversation belongs to the project "Banking app".\n' +
+          "A retail banking app for iOS and Android.\n" +
+          "The project's designs live in Stitch project stitch-123; " +
+          "use it with the Stitch tools unless the user names another project."
+      );
+      // The project opts its threads out of Stitch, leaving the local tools
+      expect(request.tools!.map((tool) => tool.function.name)).toEqual(LOCAL_TOOL_NAMES);
+    });
+
+    // Other users can neither see the project nor file threads in it
+    expect((await send(`/api/projects/${project.id}`, "GET", undefined, "someone-else")).status).toBe(404);
+    expect((await send("/api/threads", "POST", { projectId: project.id }, "someone-else")).status).toBe(400);
+    expect((await send(`/api/threads/${unfiledThreadId}`, "PATCH", { projectId: "missing" })).status).toBe(400);
+    expect((await send("/api/projects", "POST", { name: "  " })).status).toBe(400);
+    expect((await send("/api/projects", "POST", { name: "X", mcpServers: { missing: true } })).status).toBe(400);
+
+    // Threads can be moved into a project
+    const moved = await send(`/api/threads/${unfiledThreadId}`, "PATCH", { projectId: project.id });
+    expect((await moved.json<{ thread: Thread }>()).thread.project_id).toBe(project.id);
+    expect(await listThreadIds(`?projectId=${project.id}`)).toEqual(
+      expect.arrayContaining([threadId, unfiledThreadId])
+    );
+
+    // Deleting the project keeps its threads, unfiled
+    expect((await send(`/api/projects/${project.id}`, "DELETE")).status).toBe(200);
+    expect((await send(`/api/projects/${project.id}`, "GET")).status).toBe(404);
+    const kept = await (await send(`/api/threads/${threadId}`, "GET")).json<{ thread: Thread }>();
+    expect(kept.thread.project_id).toBeNull();
+  });
+
+  it("keeps each project's memories to its own threads", async () => {
+    const project = await createProject({ name: "Design system" });
+    const projectThreadId = await createThread({ projectId: project.id });
+
+    await withAgent(projectThreadId, async (agent) => {
+      agent.memory = { extraction: true, topK: 5 };
+      agent.llm = new ScriptedProvider([
+        { content: "Done." },
+        { content: '["Primary color is #4F46E5"]' },
+      ]);
+      await agent.chat("Make the primary color #4F46E5");
+    });
+
+    await vi.waitFor(async () => {
+      const response = await send(`/api/memories?projectId=${project.id}`, "GET");
+      const { memories } = await response.json<{ memories: Memory[] }>();
+      expect(memories.map((memory) => [memory.content, memory.project_id])).toEqual([
+        ["Primary color is #4F46E5", project.id],
+      ]);
+    });
+
+    // Threads outside the project do not recall its memories
+    const unfiledThreadId = await createThread();
+    await withAgent(unfiledThreadId, async (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Any color you like." }]);
+      await agent.chat("What is the primary color?");
+      expect(agent.llm.requests[0].messages.filter((message) => message.role === "system")).toHaveLength(1);
+    });
+
+    const otherThreadId = await createThread({ projectId: project.id });
+    await withAgent(otherThreadId, async (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "It is #4F46E5." }]);
+      await agent.chat("What is the primary color?");
+      expect(JSON.stringify(agent.llm.requests[0].messages[1])).toContain("Primary color is #4F46E5");
+    });
+
+    // The project's memories go with it
+    await send(`/api/projects/${project.id}`, "DELETE");
+    const response = await send("/api/memories", "GET");
+    expect((await response.json<{ memories: Memory[] }>()).memories).toEqual([]);
+  });
+
+  it("moves a thread's decision records and memories with it", async () => {
+    const from = await createProject({ name: "Mobile app" });
+    const to = await createProject({ name: "Web app" });
+    const threadId = await createThread({ projectId: from.id });
+
+    await withAgent(threadId, async (agent) => {
+      agent.memory = { extraction: true, topK: 5 };
+      agent.llm = new ScriptedProvider([
+        {
+          toolCalls: [
+            {
+              name: "record_decision",
+              arguments: {
+                title: "Use a bottom tab bar",
+                context: "The app has four top-level sections",
+                decision: "Use a bottom tab bar",
+                rationale: "Sections stay one tap away",
+              },
+            },
+          ],
+        },
+        { content: "Recorded." },
+        { content: '["Navigation uses a bottom tab bar"]' },
+      ]);
+      await agent.chat("Let's go with a bottom tab bar");
+    });
+    await vi.waitFor(async () => {
+      const response = await send(`/api/memories?projectId=${from.id}`, "GET");
+      expect((await response.json<{ memories: Memory[] }>()).memories).toHaveLength(1);
+    });
+
+    expect((await send(`/api/threads/${threadId}`, "PATCH", { projectId: to.id })).status).toBe(200);
+
+    const listDecisions = async (projectId: string) =>
+      (await (await send(`/api/decisions?projectId=${projectId}`, "GET")).json<{ decisions: Decision[] }>()).decisions;
+    const listMemories = async (projectId: string) =>
+      (await (await send(`/api/memories?projectId=${projectId}`, "GET")).json<{ memories: Memory[] }>()).memories;
+    expect(await listDecisions(from.id)).toEqual([]);
+    expect((await listDecisions(to.id)).map((decision) => decision.title)).toEqual(["Use a bottom tab bar"]);
+    expect(await listMemories(from.id)).toEqual([]);
+    expect((await listMemories(to.id)).map((memory) => memory.content)).toEqual(["Navigation uses a bottom tab bar"]);
+
+    // Threads in the new project recall the moved memories
+    const otherThreadId = await createThread({ projectId: to.id });
+    await withAgent(otherThreadId, async (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "The app navigation." }]);
+      await agent.chat("Which navigation uses a bottom tab bar?");
+      expect(JSON.stringify(agent.llm.requests[0].messages[1])).toContain("Navigation uses a bottom tab bar");
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { apiFetch, getD1Messages, withAgent } from "./helpers";
+
+async function createThread(body: Record<string, unknown> = {}): Promise<string> {
+  const response = await apiFetch("/api/threads", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  expect(response.status).toBe(201);
+  const { threadId } = await response.json<{ threadId: string }>();
+  return threadId;
+}
+
+describe("thread routes", () => {
+  it("lists threads created through the API", async () => {
+    const threadId = await createThread({ title: "Onboarding flow" });
+
+    const response = await apiFetch("/api/threads");
+    const { threads } = await response.json<{ threads: Array<{ id: string; title: string }> }>();
+
+    expect(threads).toContainEqual(expect.objectContaining({ id: threadId, title: "Onboarding flow" }));
+  });
+
+  it("returns 404 for unknown threads", async () => {
+    const response = await apiFetch(`/api/threads/${crypto.randomUUID()}`);
+    expect(response.status).toBe(404);
+  });
+
+  it("deletes a thread from D1 and the agent cache", async () => {
+    const threadId = await createThread();
+    await withAgent(threadId, (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Hi there" }]);
+      return agent.chat("Hello");
+    });
+
+    const response = await apiFetch(`/api/threads/${threadId}`, {
+      method: "DELETE",
+    });
+
+    expect(response.status).toBe(200);
+    expect(await getD1Messages(threadId)).toHaveLength(0);
+    const cached = await withAgent(
+      threadId,
+      (agent) => agent.sql`SELECT id FROM agent_messages WHERE thread_id = ${threadId}`
+    );
+    expect(cached).toHaveLength(0);
+  });
+});
+
+describe("chat routes", () => {
+  it("rejects requests without a message", async () => {
+    const response = await apiFetch("/api/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({}),
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it("answers through the agent and shows the conversation in the thread", async () => {
+    const threadId = await createThread();
+    await withAgent(threadId, (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Use an 8px spacing grid." }]);
+    });
+
+    const response = await apiFetch("/api/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ threadId, message: "Which spacing grid?" }),
+    });
+    expect(await response.json()).toMatchObject({
+      response: "Use an 8px spacing grid.",
+      threadId,
+    });
+
+    const thread = await apiFetch(`/api/threads/${threadId}`);
+    const { messages } = await thread.json<{ messages: Array<{ role: string; content: string }> }>();
+    expect(messages.map((msg) => [msg.role, msg.content])).toEqual([
+      ["user", "Which spacing grid?"],
+      ["assistant", "Use an 8px spacing grid."],
+    ]);
+  });
+
+  it("streams the turn as server-sent events", async () => {
+    const threadId = await createThread();
+    await withAgent(threadId, (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Streaming works" }]);
+    });
+
+    const response = await apiFetch("/api/chat/stream", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ threadId, message: "Stream please" }),
+    });
+
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    const body = await response.text();
+    const events = body
+      .trim()
+      .split("\n\n")
+      .map((frame) => JSON.parse(frame.split("\n")[1].slice("data: ".length)));
+
+    expect(events.map((event) => event.type)).toEqual(["text-delta", "text-delta", "message-complete"]);
+    expect(events.at(-1)).toMatchObject({ response: "Streaming works", threadId });
+  });
+});
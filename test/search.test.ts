@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { SearchResult } from "../src/search";
+import { buildMatchQuery } from "../src/search";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { apiFetch, withAgent } from "./helpers";
+
+async function createThread(title?: string, userId?: string): Promise<string> {
+  const response = await apiFetch(
+    "/api/threads",
+    { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ title }) },
+    userId
+  );
+  const { threadId } = await response.json<{ threadId: string }>();
+  return threadId;
+}
+
+async function search(query: string, userId?: string, limit?: string): Promise<SearchResult[]> {
+  const params = new URLSearchParams({ q: query, ...(limit === undefined ? {} : { limit }) });
+  const response = await apiFetch(`/api/search?${params}`, {}, userId);
+  expect(response.status).toBe(200);
+  return (await response.json<{ results: SearchResult[] }>()).results;
+}
+
+describe("buildMatchQuery", () => {
+  it("quotes every word as a prefix term", () => {
+    expect(buildMatchQuery('onboard "NEAR" -x')).toBe('"onboard"* "NEAR"* "-x"*');
+    expect(buildMatchQuery('  " ')).toBeNull();
+  });
+});
+
+describe("search", () => {
+  it("finds the caller's messages and titles with highlighted snippets", async () => {
+    const threadId = await createThread("Kanban board");
+    await withAgent(threadId, async (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Use swimlanes grouped by assignee." }]);
+      await agent.chat("How should the kanban columns be grouped?");
+    });
+    const otherThreadId = await createThread("Kanban for someone else", "someone-else");
+
+    const results = await search("swimlane");
+    expect(results).toHaveLength(1);
+    const [match] = results;
+    expect(match).toMatchObject({ threadId, threadTitle: "Kanban board", role: "assistant" });
+    expect(match.snippet).toBe("Use swimlanes grouped by assignee.");
+    expect(match.highlights.map(([start, end]) => match.snippet.slice(start, end))).toEqual(["swimlanes"]);
+
+    const kanban = await search("kanban");
+    // The title match comes first, then the message; other users' threads never show up
+    expect(kanban.map((result) => [result.threadId, result.messageId === null])).toEqual([
+      [threadId, true],
+      [threadId, false],
+    ]);
+    expect(kanban.some((result) => result.threadId === otherThreadId)).toBe(false);
+
+    // Renamed and deleted threads are reindexed
+    await apiFetch(`/api/threads/${threadId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ title: "Task board" }),
+    });
+    expect((await search("kanban")).filter((result) => result.messageId === null)).toEqual([]);
+
+    await apiFetch(`/api/threads/${threadId}`, { method: "DELETE" });
+    expect(await search("swimlanes")).toEqual([]);
+
+    expect((await apiFetch("/api/search?q=%20")).status).toBe(400);
+  });
+
+  it("falls back to the default limit unless it is a positive integer", async () => {
+    await createThread("Gantt chart");
+    await createThread("Gantt timeline");
+
+    expect(await search("gantt", undefined, "1")).toHaveLength(1);
+    expect(await search("gantt", undefined, "1.5")).toHaveLength(2);
+    expect(await search("gantt", undefined, "-1")).toHaveLength(2);
+    expect(await search("gantt", undefined, "many")).toHaveLength(2);
+  });
+});
@@ -0,0 +1,16 @@
+import { applyD1Migrations, env } from "cloudflare:test";
+import schema from "../schema.sql?raw";
+
+// Apply the baseline D1 schema; every statement is idempotent so this can run per test file
+const statements = schema
+  .split("\n")
+  .filter((line) => !line.trim().startsWith("--"))
+  .join("\n")
+  .split(";")
+  .map((statement) => statement.trim())
+  .filter(Boolean);
+
+await env.DB.batch(statements.map((statement) => env.DB.prepare(statement)));
+
+// Then the migrations, which are recorded as applied so later test files skip them
+await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
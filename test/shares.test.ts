@@ -0,0 +1,156 @@
+import { SELF, env } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import type { Message } from "../src/agent";
+import { DecisionStore, type ExportedDecision } from "../src/decisions";
+import type { ThreadShare } from "../src/shares";
+import { FakeMcpServer } from "./fakes/fake-mcp-server";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { apiFetch, withAgent } from "./helpers";
+
+const USER = "share-user";
+
+// A 1x1 PNG
+const PIXEL =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+// An HTML resource that would run as the app if served inline
+const PAGE = "<script>fetch('/api/threads')</script>";
+
+function send(path: string, method: string, body?: unknown, userId = USER) {
+  return apiFetch(
+    path,
+    {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    },
+    userId
+  );
+}
+
+/**
+ * Fetch a public share route without signing in
+ */
+function fetchShared(path: string) {
+  return SELF.fetch(`https://example.com/api/share/${path}`);
+}
+
+async function createShare(threadId: string, body: Record<string, unknown> = {}): Promise<ThreadShare> {
+  const response = await send(`/api/threads/${threadId}/shares`, "POST", body);
+  expect(response.status).toBe(201);
+  return (await response.json<{ share: ThreadShare }>()).share;
+}
+
+async function createScreenThread(): Promise<string> {
+  const response = await send("/api/threads", "POST", { title: "Login screen" });
+  const { threadId } = await response.json<{ threadId: string }>();
+
+  await withAgent(threadId, async (agent) => {
+    agent.fakeMcp = new FakeMcpServer([
+      {
+        name: "generate_screen",
+        handler: () => ({
+          content: [
+            { type: "image", data: PIXEL, mimeType: "image/png" },
+            {
+              type: "resource",
+              resource: { uri: "stitch://screens/login.html", mimeType: "text/html", blob: btoa(PAGE) },
+            },
+          ],
+        }),
+      },
+    ]);
+    agent.llm = new ScriptedProvider([
+      { toolCalls: [{ name: "stitch__generate_screen" }] },
+      { content: "Here is the login screen." },
+    ]);
+    await agent.chat("Design a login screen");
+  });
+  return threadId;
+}
+
+describe("share links", () => {
+  it("serves a shared thread and its assets without signing in", async () => {
+    const threadId = await createScreenThread();
+    const share = await createShare(threadId);
+    expect(share).toMatchObject({ thread_id: threadId, owner_id: USER, expires_at: null, revoked_at: null });
+    expect(share.token).toMatch(/^[\w-]{32}$/);
+
+    const decision = {
+      title: "Sign in with email",
+      context: "Most users sign in on mobile",
+      options: ["Email", "Username"],
+      decision: "Use email as the login",
+      rationale: "Users remember it",
+      tags: ["auth"],
+    };
+    await new DecisionStore(env.DB).recordDecision({
+      ownerId: USER,
+      threadId,
+      projectId: null,
+      messageId: "message",
+      decision,
+    });
+
+    const response = await fetchShared(share.token);
+    expect(response.status).toBe(200);
+    const shared = await response.json<{
+      thread: { title: string };
+      messages: Message[];
+      decisions: ExportedDecision[];
+      notes: string[];
+    }>();
+    expect(shared.thread.title).toBe("Login screen");
+    expect(shared.messages.map((message) => message.role)).toEqual(["user", "assistant", "tool", "assistant"]);
+    // Decision records show without their owner or links to other records
+    expect(shared.decisions).toEqual([{ ...decision, message_id: "message", created_at: expect.any(Number) }]);
+    expect(shared.notes).toEqual([]);
+
+    // Asset URLs go through the share link, which serves only this thread's assets
+    const [image, page] = JSON.parse(shared.messages[2].content).content;
+    expect(image.url).toBe(`/api/share/${share.token}/assets/${image.assetId}`);
+    const served = await SELF.fetch(`https://example.com${image.url}`);
+    expect(served.status).toBe(200);
+    expect(served.headers.get("Content-Type")).toBe("image/png");
+
+    // Other content cannot run as the app for whoever opens the link
+    const html = await SELF.fetch(`https://example.com${page.resource.url}`);
+    expect(html.headers.get("Content-Disposition")).toMatch(/^attachment;/);
+    expect(html.headers.get("Content-Security-Policy")).toBe("sandbox");
+    expect(html.headers.get("X-Content-Type-Options")).toBe("nosniff");
+
+    const otherThreadId = await createScreenThread();
+    const otherShare = await createShare(otherThreadId);
+    expect((await fetchShared(`${otherShare.token}/assets/${image.assetId}`)).status).toBe(404);
+
+    // Only the owner can manage a thread's links
+    expect((await send(`/api/threads/${threadId}/shares`, "POST", {}, "someone-else")).status).toBe(403);
+    const listed = await send(`/api/threads/${threadId}/shares`, "GET");
+    expect((await listed.json<{ shares: ThreadShare[] }>()).shares.map((s) => s.token)).toEqual([share.token]);
+
+    // Revoked links stop working, assets included
+    const revoked = await send(`/api/threads/${threadId}/shares/${share.token}`, "DELETE");
+    expect((await revoked.json<{ share: ThreadShare }>()).share.revoked_at).not.toBeNull();
+    expect((await fetchShared(share.token)).status).toBe(410);
+    expect((await fetchShared(`${share.token}/assets/${image.assetId}`)).status).toBe(410);
+    expect((await send(`/api/threads/${otherThreadId}/shares/${share.token}`, "DELETE")).status).toBe(404);
+  });
+
+  it("expires links and drops them with their thread", async () => {
+    const threadId = await createScreenThread();
+    const share = await createShare(threadId, { expiresInSeconds: 3600 });
+    expect(share.expires_at).toBe(share.created_at + 3600);
+    expect((await fetchShared(share.token)).status).toBe(200);
+
+    await env.DB.prepare("UPDATE thread_shares SET expires_at = ? WHERE token = ?")
+      .bind(share.created_at - 1, share.token)
+      .run();
+    expect((await fetchShared(share.token)).status).toBe(410);
+
+    expect((await send(`/api/threads/${threadId}/shares`, "POST", { expiresInSeconds: -5 })).status).toBe(400);
+    expect((await fetchShared("not-a-token")).status).toBe(404);
+
+    const live = await createShare(threadId);
+    await send(`/api/threads/${threadId}`, "DELETE");
+    expect((await fetchShared(live.token)).status).toBe(404);
+  });
+});
@@ -0,0 +1,88 @@
+import { env } from "cloudflare:test";
+import { describe, expect, it, vi } from "vitest";
+import type { Thread } from "../src/agent";
+import { parseThreadMetadata } from "../src/persistence";
+import { cleanTitle } from "../src/titles";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { apiFetch, withAgent } from "./helpers";
+
+function send(path: string, method: string, body: unknown) {
+  return apiFetch(path, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+async function createThread(): Promise<string> {
+  const response = await send("/api/threads", "POST", {});
+  const { threadId } = await response.json<{ threadId: string }>();
+  return threadId;
+}
+
+function getThread(threadId: string): Promise<Thread | null> {
+  return env.DB.prepare("SELECT * FROM threads WHERE id = ?").bind(threadId).first<Thread>();
+}
+
+describe("cleanTitle", () => {
+  it("keeps the first line without quotes, prefixes or trailing periods", () => {
+    expect(cleanTitle('Title: "Checkout redesign."\nExtra')).toBe("Checkout redesign");
+    expect(cleanTitle("x".repeat(100))).toHaveLength(80);
+  });
+});
+
+describe("thread titling", () => {
+  it("titles the thread after the first exchange and summarizes every N turns", async () => {
+    const threadId = await createThread();
+
+    await withAgent(threadId, async (agent) => {
+      agent.titling = { enabled: true, summaryIntervalTurns: 2 };
+      agent.llm = new ScriptedProvider([
+        { content: "Let's start with the cart." },
+        { content: '"Checkout flow redesign"' },
+      ]);
+      const result = await agent.chat("Redesign our checkout");
+      // The reply does not wait for the title
+      expect(result.response).toBe("Let's start with the cart.");
+    });
+
+    await vi.waitFor(async () => expect((await getThread(threadId))?.title).toBe("Checkout flow redesign"));
+
+    await withAgent(threadId, async (agent) => {
+      agent.llm.enqueue({ content: "Added a guest option." }, { content: "A checkout redesign with guest checkout." });
+      await agent.chat("Add guest checkout");
+    });
+
+    await vi.waitFor(async () => {
+      const metadata = parseThreadMetadata((await getThread(threadId))!.metadata);
+      expect(metadata).toMatchObject({ summary: "A checkout redesign with guest checkout.", summaryTurns: 2 });
+    });
+    await withAgent(threadId, (agent) => {
+      // Titled threads are not titled again
+      expect(agent.llm.requests).toHaveLength(4);
+      expect(agent.llm.remaining).toBe(0);
+    });
+  });
+
+  it("renames threads and never overwrites a manual title", async () => {
+    const threadId = await createThread();
+
+    const renamed = await send(`/api/threads/${threadId}`, "PATCH", { title: "  Pricing page  " });
+    expect(renamed.status).toBe(200);
+    expect((await renamed.json<{ thread: Thread }>()).thread.title).toBe("Pricing page");
+
+    await withAgent(threadId, async (agent) => {
+      agent.titling = { enabled: true, summaryIntervalTurns: 5 };
+      agent.llm = new ScriptedProvider([{ content: "Sure." }]);
+      await agent.chat("Sketch a pricing page");
+      expect(agent.llm.requests).toHaveLength(1);
+    });
+    expect((await getThread(threadId))?.title).toBe("Pricing page");
+
+    expect((await send(`/api/threads/${threadId}`, "PATCH", { title: "  " })).status).toBe(400);
+    expect((await send(`/api/threads/${threadId}`, "PATCH", { title: 42 })).status).toBe(400);
+
+    await send(`/api/threads/${threadId}`, "PATCH", { title: null });
+    expect((await getThread(threadId))?.title).toBeNull();
+  });
+});
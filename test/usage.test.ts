@@ -0,0 +1,91 @@
+import { env } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import { QuotaExceededError, type UsageSummary } from "../src/usage";
+import { FakeMcpServer, textResult } from "./fakes/fake-mcp-server";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+import { apiFetch, getD1Messages, withAgent } from "./helpers";
+
+async function createThread(userId: string): Promise<string> {
+  const response = await apiFetch(
+    "/api/threads",
+    { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({}) },
+    userId
+  );
+  const { threadId } = await response.json<{ threadId: string }>();
+  return threadId;
+}
+
+function chat(threadId: string, message: string, userId: string) {
+  return apiFetch(
+    "/api/chat",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ threadId, message }),
+    },
+    userId
+  );
+}
+
+describe("usage quotas", () => {
+  it("records the tokens of every completion per user and thread", async () => {
+    const threadId = await createThread("usage-reporter");
+    await withAgent(threadId, (agent) => {
+      agent.fakeMcp = new FakeMcpServer([
+        { name: "list_projects", handler: () => textResult("[]") },
+      ]);
+      agent.llm = new ScriptedProvider([
+        { toolCalls: [{ name: "stitch__list_projects" }], usage: { promptTokens: 120, completionTokens: 15 } },
+        { content: "No projects yet.", usage: { promptTokens: 180, completionTokens: 5 } },
+      ]);
+    });
+
+    expect((await chat(threadId, "Any projects?", "usage-reporter")).status).toBe(200);
+
+    const response = await apiFetch("/api/usage", {}, "usage-reporter");
+    const usage = await response.json<UsageSummary>();
+
+    expect(usage.requestsLastMinute).toBe(1);
+    expect(usage.today).toEqual({ promptTokens: 300, completionTokens: 20, totalTokens: 320 });
+    expect(usage.threads).toEqual([
+      { threadId, promptTokens: 300, completionTokens: 20, totalTokens: 320 },
+    ]);
+    expect(usage.limits.userRequestsPerMinute).toBeGreaterThan(0);
+  });
+
+  it("rejects chat with 429 and a retry hint once the request rate is exceeded", async () => {
+    const threadId = await createThread("usage-hammer");
+    const now = Math.floor(Date.now() / 1000);
+    const insert = env.DB.prepare(
+      "INSERT INTO chat_requests (user_id, thread_id, created_at) VALUES (?, ?, ?)"
+    );
+    await env.DB.batch(
+      Array.from({ length: 20 }, () => insert.bind("usage-hammer", crypto.randomUUID(), now))
+    );
+
+    const response = await chat(threadId, "One more?", "usage-hammer");
+
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get("Retry-After"))).toBeGreaterThan(0);
+    expect(await response.json()).toMatchObject({ error: "Rate limit exceeded" });
+    expect(await getD1Messages(threadId)).toHaveLength(0);
+  });
+
+  it("stops a thread once its daily token quota is spent", async () => {
+    const threadId = crypto.randomUUID();
+    await env.DB.prepare(
+      `INSERT INTO token_usage (user_id, thread_id, model, prompt_tokens, completion_tokens, created_at)
+       VALUES (NULL, ?, 'scripted:test', 199000, 1000, ?)`
+    )
+      .bind(threadId, Math.floor(Date.now() / 1000))
+      .run();
+
+    const error = await withAgent(threadId, (agent) => {
+      agent.llm = new ScriptedProvider([{ content: "Should not run" }]);
+      return agent.chat("Hello").catch((err: unknown) => err);
+    });
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect((error as QuotaExceededError).message).toBe("Daily token quota exceeded for this thread");
+  });
+});
@@ -0,0 +1,82 @@
+import type { Env } from "../src/agent";
+import worker, { UXArchitectAgent as BaseAgent } from "../src/index";
+import type { McpConnectionState, McpServer, McpTool } from "../src/mcp-servers";
+import type { MemorySettings } from "../src/memory";
+import type { LLMProvider } from "../src/providers";
+import type { TitlingSettings } from "../src/titles";
+import { fakeAi } from "./fakes/fake-ai";
+import { FakeMcpServer } from "./fakes/fake-mcp-server";
+import { ScriptedProvider } from "./fakes/scripted-provider";
+
+/**
+ * Bindings with the fake Workers AI binding, which serves embeddings
+ */
+function withFakeAi(env: Env): Env {
+  return { ...env, AI: fakeAi as unknown as Ai };
+}
+
+/**
+ * Agent wired to the scripted model, fake embeddings and in-process MCP servers.
+ * Tests replace `llm`, `fakeMcp`, `fakeMcpServers`, `titling` and `memory` through runInDurableObject().
+ */
+export class UXArchitectAgent extends BaseAgent {
+  llm = new ScriptedProvider();
+  /** Serves every registry server without an entry in `fakeMcpServers` */
+  fakeMcp = new FakeMcpServer();
+  /** Fakes for specific registry servers, keyed by server name */
+  fakeMcpServers: Record<string, FakeMcpServer> = {};
+  /** Replaces the environment's titling settings, which disable titling in tests */
+  titling?: TitlingSettings;
+  /** Replaces the environment's memory settings, which disable extraction in tests */
+  memory?: MemorySettings;
+  private fakeTools = new Map<string, McpTool[]>();
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, withFakeAi(env));
+  }
+
+  protected getProvider(): LLMProvider {
+    return this.llm;
+  }
+
+  protected getTitlingSettings(): TitlingSettings {
+    return this.titling ?? super.getTitlingSettings();
+  }
+
+  protected getMemorySettings(): MemorySettings {
+    return this.memory ?? super.getMemorySettings();
+  }
+
+  private fakeFor(server: McpServer): FakeMcpServer {
+    return this.fakeMcpServers[server.name] ?? this.fakeMcp;
+  }
+
+  protected async openMcpConnections(servers: McpServer[]): Promise<void> {
+    this.fakeTools.clear();
+    for (const server of servers) {
+      this.fakeTools.set(server.id, await this.fakeFor(server).listTools());
+    }
+  }
+
+  protected getServerState(server: McpServer): McpConnectionState {
+    return this.fakeTools.has(server.id) ? "ready" : "failed";
+  }
+
+  protected listServerTools(server: McpServer): McpTool[] {
+    return this.fakeTools.get(server.id) ?? [];
+  }
+
+  protected async callServerTool(
+    server: McpServer,
+    toolName: string,
+    args: Record<string, unknown>
+  ): Promise<unknown> {
+    return this.fakeFor(server).callTool(toolName, args);
+  }
+}
+
+export default {
+  fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    return worker.fetch(request, withFakeAi(env), ctx);
+  },
+};
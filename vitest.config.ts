@@ -0,0 +1,23 @@
+import { defineWorkersConfig, readD1Migrations } from "@cloudflare/vitest-pool-workers/config";
+
+export default defineWorkersConfig(async () => {
+  // Read in Node.js and passed to the setup file, which applies them on top of schema.sql
+  const migrations = await readD1Migrations("./migrations");
+
+  return {
+    test: {
+      setupFiles: ["./test/setup.ts"],
+      poolOptions: {
+        workers: {
+          main: "./test/worker.ts",
+          // Isolated storage cannot snapshot the SQLite files of the agents' Durable Objects
+          // and R2 ("Expected .sqlite, got ....sqlite-shm"), so tests use distinct IDs instead
+          isolatedStorage: false,
+          singleWorker: true,
+          wrangler: { configPath: "./test/wrangler.toml" },
+          miniflare: { bindings: { TEST_MIGRATIONS: migrations } },
+        },
+      },
+    },
+  };
+});